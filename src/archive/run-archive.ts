@@ -0,0 +1,199 @@
+// src/archive/run-archive.ts
+// Versioned run archive - every run's data files, rendered document and manifest under its own revision directory
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ProjectConfig, RevisionHistoryEntry } from '../types';
+import { CONFIG, getResourceNames, getResourceGroup } from '../config';
+import { getSubscriptionId } from '../data-fetchers/azure-session';
+import { SpecificationStore, getSpecificationStore } from '../persistence/specification-store';
+import { diffSnapshots, loadSpecificationSnapshot, summarizeSpecificationChanges } from '../diff/specification-diff';
+
+/**
+ * manifest.json of an archived run
+ */
+export interface RunManifest {
+    revision: number;
+    timestamp: string;          // ISO 8601
+    toolVersion: string;        // package.json version of the generator
+    configHash: string;         // sha256 of the effective project configuration
+    subscriptionId?: string;
+    resourceIds: string[];      // ARM IDs of the documented resources
+    productName: string;
+    siteName: string;
+    environment: string;
+    documentFilename?: string;
+    exportFilenames?: string[]; // Copies of the document in other formats, e.g. the PDF
+    dataFiles: string[];        // Every JSON file of the store, incl. raw files such as default-config-raw.json
+    changes: string;            // Summary of the changes since the previous revision
+}
+
+/**
+ * A run found in the archive
+ */
+export interface ArchivedRun {
+    directory: string;
+    manifest: RunManifest;
+}
+
+const MANIFEST_FILENAME = 'manifest.json';
+
+// --- MANIFEST ---
+
+/**
+ * JSON with sorted object keys, so equal configurations always hash the same
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * sha256 of a project configuration
+ */
+export function hashConfig(config: ProjectConfig = CONFIG): string {
+    return crypto.createHash('sha256').update(stableStringify(config)).digest('hex');
+}
+
+/**
+ * Version of the generator (package.json)
+ */
+export function getToolVersion(): string {
+    const packagePath = path.resolve(__dirname, '..', '..', 'package.json');
+    return fs.existsSync(packagePath) ? JSON.parse(fs.readFileSync(packagePath, 'utf8')).version : 'unknown';
+}
+
+/**
+ * ARM resource IDs of the documented resources (built from the configured names and resource groups)
+ */
+export function getDocumentedResourceIds(subscriptionId: string): string[] {
+    const resources = getResourceNames();
+    const resourceId = (group: string, provider: string) => `/subscriptions/${subscriptionId}/resourceGroups/${group}/providers/${provider}`;
+
+    return [
+        resourceId(getResourceGroup('webapp'), `Microsoft.Web/sites/${resources.webAppName}`),
+        resourceId(getResourceGroup('plan'), `Microsoft.Web/serverfarms/${resources.legacyPlanName}`),
+        resourceId(getResourceGroup('sql'), `Microsoft.Sql/servers/${resources.sqlServerName}`),
+        resourceId(getResourceGroup('sql'), `Microsoft.Sql/servers/${resources.sqlServerName}/databases/${resources.sqlDatabaseName}`),
+        resourceId(getResourceGroup('redis'), `Microsoft.Cache/Redis/${resources.redisCacheName}`),
+        resourceId(getResourceGroup('storage'), `Microsoft.Storage/storageAccounts/${resources.storageAccountName}`),
+    ];
+}
+
+// --- ARCHIVE ---
+
+/**
+ * Archive directory for the current project/site/environment, e.g. "archive/unison-orbia-test"
+ */
+export function getArchiveRoot(config: ProjectConfig = CONFIG): string {
+    return path.resolve(config.archiveDir || 'archive', config.baseResourceName);
+}
+
+/**
+ * Archived runs ordered by revision (directories without a readable manifest are ignored)
+ */
+export function listArchivedRuns(root: string = getArchiveRoot()): ArchivedRun[] {
+    if (!fs.existsSync(root)) return [];
+
+    return fs.readdirSync(root)
+        .map(name => path.join(root, name))
+        .filter(directory => fs.existsSync(path.join(directory, MANIFEST_FILENAME)))
+        .map(directory => {
+            try {
+                return { directory, manifest: JSON.parse(fs.readFileSync(path.join(directory, MANIFEST_FILENAME), 'utf8')) as RunManifest };
+            } catch {
+                console.warn(`⚠️  Ignoring archived run with an unreadable manifest: ${directory}`);
+                return undefined;
+            }
+        })
+        .filter((run): run is ArchivedRun => run !== undefined)
+        .sort((a, b) => a.manifest.revision - b.manifest.revision);
+}
+
+/**
+ * Describe the next run: revision number, configuration, resources and changes since the last archived run
+ */
+export function createRunManifest(
+    runs: ArchivedRun[],
+    store: SpecificationStore = getSpecificationStore(),
+    timestamp: Date = new Date()
+): RunManifest {
+    const previous = runs[runs.length - 1];
+    let subscriptionId: string | undefined;
+    try {
+        subscriptionId = getSubscriptionId();
+    } catch {
+        subscriptionId = undefined;
+    }
+
+    const changes = previous
+        ? diffSnapshots(loadSpecificationSnapshot(previous.directory), loadSpecificationSnapshot(store))
+        : undefined;
+
+    return {
+        revision: previous ? previous.manifest.revision + 1 : 1,
+        timestamp: timestamp.toISOString(),
+        toolVersion: getToolVersion(),
+        configHash: hashConfig(),
+        subscriptionId,
+        resourceIds: getDocumentedResourceIds(subscriptionId || '{subscriptionId}'),
+        productName: CONFIG.productName,
+        siteName: CONFIG.siteName,
+        environment: CONFIG.environment,
+        dataFiles: store.list().filter(file => file.endsWith('.json')),
+        changes: !changes ? 'Initial revision'
+            : changes.length === 0 ? 'No specification changes'
+            : summarizeSpecificationChanges(changes)
+    };
+}
+
+/**
+ * Copy the run's data files and document into a new revision directory and write its manifest
+ * @param documentPath The .docx, or the .docx followed by its exports (e.g. the PDF)
+ * @returns The revision directory, e.g. "archive/unison-orbia-test/rev-003_2025-01-31T09-30-00-000Z"
+ */
+export function archiveRun(
+    manifest: RunManifest,
+    documentPath: string | string[],
+    store: SpecificationStore = getSpecificationStore(),
+    root: string = getArchiveRoot()
+): string {
+    const directory = path.join(root, `rev-${String(manifest.revision).padStart(3, '0')}_${manifest.timestamp.replace(/[:.]/g, '-')}`);
+    if (fs.existsSync(directory)) {
+        throw new Error(`Archive directory already exists: ${directory}`);
+    }
+    fs.mkdirSync(directory, { recursive: true });
+
+    manifest.dataFiles.forEach(filename => fs.writeFileSync(path.join(directory, filename), store.load(filename)!));
+
+    const archived: RunManifest = { ...manifest };
+    const [document, ...exports] = ([] as string[]).concat(documentPath).filter(file => fs.existsSync(file));
+    if (document) {
+        archived.documentFilename = path.basename(document);
+        fs.copyFileSync(document, path.join(directory, archived.documentFilename));
+    }
+    if (exports.length > 0) {
+        archived.exportFilenames = exports.map(file => path.basename(file));
+        exports.forEach(file => fs.copyFileSync(file, path.join(directory, path.basename(file))));
+    }
+
+    fs.writeFileSync(path.join(directory, MANIFEST_FILENAME), JSON.stringify(archived, null, 2));
+    return directory;
+}
+
+/**
+ * Revision history rows for the title page, oldest first
+ */
+export function toRevisionHistory(manifests: RunManifest[]): RevisionHistoryEntry[] {
+    return manifests.map(manifest => ({
+        revision: String(manifest.revision),
+        date: manifest.timestamp.substring(0, 10),
+        description: manifest.changes
+    }));
+}
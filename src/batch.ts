@@ -0,0 +1,129 @@
+// src/batch.ts
+// Multi-environment batch generation - one isolated output directory and document per environment/site
+import * as path from 'path';
+import { BatchTarget, ProjectConfig } from './types';
+import { CONFIG } from './config';
+import { mergeProjectConfig } from './config-file';
+import {
+    FileSpecificationStore,
+    SpecificationStore,
+    getSpecificationStore,
+    setSpecificationStore
+} from './persistence/specification-store';
+
+/**
+ * Outcome of a single batch target
+ */
+export interface BatchResult {
+    label: string;           // e.g. "Orbia / test"
+    outputDir: string;       // Directory holding the target's JSON files and document
+    documentPath: string;
+    success: boolean;
+    error?: string;
+}
+
+/**
+ * Build batch targets from --environments / --sites lists, falling back to CONFIG.batchTargets.
+ * Every site is combined with every environment.
+ */
+export function resolveBatchTargets(environments: string[] = [], sites: string[] = []): BatchTarget[] {
+    if (environments.length === 0 && sites.length === 0) {
+        return CONFIG.batchTargets || [];
+    }
+
+    const environmentList = environments.length > 0 ? environments : [CONFIG.environment];
+    const siteList = sites.length > 0 ? sites : [CONFIG.siteName];
+
+    return siteList.flatMap(siteName => environmentList.map(environment => ({ siteName, environment })));
+}
+
+/**
+ * Directory for a target's output, e.g. "output/unison-orbia-test"
+ */
+export function getBatchOutputDir(config: ProjectConfig, rootDir: string = path.join(process.cwd(), 'output')): string {
+    return path.join(rootDir, config.baseResourceName);
+}
+
+/**
+ * Apply a target to CONFIG and the specification store while running a task, then restore both.
+ * A target in another environment or site uses only its own resources, so names follow getResourceNames().
+ */
+export async function withBatchTarget<T>(
+    target: BatchTarget,
+    task: (config: ProjectConfig, store: SpecificationStore) => Promise<T>,
+    rootDir?: string
+): Promise<T> {
+    const originalConfig = { ...CONFIG };
+    const originalStore = getSpecificationStore();
+
+    // Top-level resources name the resources of the configured environment/site, not of another target
+    const switchesTarget = (target.environment ?? originalConfig.environment) !== originalConfig.environment
+        || (target.siteName ?? originalConfig.siteName) !== originalConfig.siteName;
+    const droppedResources = switchesTarget ? Object.keys(originalConfig.resources || {}).filter(key => !(key in (target.resources || {}))) : [];
+    if (droppedResources.length > 0) {
+        console.warn(`⚠️  Top-level resources (${droppedResources.join(', ')}) are not applied to ${target.siteName ?? originalConfig.siteName} / ${target.environment ?? originalConfig.environment}; set them under the batch target's resources if they apply`);
+    }
+
+    const targetConfig = mergeProjectConfig(switchesTarget ? { ...originalConfig, resources: undefined } : originalConfig, target);
+    const store = new FileSpecificationStore(getBatchOutputDir(targetConfig, rootDir));
+
+    Object.assign(CONFIG, targetConfig);
+    setSpecificationStore(store);
+
+    try {
+        return await task(CONFIG, store);
+    } finally {
+        // Remove keys the target added, then restore the original values
+        Object.keys(CONFIG)
+            .filter(key => !(key in originalConfig))
+            .forEach(key => delete (CONFIG as unknown as Record<string, unknown>)[key]);
+        Object.assign(CONFIG, originalConfig);
+        setSpecificationStore(originalStore);
+    }
+}
+
+/**
+ * Run the full pipeline for every target. A failing target is reported and does not stop the batch.
+ * @param generate Fetches data into the active store and writes the document to the given path
+ */
+export async function runBatch(
+    targets: BatchTarget[],
+    generate: (documentPath: string) => Promise<void>,
+    rootDir?: string
+): Promise<BatchResult[]> {
+    const results: BatchResult[] = [];
+
+    for (const [index, target] of targets.entries()) {
+        await withBatchTarget(target, async (config, store) => {
+            const label = `${config.siteName} / ${config.environment}`;
+            const documentPath = path.join(store.location, config.outputFilename);
+
+            console.log('');
+            console.log(`🏭 [${index + 1}/${targets.length}] ${label} (${config.baseResourceName})`);
+            console.log('=======================================================');
+
+            try {
+                await generate(documentPath);
+                results.push({ label, outputDir: store.location, documentPath, success: true });
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`❌ ${label} failed: ${message}`);
+                results.push({ label, outputDir: store.location, documentPath, success: false, error: message });
+            }
+        }, rootDir);
+    }
+
+    return results;
+}
+
+/**
+ * Print a one-line summary per target
+ */
+export function displayBatchSummary(results: BatchResult[]): void {
+    console.log('');
+    console.log('📋 Batch Summary:');
+    results.forEach(result => {
+        const outcome = result.success ? `✅ ${result.documentPath}` : `❌ ${result.error}`;
+        console.log(`   ${result.label}: ${outcome}`);
+    });
+}
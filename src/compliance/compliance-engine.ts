@@ -0,0 +1,239 @@
+// src/compliance/compliance-engine.ts
+// Compare fetched specification data against the values required by an approved IDS baseline
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { Specification, SpecificationData } from '../types';
+import { CONFIG } from '../config';
+import { findFetcherByFilename, getRegisteredFetchers } from '../data-fetchers/registry';
+import { Schema, SchemaIssue, validateSchema, formatIssuePath } from '../validation/schema';
+
+/**
+ * How an actual value is compared with the expected value
+ * equals   - same text, ignoring case and surrounding whitespace (default)
+ * contains - actual value contains the expected text
+ * min      - actual version/number is at least the expected one ("TLS1_2" >= "1.2")
+ */
+export type ComplianceMatch = 'equals' | 'contains' | 'min';
+
+/**
+ * A single required value from the baseline
+ */
+export interface ComplianceRequirement {
+    filename: string;     // Data file the requirement applies to, e.g. 'redis-data.json'
+    section: string;
+    title: string;
+    expected: string;
+    match: ComplianceMatch;
+    note?: string;
+}
+
+/**
+ * Pass/fail/missing counts for one specification section of the document
+ */
+export interface ComplianceSummaryRow {
+    title: string;
+    pass: number;
+    fail: number;
+    missing: number;
+}
+
+// Baseline entries are either a plain expected value or an object with options
+const REQUIREMENT_SCHEMA: Schema = {
+    type: 'object',
+    properties: {
+        expected: { type: 'string' },
+        match: { type: 'string', optional: true, enum: ['equals', 'contains', 'min'] },
+        note: { type: 'string', optional: true }
+    }
+};
+
+// --- BASELINE LOADING ---
+
+/**
+ * Resolve a baseline key - a fetcher id ('redis') or a data filename ('redis-data.json')
+ */
+function resolveBaselineFilename(key: string): string | undefined {
+    if (key.endsWith('.json')) return key;
+    return getRegisteredFetchers().find(fetcher => fetcher.id === key)?.outputFilename;
+}
+
+/**
+ * Convert a parsed baseline document (fetcher → section → title → expected) into requirements
+ */
+export function parseComplianceBaseline(document: unknown, issues: SchemaIssue[] = []): ComplianceRequirement[] {
+    const requirements: ComplianceRequirement[] = [];
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+        value !== null && typeof value === 'object' && !Array.isArray(value);
+
+    if (!isObject(document)) {
+        issues.push({ path: [], message: 'must be an object of fetcher → section → specification → expected value' });
+        return requirements;
+    }
+
+    Object.entries(document).forEach(([fetcherKey, sections]) => {
+        const filename = resolveBaselineFilename(fetcherKey);
+        if (!filename) {
+            issues.push({ path: [fetcherKey], message: 'is not a registered fetcher id or a *.json data file' });
+            return;
+        }
+        if (!isObject(sections)) {
+            issues.push({ path: [fetcherKey], message: 'must be an object of sections' });
+            return;
+        }
+
+        Object.entries(sections).forEach(([section, titles]) => {
+            if (!isObject(titles)) {
+                issues.push({ path: [fetcherKey, section], message: 'must be an object of specifications' });
+                return;
+            }
+
+            Object.entries(titles).forEach(([title, requirement]) => {
+                const issuePath = [fetcherKey, section, title];
+
+                if (typeof requirement === 'string' || typeof requirement === 'number' || typeof requirement === 'boolean') {
+                    requirements.push({ filename, section, title, expected: String(requirement), match: 'equals' });
+                    return;
+                }
+
+                const requirementIssues = validateSchema(requirement, REQUIREMENT_SCHEMA, issuePath);
+                if (requirementIssues.length > 0) {
+                    issues.push(...requirementIssues);
+                    return;
+                }
+
+                const options = requirement as { expected: string; match?: ComplianceMatch; note?: string };
+                requirements.push({ filename, section, title, expected: options.expected, match: options.match || 'equals', note: options.note });
+            });
+        });
+    });
+
+    return requirements;
+}
+
+/**
+ * Load a baseline file (YAML or JSON)
+ */
+export function loadComplianceBaseline(filePath: string): ComplianceRequirement[] {
+    const fullPath = path.resolve(filePath);
+    if (!fs.existsSync(fullPath)) {
+        throw new Error(`Compliance baseline not found: ${fullPath}`);
+    }
+
+    const contents = fs.readFileSync(fullPath, 'utf8');
+    const document = path.extname(fullPath).toLowerCase() === '.json' ? JSON.parse(contents) : parseYaml(contents);
+
+    const issues: SchemaIssue[] = [];
+    const requirements = parseComplianceBaseline(document, issues);
+
+    if (issues.length > 0) {
+        const details = issues.map(issue => `   - ${formatIssuePath(issue.path)} ${issue.message}`).join('\n');
+        throw new Error(`Invalid compliance baseline ${fullPath}:\n${details}`);
+    }
+
+    return requirements;
+}
+
+/**
+ * Load the baseline configured in CONFIG.complianceBaseline, if any
+ */
+export function getConfiguredBaseline(): ComplianceRequirement[] | undefined {
+    return CONFIG.complianceBaseline ? loadComplianceBaseline(CONFIG.complianceBaseline) : undefined;
+}
+
+// --- COMPARISON ---
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Extract version-like numbers, e.g. "TLS1_2" → [1, 2], "7 Days" → [7]
+ */
+function parseVersion(value: string): number[] | undefined {
+    const match = /\d+(?:[._]\d+)*/.exec(value);
+    return match ? match[0].split(/[._]/).map(Number) : undefined;
+}
+
+/**
+ * Check an actual value against a requirement
+ */
+export function isCompliant(actual: string, expected: string, match: ComplianceMatch = 'equals'): boolean {
+    switch (match) {
+        case 'contains':
+            return normalize(actual).includes(normalize(expected));
+        case 'min': {
+            const actualVersion = parseVersion(actual);
+            const expectedVersion = parseVersion(expected);
+            if (!actualVersion || !expectedVersion) return false;
+
+            for (let i = 0; i < Math.max(actualVersion.length, expectedVersion.length); i++) {
+                const difference = (actualVersion[i] || 0) - (expectedVersion[i] || 0);
+                if (difference !== 0) return difference > 0;
+            }
+            return true;
+        }
+        default:
+            return normalize(actual) === normalize(expected);
+    }
+}
+
+/**
+ * Annotate the rows of one data file with expected value and pass/fail status.
+ * Required rows that the fetcher did not produce are appended with status 'missing'.
+ */
+export function applyComplianceBaseline(filename: string, data: SpecificationData, requirements: ComplianceRequirement[]): SpecificationData {
+    const fileRequirements = requirements.filter(requirement => requirement.filename === filename);
+    if (fileRequirements.length === 0) return data;
+
+    const findRequirement = (item: Specification) =>
+        fileRequirements.find(requirement => requirement.section === item.section && requirement.title === item.title);
+
+    const annotated = data.map(item => {
+        const requirement = findRequirement(item);
+        if (!requirement) return item;
+
+        // Rows added as 'missing' by an earlier check stay missing when the data is checked again.
+        // A value with a unit complies when either "6 GB" or "6" matches the expected value.
+        const actualValues = item.unit && item.value !== '-' ? [`${item.value} ${item.unit}`, item.value] : [item.value];
+        const compliant = actualValues.some(actual => isCompliant(actual, requirement.expected, requirement.match));
+        return {
+            ...item,
+            expected: requirement.expected,
+            status: item.status === 'missing' ? 'missing' : compliant ? 'pass' : 'fail',
+            note: item.note || requirement.note
+        } as Specification;
+    });
+
+    fileRequirements
+        .filter(requirement => !data.some(item => item.section === requirement.section && item.title === requirement.title))
+        .forEach(requirement => annotated.push({
+            section: requirement.section,
+            title: requirement.title,
+            value: '-',
+            expected: requirement.expected,
+            status: 'missing',
+            note: requirement.note || 'Not reported by the data fetcher'
+        }));
+
+    return annotated;
+}
+
+/**
+ * Count pass/fail/missing rows per document section (sections without checked rows are left out)
+ */
+export function summarizeCompliance(sections: { filename: string; title?: string; data: SpecificationData }[]): ComplianceSummaryRow[] {
+    return sections
+        .map(section => ({
+            title: section.title || findFetcherByFilename(section.filename)?.defaultSectionTitle || section.filename,
+            pass: section.data.filter(item => item.status === 'pass').length,
+            fail: section.data.filter(item => item.status === 'fail').length,
+            missing: section.data.filter(item => item.status === 'missing').length
+        }))
+        .filter(row => row.pass + row.fail + row.missing > 0);
+}
+
+/**
+ * Whether any loaded row has been checked against a baseline
+ */
+export function hasComplianceResults(sections: { data: SpecificationData }[]): boolean {
+    return sections.some(section => section.data.some(item => item.status === 'pass' || item.status === 'fail' || item.status === 'missing'));
+}
@@ -0,0 +1,297 @@
+// src/config-file.ts
+// Load per-project configuration files (JSON or YAML) and merge them over the built-in defaults
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ProjectConfig } from './types';
+import { CONFIG, deriveBaseResourceName, deriveOutputFilename } from './config';
+import { Schema, SchemaIssue, validateSchema, formatIssuePath } from './validation/schema';
+
+// --- SCHEMA ---
+
+const optionalString: Schema = { type: 'string', optional: true };
+
+const GLOSSARY_ITEM_SCHEMA: Schema = {
+    type: 'object',
+    properties: { term: { type: 'string' }, definition: { type: 'string' } }
+};
+
+const REFERENCE_ITEM_SCHEMA: Schema = {
+    type: 'object',
+    properties: { number: { type: 'string' }, title: { type: 'string' }, infoCard: { type: 'string' } }
+};
+
+const MARKDOWN_CHAPTER_SCHEMA: Schema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        path: { type: 'string' },
+        enabled: { type: 'boolean', optional: true },
+        before: optionalString,
+        after: optionalString
+    }
+};
+
+const ENVIRONMENT_SCHEMA: Schema = {
+    type: 'object',
+    properties: { name: { type: 'string' }, description: { type: 'string' }, purpose: { type: 'string' } }
+};
+
+const IMPORT_SOURCE_SCHEMA: Schema = {
+    type: 'object',
+    properties: {
+        file: { type: 'string' },
+        outputFilename: { type: 'string' },
+        title: optionalString,
+        sheet: optionalString,
+        delimiter: optionalString,
+        columns: {
+            type: 'object',
+            optional: true,
+            properties: {
+                section: optionalString,
+                title: optionalString,
+                value: optionalString,
+                expected: optionalString,
+                status: optionalString,
+                source: optionalString,
+                note: optionalString,
+                unit: optionalString
+            }
+        },
+        section: optionalString
+    }
+};
+
+const SQL_QUERY_SCHEMA: Schema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string' },
+        query: { type: 'string' },
+        parameters: { type: 'record', values: { type: 'string' }, optional: true },
+        outputFilename: { type: 'string' },
+        title: optionalString,
+        section: optionalString,
+        mapping: {
+            type: 'object',
+            properties: {
+                section: optionalString,
+                title: { type: 'string' },
+                value: { type: 'string' },
+                expected: optionalString,
+                status: optionalString,
+                source: optionalString,
+                note: optionalString,
+                unit: optionalString
+            }
+        }
+    }
+};
+
+const DOCUMENT_SECTION_SCHEMA: Schema = {
+    type: 'object',
+    properties: {
+        filename: { type: 'string' },
+        title: { type: 'string' },
+        sectionNumber: optionalString, // Ignored: numbers are assigned by the document outline
+        enabled: { type: 'boolean' }
+    }
+};
+
+// Settings that can be overridden both at the top level and per batch target
+const PROJECT_SETTINGS_PROPERTIES: Record<string, Schema> = {
+    productName: optionalString,
+    version: optionalString,
+    siteName: optionalString,
+    environment: optionalString,
+    baseResourceName: optionalString,
+    documentType: optionalString,
+    outputFilename: optionalString,
+    locale: { type: 'string', optional: true, enum: ['en', 'de', 'th'] },
+    outputFormats: { type: 'array', items: { type: 'string', enum: ['docx', 'pdf', 'html', 'md', 'xlsx'] }, optional: true },
+    useAutoDiscovery: { type: 'boolean', optional: true },
+    strictValidation: { type: 'boolean', optional: true },
+    complianceBaseline: optionalString,
+    changesSince: optionalString,
+    changeMarkup: { type: 'string', optional: true, enum: ['section', 'redline'] },
+    archiveRuns: { type: 'boolean', optional: true },
+    archiveDir: optionalString,
+    databaseAuthentication: { type: 'string', optional: true, enum: ['sql', 'entra'] },
+    documentSections: { type: 'array', items: DOCUMENT_SECTION_SCHEMA, optional: true },
+    documentCustomization: {
+        type: 'object',
+        optional: true,
+        properties: {
+            companyLogoPath: optionalString,
+            architectureDiagramPath: optionalString,
+            includeGlossary: { type: 'boolean', optional: true },
+            includeReferences: { type: 'boolean', optional: true },
+            customGlossaryItems: { type: 'array', items: GLOSSARY_ITEM_SCHEMA, optional: true },
+            customReferences: { type: 'array', items: REFERENCE_ITEM_SCHEMA, optional: true },
+            includeSourceReferences: { type: 'boolean', optional: true },
+            updateTableOfContents: { type: 'boolean', optional: true },
+            chapters: { type: 'array', items: MARKDOWN_CHAPTER_SCHEMA, optional: true }
+        }
+    },
+    documentControl: {
+        type: 'object',
+        optional: true,
+        properties: {
+            documentNumber: optionalString,
+            revision: optionalString,
+            effectiveDate: optionalString,
+            author: optionalString,
+            reviewer: optionalString,
+            approver: optionalString
+        }
+    },
+    templates: { type: 'record', values: { type: 'string' }, optional: true },
+    templateVariables: { type: 'record', values: { type: 'string' }, optional: true },
+    environments: { type: 'record', values: ENVIRONMENT_SCHEMA, optional: true },
+    imports: { type: 'array', items: IMPORT_SOURCE_SCHEMA, optional: true },
+    sqlQueries: { type: 'array', items: SQL_QUERY_SCHEMA, optional: true },
+    resources: {
+        type: 'object',
+        optional: true,
+        properties: {
+            resourceGroupName: optionalString,
+            webAppName: optionalString,
+            webAppResourceGroup: optionalString,
+            legacyPlanName: optionalString,
+            appServicePlanResourceGroup: optionalString,
+            sqlServerName: optionalString,
+            sqlServerResourceGroup: optionalString,
+            sqlDatabaseName: optionalString,
+            redisCacheName: optionalString,
+            redisCacheResourceGroup: optionalString,
+            storageAccountName: optionalString,
+            storageAccountResourceGroup: optionalString
+        }
+    }
+};
+
+/**
+ * Schema for a project config file - every setting is optional and falls back to CONFIG
+ */
+export const PROJECT_CONFIG_FILE_SCHEMA: Schema = {
+    type: 'object',
+    properties: {
+        ...PROJECT_SETTINGS_PROPERTIES,
+        batchTargets: {
+            type: 'array',
+            optional: true,
+            items: { type: 'object', properties: PROJECT_SETTINGS_PROPERTIES }
+        }
+    }
+};
+
+// --- ENVIRONMENT INTERPOLATION ---
+
+// Matches ${VAR} and ${VAR:-default}
+const ENV_PLACEHOLDER_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Replace ${VAR} / ${VAR:-default} placeholders in every string of a parsed config file
+ */
+export function interpolateEnvironment(
+    value: unknown,
+    env: NodeJS.ProcessEnv = process.env,
+    issues: SchemaIssue[] = [],
+    issuePath: (string | number)[] = []
+): unknown {
+    if (typeof value === 'string') {
+        return value.replace(ENV_PLACEHOLDER_PATTERN, (placeholder, name: string, fallback?: string) => {
+            const envValue = env[name];
+            if (envValue !== undefined && envValue !== '') return envValue;
+            if (fallback !== undefined) return fallback;
+
+            issues.push({ path: issuePath, message: `references environment variable ${name}, which is not set` });
+            return placeholder;
+        });
+    }
+    if (Array.isArray(value)) {
+        return value.map((item, index) => interpolateEnvironment(item, env, issues, [...issuePath, index]));
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value)
+            .map(([key, item]) => [key, interpolateEnvironment(item, env, issues, [...issuePath, key])]));
+    }
+    return value;
+}
+
+// --- MERGING ---
+
+/**
+ * Merge a config file over a base config.
+ * Nested objects merge per key, arrays replace the defaults, and the base resource name and
+ * output filename are re-derived when the file changes their inputs without setting them.
+ */
+export function mergeProjectConfig(base: ProjectConfig, overrides: Partial<ProjectConfig>): ProjectConfig {
+    const merged: ProjectConfig = {
+        ...base,
+        ...overrides,
+        documentCustomization: { ...base.documentCustomization, ...overrides.documentCustomization },
+        documentControl: { ...base.documentControl, ...overrides.documentControl },
+        templates: { ...base.templates, ...overrides.templates },
+        templateVariables: { ...base.templateVariables, ...overrides.templateVariables },
+        environments: { ...base.environments, ...overrides.environments },
+        resources: { ...base.resources, ...overrides.resources }
+    };
+
+    const namingChanged = ['productName', 'siteName', 'environment'].some(key => key in overrides);
+    if (namingChanged && overrides.baseResourceName === undefined) {
+        merged.baseResourceName = deriveBaseResourceName(merged.productName, merged.siteName, merged.environment);
+    }
+    if ((namingChanged || 'documentType' in overrides) && overrides.outputFilename === undefined) {
+        merged.outputFilename = deriveOutputFilename(merged.productName, merged.siteName, merged.environment, merged.documentType);
+    }
+
+    return merged;
+}
+
+// --- LOADING ---
+
+/**
+ * Parse, interpolate and validate a config file without applying it
+ */
+export function readProjectConfigFile(filePath: string, env: NodeJS.ProcessEnv = process.env): Partial<ProjectConfig> {
+    const fullPath = path.resolve(filePath);
+    if (!fs.existsSync(fullPath)) {
+        throw new Error(`Config file not found: ${fullPath}`);
+    }
+
+    const contents = fs.readFileSync(fullPath, 'utf8');
+    const extension = path.extname(fullPath).toLowerCase();
+
+    let parsed: unknown;
+    try {
+        parsed = extension === '.json' ? JSON.parse(contents) : parseYaml(contents);
+    } catch (error) {
+        throw new Error(`Could not parse config file ${fullPath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // An empty YAML file means "use all defaults"
+    if (parsed === null || parsed === undefined) return {};
+
+    const issues: SchemaIssue[] = [];
+    const interpolated = interpolateEnvironment(parsed, env, issues);
+    issues.push(...validateSchema(interpolated, PROJECT_CONFIG_FILE_SCHEMA));
+
+    if (issues.length > 0) {
+        const details = issues.map(issue => `   - ${formatIssuePath(issue.path)} ${issue.message}`).join('\n');
+        throw new Error(`Invalid config file ${fullPath}:\n${details}`);
+    }
+
+    return interpolated as Partial<ProjectConfig>;
+}
+
+/**
+ * Load a config file and apply it to the shared CONFIG object
+ */
+export function loadProjectConfig(filePath: string): ProjectConfig {
+    const overrides = readProjectConfigFile(filePath);
+    Object.assign(CONFIG, mergeProjectConfig(CONFIG, overrides));
+
+    console.log(`⚙️  Loaded project config: ${path.resolve(filePath)}`);
+    return CONFIG;
+}
@@ -1,6 +1,6 @@
 // ENHANCED FILE: src/config.ts
 // Enhanced configuration file with cross-resource-group support
-import { ProjectConfig } from './types';
+import { ProjectConfig, ResourceConfiguration, DocumentControl, DocumentLocale, OutputFormat, EnvironmentConfig, ENVIRONMENTS } from './types';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
 
@@ -8,7 +8,7 @@ import * as path from 'path';
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
 // 🧹 Helper function to sanitize strings for filenames
-const sanitizeForFilename = (str: string): string => {
+export const sanitizeForFilename = (str: string): string => {
     return (str || '')
         .replace(/\s+/g, '-')           // Replace spaces with hyphens
         .replace(/[()[\]{}]/g, '')      // Remove brackets and parentheses
@@ -17,6 +17,16 @@ const sanitizeForFilename = (str: string): string => {
         .replace(/^-+|-+$/g, '');       // Remove leading/trailing hyphens
 };
 
+// 🔧 Base name shared by all generated Azure resource names, e.g. "unison-orbia-test"
+export function deriveBaseResourceName(productName: string, siteName: string, environment: string): string {
+    return `${sanitizeForFilename(productName)}-${sanitizeForFilename(siteName)}-${sanitizeForFilename(environment)}`.toLowerCase();
+}
+
+// 📄 Output document filename, e.g. "unison-orbia-test-specification-report.docx"
+export function deriveOutputFilename(productName: string, siteName: string, environment: string, documentType: string): string {
+    return `${deriveBaseResourceName(productName, siteName, environment)}-${sanitizeForFilename(documentType).toLowerCase()}-report.docx`;
+}
+
 // 🎯 MAIN CONFIGURATION - CHANGE THESE VALUES FOR YOUR PROJECT
 export const CONFIG: ProjectConfig = {
     // Product Information
@@ -28,25 +38,48 @@ export const CONFIG: ProjectConfig = {
     environment: process.env.env_name || 'development',
     
     // 🔧 MAIN SETTING: Change this base name and everything else is auto-generated
-    baseResourceName: `${sanitizeForFilename(process.env.product_name || '')}-${sanitizeForFilename(process.env.site_name || '')}-${sanitizeForFilename(process.env.env_name || '')}`.toLowerCase(),
+    baseResourceName: deriveBaseResourceName(process.env.product_name || '', process.env.site_name || '', process.env.env_name || ''),
     
     // Document Settings
     documentType: process.env.documentType || 'Specification',
-    outputFilename: `${sanitizeForFilename(process.env.product_name || '')}-${sanitizeForFilename(process.env.site_name || '')}-${sanitizeForFilename(process.env.env_name || '')}-${sanitizeForFilename(process.env.documentType || '')}-report.docx`.toLowerCase(),
+    outputFilename: deriveOutputFilename(process.env.product_name || '', process.env.site_name || '', process.env.env_name || '', process.env.documentType || ''),
+    
+    // 🌐 Document language: en, de or th (also: --locale <code> or document_locale)
+    locale: (process.env.document_locale as DocumentLocale) || 'en',
+    
+    // 📄 Output formats: docx, pdf, html, md, xlsx (also: --format docx,pdf or output_formats=docx,pdf)
+    outputFormats: (process.env.output_formats || 'docx').split(',').map(format => format.trim() as OutputFormat),
     
     // 📊 Document Generation Mode
     useAutoDiscovery: false, // Set to true to automatically include all *-data.json files
     
+    // ✅ Fail document generation on invalid data files (also: --strict or strict_validation=true)
+    strictValidation: process.env.strict_validation === 'true',
+    
+    // 📏 IDS baseline with required values (also: --baseline <file> or compliance_baseline)
+    complianceBaseline: process.env.compliance_baseline || undefined,
+    
+    // 🔀 Earlier snapshot to report changes against (also: --since <dir> or changes_since)
+    changesSince: process.env.changes_since || undefined,
+    changeMarkup: process.env.change_markup === 'redline' ? 'redline' : 'section',
+    
+    // 🗄️ Keep a copy of every run under archive/<baseResourceName>/ (also: --no-archive or archive_runs=false)
+    archiveRuns: process.env.archive_runs !== 'false',
+    archiveDir: process.env.archive_dir || 'archive',
+    
+    // 🔑 Database sign-in: sql (db_user/db_password) or entra (Entra ID token, no SQL login) (also: db_authentication=entra)
+    databaseAuthentication: process.env.db_authentication === 'entra' ? 'entra' : 'sql',
+    
     // 📋 Manual Document Sections (only used if useAutoDiscovery = false)
     documentSections: [
-        { filename: 'web-server-data.json', title: 'Web Server Specification', sectionNumber: '3.1', enabled: true },
-        { filename: 'database-data.json', title: 'SQL Azure Database Specification', sectionNumber: '3.2', enabled: true },
-        { filename: 'redis-data.json', title: 'Redis Cache Specification', sectionNumber: '3.3', enabled: true },
-        { filename: 'storage-data.json', title: 'Azure Storage Specification', sectionNumber: '3.4', enabled: true },
-        { filename: 'alert-data.json', title: 'Performance Monitoring', sectionNumber: '3.5', enabled: true },
+        { filename: 'web-server-data.json', title: 'Web Server Specification', enabled: true },
+        { filename: 'database-data.json', title: 'SQL Azure Database Specification', enabled: true },
+        { filename: 'redis-data.json', title: 'Redis Cache Specification', enabled: true },
+        { filename: 'storage-data.json', title: 'Azure Storage Specification', enabled: true },
+        { filename: 'alert-data.json', title: 'Performance Monitoring', enabled: true },
         // 🆕 Add new sections here as needed
-        // { filename: 'sendgrid-data.json', title: 'SendGrid Email Delivery', sectionNumber: '3.6', enabled: true },
-        // { filename: 'cosmosdb-data.json', title: 'Cosmos DB Configuration', sectionNumber: '3.7', enabled: true },
+        // { filename: 'sendgrid-data.json', title: 'SendGrid Email Delivery', enabled: true },
+        // { filename: 'cosmosdb-data.json', title: 'Cosmos DB Configuration', enabled: true },
     ],
     
     // 🎨 Document customization options
@@ -57,65 +90,62 @@ export const CONFIG: ProjectConfig = {
         includeReferences: true,
         customGlossaryItems: [], // Additional glossary items
         customReferences: [], // Additional references
+        includeSourceReferences: false, // List each value's ARM property path as a footnote
+        updateTableOfContents: process.env.update_toc === 'true', // Pre-populate the TOC with LibreOffice (also: --update-toc)
+        chapters: [ // Narrative chapters in Markdown, placed before the technical specifications
+            { id: 'introduction', path: 'src/assets/chapters/introduction.md' },
+            { id: 'overview', path: 'src/assets/chapters/overview.md' },
+        ],
+    },
+    
+    // 🖋️ Document control (shown in the header, on the title page and in the approval block)
+    documentControl: {
+        documentNumber: process.env.document_number || undefined,
+        revision: process.env.document_revision || undefined,
+        effectiveDate: process.env.effective_date || undefined,
+        author: process.env.document_author || undefined,
+        reviewer: process.env.document_reviewer || undefined,
+        approver: process.env.document_approver || undefined,
     }
 };
 
 // 🚀 ENHANCED RESOURCE NAMES WITH CROSS-RESOURCE-GROUP SUPPORT
-export interface ResourceConfiguration {
-    // Primary resource group (fallback for resources that don't specify their own)
-    resourceGroupName: string;
-    
-    // Web App resources (might be in different resource groups)
-    webAppName: string;
-    webAppResourceGroup?: string;
-    legacyPlanName: string;
-    appServicePlanResourceGroup?: string;
-    
-    // SQL resources (might be in different resource groups)
-    sqlServerName: string;
-    sqlServerResourceGroup?: string;
-    sqlDatabaseName: string;
-    
-    // Redis resources (might be in different resource groups)
-    redisCacheName: string;
-    redisCacheResourceGroup?: string;
-    
-    // Storage resources (might be in different resource groups)
-    storageAccountName: string;
-    storageAccountResourceGroup?: string;
-}
+export type { ResourceConfiguration };
 
 export function getResourceNames(): ResourceConfiguration {
-    // Get all resource names and resource groups from environment variables
+    // Resource names come from the project config file, then environment variables, then the base name
+    const overrides = CONFIG.resources || {};
+    
     const resourceConfig: ResourceConfiguration = {
         // Primary resource group
-        resourceGroupName: process.env.resource_group_name || CONFIG.baseResourceName,
+        resourceGroupName: overrides.resourceGroupName || process.env.resource_group_name || CONFIG.baseResourceName,
         
         // Web App configuration
-        webAppName: process.env.web_app_name || `${CONFIG.baseResourceName}-legacy`,
-        webAppResourceGroup: process.env.web_app_resource_group,
-        legacyPlanName: process.env.app_service_plan_name || `${CONFIG.baseResourceName}-legacy`,
-        appServicePlanResourceGroup: process.env.app_service_plan_resource_group,
+        webAppName: overrides.webAppName || process.env.web_app_name || `${CONFIG.baseResourceName}-legacy`,
+        webAppResourceGroup: overrides.webAppResourceGroup || process.env.web_app_resource_group,
+        legacyPlanName: overrides.legacyPlanName || process.env.app_service_plan_name || `${CONFIG.baseResourceName}-legacy`,
+        appServicePlanResourceGroup: overrides.appServicePlanResourceGroup || process.env.app_service_plan_resource_group,
         
         // SQL configuration
-        sqlServerName: process.env.sql_server_name || CONFIG.baseResourceName,
-        sqlServerResourceGroup: process.env.sql_server_resource_group,
-        sqlDatabaseName: process.env.sql_database_name || `${CONFIG.baseResourceName}-legacy`,
+        sqlServerName: overrides.sqlServerName || process.env.sql_server_name || CONFIG.baseResourceName,
+        sqlServerResourceGroup: overrides.sqlServerResourceGroup || process.env.sql_server_resource_group,
+        sqlDatabaseName: overrides.sqlDatabaseName || process.env.sql_database_name || `${CONFIG.baseResourceName}-legacy`,
         
         // Redis configuration
-        redisCacheName: process.env.redis_cache_name || CONFIG.baseResourceName,
-        redisCacheResourceGroup: process.env.redis_cache_resource_group,
+        redisCacheName: overrides.redisCacheName || process.env.redis_cache_name || CONFIG.baseResourceName,
+        redisCacheResourceGroup: overrides.redisCacheResourceGroup || process.env.redis_cache_resource_group,
         
         // Storage configuration (remove hyphens for storage account naming requirements)
-        storageAccountName: process.env.storage_account_name || CONFIG.baseResourceName.replace(/-/g, '').toLowerCase(),
-        storageAccountResourceGroup: process.env.storage_account_resource_group,
+        storageAccountName: overrides.storageAccountName || process.env.storage_account_name || CONFIG.baseResourceName.replace(/-/g, '').toLowerCase(),
+        storageAccountResourceGroup: overrides.storageAccountResourceGroup || process.env.storage_account_resource_group,
     };
     
     return resourceConfig;
 }
 
 // Helper function to get the actual resource group for a specific resource
-export function getResourceGroup(resourceType: 'webapp' | 'plan' | 'sql' | 'redis' | 'storage'): string {
+// Unknown resource types fall back to a "<type>_resource_group" environment variable, then the primary group
+export function getResourceGroup(resourceType: string): string {
     const config = getResourceNames();
     
     switch (resourceType) {
@@ -130,7 +160,7 @@ export function getResourceGroup(resourceType: 'webapp' | 'plan' | 'sql' | 'redi
         case 'storage':
             return config.storageAccountResourceGroup || config.resourceGroupName;
         default:
-            return config.resourceGroupName;
+            return process.env[`${resourceType}_resource_group`] || config.resourceGroupName;
     }
 }
 
@@ -159,19 +189,39 @@ export function getdocumentType(): string {
     return CONFIG.documentType;
 }
 
+// 🖋️ Get document control metadata
+export function getDocumentControl(): DocumentControl {
+    return CONFIG.documentControl || {};
+}
+
+// 🧪 Get the IAT document filename, e.g. "unison-orbia-test-specification-report-iat.docx"
+export function getIatOutputFilename(): string {
+    return CONFIG.outputFilename.replace(/(\.docx)?$/i, '-iat.docx');
+}
+
+// 📄 Get the output formats - the .docx is always written because the other formats are exported from it
+export function getOutputFormats(): OutputFormat[] {
+    return Array.from(new Set<OutputFormat>(['docx', ...(CONFIG.outputFormats || [])]));
+}
+
 // 🎨 Get document customization options
 export function getDocumentCustomization() {
     return CONFIG.documentCustomization;
 }
 
+// 🌍 Get the name, description and purpose of the current environment
+// (project entries in CONFIG.environments override ENVIRONMENTS; unknown environments read like development)
+export function getEnvironmentConfig(environment: string = CONFIG.environment): EnvironmentConfig {
+    const configured = CONFIG.environments?.[environment] || ENVIRONMENTS[environment];
+    if (configured) return configured;
+
+    const name = environment.charAt(0).toUpperCase() + environment.slice(1);
+    return { name, description: `${name} Environment`, purpose: ENVIRONMENTS.development.purpose };
+}
+
 // 📝 Get document purpose description
 export function getDocumentPurpose(): string {
-    const envDescription = CONFIG.environment === 'test' ? 'testing and validation' : 
-                          CONFIG.environment === 'staging' ? 'staging and pre-production testing' :
-                          CONFIG.environment === 'production' ? 'production operations' :
-                          'development and testing';
-    
-    return `${envDescription} during product ${CONFIG.environment === 'production' ? 'deployment' : 'qualification'}`;
+    return getEnvironmentConfig().purpose;
 }
 
 // 🔍 Helper function to check if a section is enabled
@@ -212,15 +262,26 @@ export function displayCurrentConfig(): void {
     console.log('');
     
     console.log(`📄 Document: ${CONFIG.outputFilename}`);
+    console.log(`🌐 Language: ${CONFIG.locale || 'en'}`);
+    console.log(`📄 Output Formats: ${getOutputFormats().join(', ')}`);
     console.log(`🔧 Auto-Discovery Mode: ${CONFIG.useAutoDiscovery ? 'ON' : 'OFF'}`);
+    console.log(`✅ Strict Validation: ${CONFIG.strictValidation ? 'ON' : 'OFF'}`);
+    console.log(`📏 Compliance Baseline: ${CONFIG.complianceBaseline || 'none'}`);
+    console.log(`🗄️ Run Archive: ${CONFIG.archiveRuns ? path.join(CONFIG.archiveDir || 'archive', CONFIG.baseResourceName) : 'OFF'}`);
+    console.log(`🔀 Changes Since: ${CONFIG.changesSince ? `${CONFIG.changesSince} (${CONFIG.changeMarkup})` : 'none'}`);
+    console.log(`🔑 Database Sign-in: ${CONFIG.databaseAuthentication === 'entra' ? 'Entra ID token' : 'SQL login'}`);
+    const control = getDocumentControl();
+    console.log(`🖋️ Document Control: ${control.documentNumber || '-'} rev. ${control.revision || (CONFIG.archiveRuns ? 'from archive' : '-')}, effective ${control.effectiveDate || '-'}`);
+    console.log(`   Author: ${control.author || '-'}, Reviewer: ${control.reviewer || '-'}, Approver: ${control.approver || '-'}`);
     console.log(`📖 Include Glossary: ${CONFIG.documentCustomization.includeGlossary ? 'YES' : 'NO'}`);
     console.log(`📚 Include References: ${CONFIG.documentCustomization.includeReferences ? 'YES' : 'NO'}`);
+    console.log(`📑 Pre-populate TOC (LibreOffice): ${CONFIG.documentCustomization.updateTableOfContents ? 'YES' : 'NO'}`);
     
     if (!CONFIG.useAutoDiscovery) {
         const enabledSections = CONFIG.documentSections.filter(s => s.enabled);
         console.log(`📊 Enabled Sections: ${enabledSections.length}`);
         enabledSections.forEach(section => {
-            console.log(`   ${section.sectionNumber} - ${section.title}`);
+            console.log(`   - ${section.title} (${section.filename})`);
         });
     }
     
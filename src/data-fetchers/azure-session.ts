@@ -0,0 +1,87 @@
+// src/data-fetchers/azure-session.ts
+// Shared Azure credential, subscription and client options for all ARM data fetchers
+import * as path from 'path';
+import { DefaultAzureCredential } from '@azure/identity';
+import { TokenCredential, AccessToken } from '@azure/core-auth';
+import { HttpClient } from '@azure/core-rest-pipeline';
+import { RecordingHttpClient, ReplayHttpClient } from './recording/recorded-http-client';
+
+/**
+ * live   - talk to Azure (default)
+ * record - talk to Azure and save every response to the fixtures directory
+ * replay - answer every request from the fixtures directory, no network or login needed
+ */
+export type RecordingMode = 'live' | 'record' | 'replay';
+
+// Subscription used when replaying without azure_subscription_id set
+const REPLAY_SUBSCRIPTION_ID = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * Read a "--name value" command line option
+ */
+function getArgValue(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+/**
+ * Determine the recording mode from --record / --replay or the azure_recording_mode variable
+ */
+export function getRecordingMode(): RecordingMode {
+    if (process.argv.includes('--record')) return 'record';
+    if (process.argv.includes('--replay')) return 'replay';
+
+    const mode = (process.env.azure_recording_mode || 'live').toLowerCase();
+    if (mode !== 'live' && mode !== 'record' && mode !== 'replay') {
+        throw new Error(`Invalid azure_recording_mode "${mode}" (expected live, record or replay)`);
+    }
+    return mode;
+}
+
+/**
+ * Directory holding recorded responses (--fixtures <dir> or azure_fixtures_dir, default: fixtures/azure)
+ */
+export function getFixturesDir(): string {
+    return path.resolve(getArgValue('--fixtures') || process.env.azure_fixtures_dir || path.join('fixtures', 'azure'));
+}
+
+/**
+ * Get the subscription ID all fetchers query
+ */
+export function getSubscriptionId(): string {
+    const subscriptionId = process.env.azure_subscription_id;
+    if (subscriptionId) return subscriptionId;
+
+    if (getRecordingMode() === 'replay') return REPLAY_SUBSCRIPTION_ID;
+    throw new Error('azure_subscription_id environment variable is not set');
+}
+
+/**
+ * Credential that never signs in - recorded responses do not need a token
+ */
+class ReplayCredential implements TokenCredential {
+    async getToken(): Promise<AccessToken> {
+        return { token: 'replay', expiresOnTimestamp: Date.now() + 60 * 60 * 1000 };
+    }
+}
+
+/**
+ * Get the credential used by the ARM clients
+ */
+export function getAzureCredential(): TokenCredential {
+    return getRecordingMode() === 'replay' ? new ReplayCredential() : new DefaultAzureCredential();
+}
+
+/**
+ * Get the options passed to every ARM client constructor
+ */
+export function getArmClientOptions(): { httpClient?: HttpClient } {
+    switch (getRecordingMode()) {
+        case 'record':
+            return { httpClient: new RecordingHttpClient(getFixturesDir()) };
+        case 'replay':
+            return { httpClient: new ReplayHttpClient(getFixturesDir()) };
+        default:
+            return {};
+    }
+}
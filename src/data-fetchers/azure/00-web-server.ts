@@ -8,23 +8,27 @@ dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 import { WebSiteManagementClient } from "@azure/arm-appservice";
 import { MonitorClient, AutoscaleSettingResource } from "@azure/arm-monitor";
 import { SecurityCenter } from "@azure/arm-security";
-import { DefaultAzureCredential } from "@azure/identity";
 import { SpecificationData } from "../../types";
-import * as fs from 'fs';
+import { registerFetcher } from "../registry";
+import { getSubscriptionId, getAzureCredential, getArmClientOptions } from "../azure-session";
+import { saveSpecificationData, getSpecificationStore } from "../../persistence/specification-store";
+
+// Output file consumed by the document generator
+export const WEB_SERVER_OUTPUT_FILENAME = 'web-server-data.json';
 
 /**
- * Enhanced function to fetch and save web server details with cross-resource-group support
+ * Enhanced function to fetch web server details with cross-resource-group support
  * @param webAppResourceGroupName The resource group containing the Web App
  * @param webAppName The name of the Web App
  * @param planName The name of the App Service Plan
  * @param planResourceGroupName The resource group containing the App Service Plan (optional, defaults to webAppResourceGroupName)
  */
-export async function fetchAndSaveWebServerDetails(
+export async function fetchWebServerDetails(
     webAppResourceGroupName: string, 
     webAppName: string, 
     planName: string,
     planResourceGroupName?: string
-): Promise<void> {
+): Promise<SpecificationData> {
     try {
         // Use the same resource group for plan if not specified (backward compatibility)
         const actualPlanResourceGroupName = planResourceGroupName || webAppResourceGroupName;
@@ -33,16 +37,13 @@ export async function fetchAndSaveWebServerDetails(
         console.log(`   Web App Resource Group: ${webAppResourceGroupName}`);
         console.log(`   App Service Plan: ${planName} (Resource Group: ${actualPlanResourceGroupName})`);
 
-        // Initialize Azure clients
-        const subscriptionId = process.env.azure_subscription_id;
-        if (!subscriptionId) {
-            throw new Error('azure_subscription_id environment variable is not set');
-        }
-
-        const credential = new DefaultAzureCredential();
-        const webClient = new WebSiteManagementClient(credential, subscriptionId);
-        const monitorClient = new MonitorClient(credential, subscriptionId);
-        const securityClient = new SecurityCenter(credential, subscriptionId);
+        // Initialize Azure clients (live, recorded or replayed - see azure-session.ts)
+        const subscriptionId = getSubscriptionId();
+        const credential = getAzureCredential();
+        const clientOptions = getArmClientOptions();
+        const webClient = new WebSiteManagementClient(credential, subscriptionId, clientOptions);
+        const monitorClient = new MonitorClient(credential, subscriptionId, clientOptions);
+        const securityClient = new SecurityCenter(credential, subscriptionId, clientOptions);
 
         // --- PRIMARY DATA FETCHING WITH CROSS-RESOURCE-GROUP SUPPORT ---
         console.log(`📋 Getting App Service Plan from ${actualPlanResourceGroupName}...`);
@@ -199,10 +200,10 @@ export async function fetchAndSaveWebServerDetails(
 
         // --- DATA ASSEMBLY ---
         const data: SpecificationData = [
-            { section: 'General', title: 'Number of Azure Compute Units', value: plan.sku?.name || '-' },
+            { section: 'General', title: 'Number of Azure Compute Units', value: plan.sku?.name || '-', source: 'serverfarms: sku.name' },
             { section: 'General', title: 'Custom domain', value: hasSniSsl ? 'SNI SSL' : '-' },
             { section: 'General', title: 'Microsoft Defender for Cloud', value: defenderStatus },
-            { section: 'Services', title: 'Geographical Location', value: plan.location || '-' },
+            { section: 'Services', title: 'Geographical Location', value: plan.location || '-', source: 'serverfarms: location' },
             { section: 'Configuration', title: 'Scale out', value: scaleOutMethod },
             { section: 'Services', title: 'Data backup', value: `Daily, Retention ${backupConfig?.backupSchedule?.retentionPeriodInDays || '-'} Days` },
             { section: 'Services', title: 'Backup schedule', value: backupScheduleValue },
@@ -210,36 +211,56 @@ export async function fetchAndSaveWebServerDetails(
             { section: 'Services', title: 'Web server logging', value: webServerLoggingValue },
             { section: 'Monitoring', title: 'Diagnostic settings', value: diagnosticSettingsValue },
             { section: 'Monitoring', title: 'Destination details', value: destinationDetailsValue },
-            { section: 'General settings', title: 'Stack and version', value: `.NET, ASP.NET ${config.netFrameworkVersion || '-'}` },
-            { section: 'General settings', title: 'FTP state', value: config.ftpsState || '-' },
-            { section: 'Platform settings', title: 'HTTP version', value: config.http20Enabled ? '2.0' : '1.1' },
-            { section: 'Platform settings', title: 'Platform', value: config.use32BitWorkerProcess ? '32 bit' : '64 bit' },
-            { section: 'Platform settings', title: 'Web sockets', value: config.webSocketsEnabled ? 'On' : 'Off' },
-            { section: 'Platform settings', title: 'Always on', value: config.alwaysOn ? 'On' : 'Off' },
-            { section: 'Platform settings', title: 'HTTPS Only', value: webApp.httpsOnly ? 'On' : 'Off' },
-            { section: 'Platform settings', title: 'Minimum TLS Version', value: config.minTlsVersion || '-' },
-            { section: 'Incoming client certificates', title: 'Client certificate mode', value: webApp.clientCertEnabled ? (webApp.clientCertMode ?? 'Ignore') : 'Ignore' },
+            { section: 'General settings', title: 'Stack and version', value: `.NET, ASP.NET ${config.netFrameworkVersion || '-'}`, source: 'sites/config/web: properties.netFrameworkVersion' },
+            { section: 'General settings', title: 'FTP state', value: config.ftpsState || '-', source: 'sites/config/web: properties.ftpsState' },
+            { section: 'Platform settings', title: 'HTTP version', value: config.http20Enabled ? '2.0' : '1.1', source: 'sites/config/web: properties.http20Enabled' },
+            { section: 'Platform settings', title: 'Platform', value: config.use32BitWorkerProcess ? '32 bit' : '64 bit', source: 'sites/config/web: properties.use32BitWorkerProcess' },
+            { section: 'Platform settings', title: 'Web sockets', value: config.webSocketsEnabled ? 'On' : 'Off', source: 'sites/config/web: properties.webSocketsEnabled' },
+            { section: 'Platform settings', title: 'Always on', value: config.alwaysOn ? 'On' : 'Off', source: 'sites/config/web: properties.alwaysOn' },
+            { section: 'Platform settings', title: 'HTTPS Only', value: webApp.httpsOnly ? 'On' : 'Off', source: 'sites: properties.httpsOnly' },
+            { section: 'Platform settings', title: 'Minimum TLS Version', value: config.minTlsVersion || '-', source: 'sites/config/web: properties.minTlsVersion' },
+            { section: 'Incoming client certificates', title: 'Client certificate mode', value: webApp.clientCertEnabled ? (webApp.clientCertMode ?? 'Ignore') : 'Ignore', source: 'sites: properties.clientCertEnabled, properties.clientCertMode' },
         ];
 
-        // --- SAVE TO FILE ---
-        const outputDir = path.join(process.cwd(), 'output');
-        if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, { recursive: true });
-        }
-
-        const fileName = 'web-server-data.json';
-        const filePath = path.join(outputDir, fileName);
-        fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
-        
-        console.log(`✅ Web Server data saved to ${filePath}`);
         console.log(`🌐 Cross-resource-group configuration successfully handled!`);
 
+        return data;
+
     } catch (error) {
         console.error(`❌ Error fetching Web Server details for ${webAppName}:`, error);
         throw error;
     }
 }
 
+/**
+ * Fetch web server details and save them to web-server-data.json in the active specification store
+ */
+export async function fetchAndSaveWebServerDetails(
+    webAppResourceGroupName: string,
+    webAppName: string,
+    planName: string,
+    planResourceGroupName?: string
+): Promise<SpecificationData> {
+    const data = await fetchWebServerDetails(webAppResourceGroupName, webAppName, planName, planResourceGroupName);
+    saveSpecificationData(WEB_SERVER_OUTPUT_FILENAME, data);
+    console.log(`✅ Web Server data saved to ${path.join(getSpecificationStore().location, WEB_SERVER_OUTPUT_FILENAME)}`);
+    return data;
+}
+
+// 📦 Register with the fetcher registry so main() picks this fetcher up automatically
+registerFetcher({
+    id: 'web-server',
+    outputFilename: WEB_SERVER_OUTPUT_FILENAME,
+    defaultSectionTitle: 'Web Server Specification',
+    resourceType: 'webapp',
+    fetch: (ctx) => fetchWebServerDetails(
+        ctx.resourceGroup,
+        ctx.resources.webAppName,
+        ctx.resources.legacyPlanName,
+        ctx.getResourceGroup('plan')
+    )
+});
+
 // 🧪 MANUAL TESTING SECTION with cross-resource-group examples
 if (require.main === module) {
     console.log('🧪 Running Enhanced Web Server Fetcher in Test Mode');
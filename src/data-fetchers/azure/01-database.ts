@@ -8,37 +8,38 @@ dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 import { SqlManagementClient } from "@azure/arm-sql";
 import { MonitorClient } from "@azure/arm-monitor";
 import { SecurityCenter } from "@azure/arm-security";
-import { DefaultAzureCredential } from "@azure/identity";
 import { SpecificationData } from "../../types";
-import * as fs from 'fs';
+import { registerFetcher } from "../registry";
+import { getSubscriptionId, getAzureCredential, getArmClientOptions } from "../azure-session";
+import { saveSpecificationData, getSpecificationStore } from "../../persistence/specification-store";
+
+// Output file consumed by the document generator
+export const DATABASE_OUTPUT_FILENAME = 'database-data.json';
 
 /**
- * Enhanced function to fetch and save SQL database details with cross-resource-group support
+ * Enhanced function to fetch SQL database details with cross-resource-group support
  * @param sqlResourceGroupName The resource group containing the SQL Server and Database
  * @param serverName The name of the SQL Server
  * @param databaseName The name of the database
  */
-export async function fetchAndSaveSqlDatabaseDetails(
+export async function fetchSqlDatabaseDetails(
     sqlResourceGroupName: string, 
     serverName: string, 
     databaseName: string
-): Promise<void> {
+): Promise<SpecificationData> {
     try {
         console.log(`📡 Fetching SQL Database details for ${databaseName}...`);
         console.log(`   SQL Resource Group: ${sqlResourceGroupName}`);
         console.log(`   SQL Server: ${serverName}`);
         console.log(`   Database: ${databaseName}`);
 
-        // Initialize Azure clients
-        const subscriptionId = process.env.azure_subscription_id;
-        if (!subscriptionId) {
-            throw new Error('azure_subscription_id environment variable is not set');
-        }
-
-        const credential = new DefaultAzureCredential();
-        const sqlClient = new SqlManagementClient(credential, subscriptionId);
-        const monitorClient = new MonitorClient(credential, subscriptionId);
-        const securityClient = new SecurityCenter(credential, subscriptionId);
+        // Initialize Azure clients (live, recorded or replayed - see azure-session.ts)
+        const subscriptionId = getSubscriptionId();
+        const credential = getAzureCredential();
+        const clientOptions = getArmClientOptions();
+        const sqlClient = new SqlManagementClient(credential, subscriptionId, clientOptions);
+        const monitorClient = new MonitorClient(credential, subscriptionId, clientOptions);
+        const securityClient = new SecurityCenter(credential, subscriptionId, clientOptions);
 
         // --- PRIMARY DATA FETCHING WITH CROSS-RESOURCE-GROUP SUPPORT ---
         console.log(`📋 Getting database and server information from ${sqlResourceGroupName}...`);
@@ -134,9 +135,11 @@ export async function fetchAndSaveSqlDatabaseDetails(
 
         // Determine DTU/vCore value
         let computeValue = '-';
+        let computeUnit: string | undefined;
         if (db.currentSku) {
             if (db.currentSku.name?.includes('DTU')) {
-                computeValue = `${db.currentSku.capacity || '-'} DTUs`;
+                computeValue = `${db.currentSku.capacity || '-'}`;
+                computeUnit = db.currentSku.capacity ? 'DTUs' : undefined;
             } else {
                 computeValue = `${db.currentSku.capacity || '-'} vCores (${db.currentSku.name || 'Unknown'})`;
             }
@@ -176,7 +179,7 @@ export async function fetchAndSaveSqlDatabaseDetails(
         // --- SUMMARY LOGGING ---
         console.log(`📈 Database Configuration Summary:`);
         console.log(`   SQL Resource Group: ${sqlResourceGroupName}`);
-        console.log(`   Database SKU: ${db.currentSku?.name} (${computeValue})`);
+        console.log(`   Database SKU: ${db.currentSku?.name} (${computeValue}${computeUnit ? ` ${computeUnit}` : ''})`);
         console.log(`   TDE Status: ${tde.state}`);
         console.log(`   Auditing: ${auditingValue}`);
         console.log(`   Firewall Rules: ${firewallRules.length} rules`);
@@ -186,38 +189,62 @@ export async function fetchAndSaveSqlDatabaseDetails(
 
         // --- DATA ASSEMBLY WITH CROSS-RG INFORMATION ---
         const data: SpecificationData = [
-            { section: 'General', title: 'Number of DTUs', value: computeValue },
+            { section: 'General', title: 'Number of DTUs', value: computeValue, unit: computeUnit, source: 'databases: currentSku.capacity' },
             { section: 'Configuration', title: 'Geo-Replication', value: geoReplicationValue },
-            { section: 'Services', title: 'Transparent data encryption', value: tde.state === "Enabled" ? 'on' : 'off' },
+            { section: 'Services', title: 'Transparent data encryption', value: tde.state === "Enabled" ? 'on' : 'off', source: 'transparentDataEncryption/current: properties.state' },
             { section: 'Services', title: 'SQL Server – Auditing logs', value: auditingValue },
-            { section: 'Services', title: 'SQL Server - Firewall', value: firewallValue },
-            { section: 'Services', title: 'Data backup', value: `Daily, Retention ${retentionPolicy.retentionDays || '7'} Days` },
-            { section: 'Services', title: 'Backup schedule', value: backupScheduleValue },
+            { section: 'Services', title: 'SQL Server - Firewall', value: firewallValue, source: 'servers/firewallRules' },
+            {
+                section: 'Services',
+                title: 'Data backup',
+                value: `Daily, Retention ${retentionPolicy.retentionDays || '7'} Days`,
+                source: 'backupShortTermRetentionPolicies/default: properties.retentionDays',
+                note: retentionPolicy.retentionDays ? undefined : 'Retention period not reported by Azure; the 7-day service default is shown.'
+            },
+            { section: 'Services', title: 'Backup schedule', value: backupScheduleValue, note: 'Azure SQL Database backups are scheduled by the platform.' },
             { section: 'Security', title: 'Microsoft Defender for Cloud', value: defenderStatus },
             { section: 'Data Management', title: 'Replicas', value: replicaDetails },
             { section: 'Monitoring', title: 'Diagnostic settings', value: diagnosticSettingsValue },
             { section: 'Monitoring', title: 'Destination details', value: destinationDetailsValue },
         ];
 
-        // --- SAVE TO FILE ---
-        const outputDir = path.join(process.cwd(), 'output');
-        if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, { recursive: true });
-        }
-
-        const fileName = 'database-data.json';
-        const filePath = path.join(outputDir, fileName);
-        fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
-        
-        console.log(`✅ Database data saved to ${filePath}`);
         console.log(`🗄️ Cross-resource-group SQL configuration handled successfully!`);
 
+        return data;
+
     } catch (error) {
         console.error(`❌ Error fetching SQL Database details for ${databaseName}:`, error);
         throw error;
     }
 }
 
+/**
+ * Fetch SQL database details and save them to database-data.json in the active specification store
+ */
+export async function fetchAndSaveSqlDatabaseDetails(
+    sqlResourceGroupName: string,
+    serverName: string,
+    databaseName: string
+): Promise<SpecificationData> {
+    const data = await fetchSqlDatabaseDetails(sqlResourceGroupName, serverName, databaseName);
+    saveSpecificationData(DATABASE_OUTPUT_FILENAME, data);
+    console.log(`✅ Database data saved to ${path.join(getSpecificationStore().location, DATABASE_OUTPUT_FILENAME)}`);
+    return data;
+}
+
+// 📦 Register with the fetcher registry so main() picks this fetcher up automatically
+registerFetcher({
+    id: 'database',
+    outputFilename: DATABASE_OUTPUT_FILENAME,
+    defaultSectionTitle: 'SQL Azure Database Specification',
+    resourceType: 'sql',
+    fetch: (ctx) => fetchSqlDatabaseDetails(
+        ctx.resourceGroup,
+        ctx.resources.sqlServerName,
+        ctx.resources.sqlDatabaseName
+    )
+});
+
 // 🧪 MANUAL TESTING SECTION with cross-resource-group examples
 if (require.main === module) {
     console.log('🧪 Running Enhanced Database Fetcher in Test Mode');
@@ -8,14 +8,18 @@ dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 import { StorageManagementClient } from "@azure/arm-storage";
 import { MonitorClient } from "@azure/arm-monitor";
 import { SecurityCenter } from "@azure/arm-security";
-import { DefaultAzureCredential } from "@azure/identity";
 import { SpecificationData } from "../../types";
-import * as fs from 'fs';
+import { registerFetcher } from "../registry";
+import { getSubscriptionId, getAzureCredential, getArmClientOptions } from "../azure-session";
+import { saveSpecificationData, getSpecificationStore } from "../../persistence/specification-store";
+
+// Output file consumed by the document generator
+export const STORAGE_OUTPUT_FILENAME = 'storage-data.json';
 
 /**
  * Maps Azure Storage redundancy types to replica information.
  */
-function getReplicationDetails(sku?: string, secondaryLocation?: string): { replicas: string; locations: string } {
+export function getReplicationDetails(sku?: string, secondaryLocation?: string): { replicas: string; locations: string } {
     if (!sku) return { replicas: '-', locations: '-' };
 
     switch (sku) {
@@ -43,7 +47,7 @@ function getReplicationDetails(sku?: string, secondaryLocation?: string): { repl
 /**
  * Gets the SLA percentage based on storage account type and redundancy.
  */
-function getStorageSLA(sku?: string, accessTier?: string): string {
+export function getStorageSLA(sku?: string, accessTier?: string): string {
     if (!sku) return '-';
 
     // Hot access tier typically has higher SLA
@@ -70,7 +74,7 @@ function getStorageSLA(sku?: string, accessTier?: string): string {
 /**
  * Determines the encryption type from storage account properties.
  */
-function getEncryptionType(encryption?: any): string {
+export function getEncryptionType(encryption?: any): string {
     if (!encryption) return 'Microsoft-managed keys';
     
     if (encryption.keySource === 'Microsoft.Keyvault') {
@@ -81,28 +85,25 @@ function getEncryptionType(encryption?: any): string {
 }
 
 /**
- * Enhanced function to fetch and save Azure Storage Account details with cross-resource-group support
+ * Enhanced function to fetch Azure Storage Account details with cross-resource-group support
  * @param storageResourceGroupName The resource group containing the Storage Account
  * @param accountName The name of the Storage Account
  */
-export async function fetchAndSaveStorageDetails(
+export async function fetchStorageDetails(
     storageResourceGroupName: string, 
     accountName: string
-): Promise<void> {
+): Promise<SpecificationData> {
     try {
         console.log(`📡 Fetching Storage Account details for ${accountName}...`);
         console.log(`   Storage Resource Group: ${storageResourceGroupName}`);
 
-        // Initialize Azure clients
-        const subscriptionId = process.env.azure_subscription_id;
-        if (!subscriptionId) {
-            throw new Error('azure_subscription_id environment variable is not set');
-        }
-
-        const credential = new DefaultAzureCredential();
-        const storageClient = new StorageManagementClient(credential, subscriptionId);
-        const monitorClient = new MonitorClient(credential, subscriptionId);
-        const securityClient = new SecurityCenter(credential, subscriptionId);
+        // Initialize Azure clients (live, recorded or replayed - see azure-session.ts)
+        const subscriptionId = getSubscriptionId();
+        const credential = getAzureCredential();
+        const clientOptions = getArmClientOptions();
+        const storageClient = new StorageManagementClient(credential, subscriptionId, clientOptions);
+        const monitorClient = new MonitorClient(credential, subscriptionId, clientOptions);
+        const securityClient = new SecurityCenter(credential, subscriptionId, clientOptions);
 
         // --- PRIMARY DATA FETCHING WITH CROSS-RESOURCE-GROUP SUPPORT ---
         console.log(`📋 Getting storage account information from ${storageResourceGroupName}...`);
@@ -202,43 +203,59 @@ export async function fetchAndSaveStorageDetails(
 
         // --- DATA ASSEMBLY WITH CROSS-RG INFORMATION ---
         const data: SpecificationData = [
-            { section: 'General', title: 'Account Kind', value: account.kind || '-' },
-            { section: 'General', title: 'Performance', value: account.sku?.tier || '-' },
-            { section: 'General', title: 'Replication', value: account.sku?.name || '-' },
-            { section: 'General', title: 'Access Tier', value: account.accessTier || '-' },
+            { section: 'General', title: 'Account Kind', value: account.kind || '-', source: 'storageAccounts: kind' },
+            { section: 'General', title: 'Performance', value: account.sku?.tier || '-', source: 'storageAccounts: sku.tier' },
+            { section: 'General', title: 'Replication', value: account.sku?.name || '-', source: 'storageAccounts: sku.name' },
+            { section: 'General', title: 'Access Tier', value: account.accessTier || '-', source: 'storageAccounts: properties.accessTier' },
             { section: 'General', title: 'Local replica', value: replicationDetails.replicas },
             { section: 'General', title: 'SLA', value: slaValue },
             { section: 'General', title: 'Geographical Location', value: geographicalLocation },
             { section: 'Container', title: 'Change access level', value: containerAccessLevel },
             { section: 'Security', title: 'Encryption type', value: encryptionType },
-            { section: 'Security', title: 'Secure transfer required', value: account.enableHttpsTrafficOnly ? 'Enabled' : 'Disabled' },
-            { section: 'Security', title: 'Allow Blob public access', value: account.allowBlobPublicAccess ? 'Enabled' : 'Disabled' },
+            { section: 'Security', title: 'Secure transfer required', value: account.enableHttpsTrafficOnly ? 'Enabled' : 'Disabled', source: 'storageAccounts: properties.supportsHttpsTrafficOnly' },
+            { section: 'Security', title: 'Allow Blob public access', value: account.allowBlobPublicAccess ? 'Enabled' : 'Disabled', source: 'storageAccounts: properties.allowBlobPublicAccess' },
             { section: 'Security', title: 'Microsoft Defender for Cloud', value: defenderStatus },
-            { section: 'Configuration', title: 'Minimum TLS version', value: account.minimumTlsVersion || '-' },
-            { section: 'Configuration', title: 'Large file shares', value: account.largeFileSharesState || 'Disabled' },
+            { section: 'Configuration', title: 'Minimum TLS version', value: account.minimumTlsVersion || '-', source: 'storageAccounts: properties.minimumTlsVersion' },
+            { section: 'Configuration', title: 'Large file shares', value: account.largeFileSharesState || 'Disabled', source: 'storageAccounts: properties.largeFileSharesState' },
             { section: 'Monitoring', title: 'Diagnostic settings', value: diagnosticSettingsValue },
             { section: 'Monitoring', title: 'Destination details', value: destinationDetailsValue },
         ];
 
-        // --- SAVE TO FILE ---
-        const outputDir = path.join(process.cwd(), 'output');
-        if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, { recursive: true });
-        }
-
-        const fileName = 'storage-data.json';
-        const filePath = path.join(outputDir, fileName);
-        fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
-        
-        console.log(`✅ Storage Account data saved to ${filePath}`);
         console.log(`💾 Cross-resource-group Storage configuration handled successfully!`);
 
+        return data;
+
     } catch (error) {
         console.error(`❌ Error fetching Storage Account details for ${accountName}:`, error);
         throw error;
     }
 }
 
+/**
+ * Fetch Azure Storage Account details and save them to storage-data.json in the active specification store
+ */
+export async function fetchAndSaveStorageDetails(
+    storageResourceGroupName: string,
+    accountName: string
+): Promise<SpecificationData> {
+    const data = await fetchStorageDetails(storageResourceGroupName, accountName);
+    saveSpecificationData(STORAGE_OUTPUT_FILENAME, data);
+    console.log(`✅ Storage Account data saved to ${path.join(getSpecificationStore().location, STORAGE_OUTPUT_FILENAME)}`);
+    return data;
+}
+
+// 📦 Register with the fetcher registry so main() picks this fetcher up automatically
+registerFetcher({
+    id: 'storage',
+    outputFilename: STORAGE_OUTPUT_FILENAME,
+    defaultSectionTitle: 'Azure Storage Specification',
+    resourceType: 'storage',
+    fetch: (ctx) => fetchStorageDetails(
+        ctx.resourceGroup,
+        ctx.resources.storageAccountName
+    )
+});
+
 // 🧪 MANUAL TESTING SECTION with cross-resource-group examples
 if (require.main === module) {
     console.log('🧪 Running Enhanced Storage Account Fetcher in Test Mode');
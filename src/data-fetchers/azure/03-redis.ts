@@ -7,15 +7,19 @@ dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
 import { RedisManagementClient } from "@azure/arm-rediscache";
 import { MonitorClient } from "@azure/arm-monitor";
-import { DefaultAzureCredential } from "@azure/identity";
 import { SpecificationData } from "../../types";
-import * as fs from 'fs';
+import { registerFetcher, splitQuantity } from "../registry";
+import { getSubscriptionId, getAzureCredential, getArmClientOptions } from "../azure-session";
+import { saveSpecificationData, getSpecificationStore } from "../../persistence/specification-store";
+
+// Output file consumed by the document generator
+export const REDIS_OUTPUT_FILENAME = 'redis-data.json';
 
 /**
  * Maps a Redis SKU to its corresponding memory size and connection limit.
  * Based on Azure Redis Cache pricing tiers.
  */
-function getSkuDetails(skuName?: string, skuFamily?: string, skuCapacity?: number): { memory: string; connections: string } {
+export function getSkuDetails(skuName?: string, skuFamily?: string, skuCapacity?: number): { memory: string; connections: string } {
     if (!skuName || !skuFamily || skuCapacity === undefined) {
         return { memory: '-', connections: '-' };
     }
@@ -63,7 +67,7 @@ function getSkuDetails(skuName?: string, skuFamily?: string, skuCapacity?: numbe
 /**
  * Determines the SLA based on the Redis Cache tier.
  */
-function getSLA(skuName?: string): string {
+export function getSLA(skuName?: string): string {
     if (!skuName) return '-';
     
     switch (skuName.toLowerCase()) {
@@ -79,27 +83,24 @@ function getSLA(skuName?: string): string {
 }
 
 /**
- * Enhanced function to fetch and save Redis Cache details with cross-resource-group support
+ * Enhanced function to fetch Redis Cache details with cross-resource-group support
  * @param redisResourceGroupName The resource group containing the Redis Cache
  * @param cacheName The name of the Redis Cache
  */
-export async function fetchAndSaveRedisDetails(
+export async function fetchRedisDetails(
     redisResourceGroupName: string, 
     cacheName: string
-): Promise<void> {
+): Promise<SpecificationData> {
     try {
         console.log(`📡 Fetching Redis Cache details for ${cacheName}...`);
         console.log(`   Redis Resource Group: ${redisResourceGroupName}`);
 
-        // Initialize Azure clients
-        const subscriptionId = process.env.azure_subscription_id;
-        if (!subscriptionId) {
-            throw new Error('azure_subscription_id environment variable is not set');
-        }
-
-        const credential = new DefaultAzureCredential();
-        const redisClient = new RedisManagementClient(credential, subscriptionId);
-        const monitorClient = new MonitorClient(credential, subscriptionId);
+        // Initialize Azure clients (live, recorded or replayed - see azure-session.ts)
+        const subscriptionId = getSubscriptionId();
+        const credential = getAzureCredential();
+        const clientOptions = getArmClientOptions();
+        const redisClient = new RedisManagementClient(credential, subscriptionId, clientOptions);
+        const monitorClient = new MonitorClient(credential, subscriptionId, clientOptions);
 
         // --- PRIMARY DATA FETCHING WITH CROSS-RESOURCE-GROUP SUPPORT ---
         console.log(`📋 Getting Redis Cache information from ${redisResourceGroupName}...`);
@@ -116,6 +117,7 @@ export async function fetchAndSaveRedisDetails(
 
         // Format encryption details
         const tlsVersion = redisCache.minimumTlsVersion || '1.2';
+        const tlsVersionNote = redisCache.minimumTlsVersion ? undefined : 'Minimum TLS version not reported by Azure; the service default (1.2) is shown.';
         const sslPort = redisCache.sslPort || 6380;
         const encryptionValue = `SSL TLS${tlsVersion}, SSL port ${sslPort}, ${redisCache.enableNonSslPort ? 'Enable' : 'Disable'} Non-SSL port`;
 
@@ -165,42 +167,58 @@ export async function fetchAndSaveRedisDetails(
 
         // --- DATA ASSEMBLY WITH CROSS-RG INFORMATION ---
         const data: SpecificationData = [
-            { section: 'General', title: 'Memory', value: skuDetails.memory },
+            { section: 'General', title: 'Memory', ...splitQuantity(skuDetails.memory) },
             { section: 'General', title: 'SLA', value: slaValue },
             { section: 'General', title: 'Encryption in transit', value: encryptionValue },
             { section: 'General', title: 'Connections', value: skuDetails.connections },
             { section: 'General', title: 'Allow access only via SSL', value: sslOnlyValue },
-            { section: 'General', title: 'Location', value: redisCache.location || '-' },
-            { section: 'General', title: 'Pricing Tier', value: `${redisCache.sku?.name || '-'} (${redisCache.sku?.family || '-'}${redisCache.sku?.capacity || '-'})` },
-            { section: 'Advanced settings', title: 'Non-SSL Port', value: nonSslPortValue },
-            { section: 'Advanced settings', title: 'SSL Port', value: sslPortValue },
-            { section: 'Advanced settings', title: 'Minimum TLS version', value: tlsVersion },
-            { section: 'Advanced settings', title: 'Maxmemory policy', value: maxMemoryPolicy },
-            { section: 'Advanced settings', title: 'Redis Version', value: redisCache.redisVersion || '-' },
+            { section: 'General', title: 'Location', value: redisCache.location || '-', source: 'redis: location' },
+            { section: 'General', title: 'Pricing Tier', value: `${redisCache.sku?.name || '-'} (${redisCache.sku?.family || '-'}${redisCache.sku?.capacity || '-'})`, source: 'redis: properties.sku' },
+            { section: 'Advanced settings', title: 'Non-SSL Port', value: nonSslPortValue, source: 'redis: properties.enableNonSslPort' },
+            { section: 'Advanced settings', title: 'SSL Port', value: sslPortValue, source: 'redis: properties.sslPort' },
+            { section: 'Advanced settings', title: 'Minimum TLS version', value: tlsVersion, source: 'redis: properties.minimumTlsVersion', note: tlsVersionNote },
+            { section: 'Advanced settings', title: 'Maxmemory policy', value: maxMemoryPolicy, source: "redis: properties.redisConfiguration['maxmemory-policy']" },
+            { section: 'Advanced settings', title: 'Redis Version', value: redisCache.redisVersion || '-', source: 'redis: properties.redisVersion' },
             { section: 'Security', title: 'Access Keys', value: redisCache.accessKeys ? 'Configured' : '-' },
             { section: 'Monitoring', title: 'Diagnostic settings', value: diagnosticSettingsValue },
             { section: 'Monitoring', title: 'Destination details', value: destinationDetailsValue },
         ];
 
-        // --- SAVE TO FILE ---
-        const outputDir = path.join(process.cwd(), 'output');
-        if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, { recursive: true });
-        }
-
-        const fileName = 'redis-data.json';
-        const filePath = path.join(outputDir, fileName);
-        fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
-        
-        console.log(`✅ Redis Cache data saved to ${filePath}`);
         console.log(`⚡ Cross-resource-group Redis configuration handled successfully!`);
 
+        return data;
+
     } catch (error) {
         console.error(`❌ Error fetching Redis Cache details for ${cacheName}:`, error);
         throw error;
     }
 }
 
+/**
+ * Fetch Redis Cache details and save them to redis-data.json in the active specification store
+ */
+export async function fetchAndSaveRedisDetails(
+    redisResourceGroupName: string,
+    cacheName: string
+): Promise<SpecificationData> {
+    const data = await fetchRedisDetails(redisResourceGroupName, cacheName);
+    saveSpecificationData(REDIS_OUTPUT_FILENAME, data);
+    console.log(`✅ Redis Cache data saved to ${path.join(getSpecificationStore().location, REDIS_OUTPUT_FILENAME)}`);
+    return data;
+}
+
+// 📦 Register with the fetcher registry so main() picks this fetcher up automatically
+registerFetcher({
+    id: 'redis',
+    outputFilename: REDIS_OUTPUT_FILENAME,
+    defaultSectionTitle: 'Redis Cache Specification',
+    resourceType: 'redis',
+    fetch: (ctx) => fetchRedisDetails(
+        ctx.resourceGroup,
+        ctx.resources.redisCacheName
+    )
+});
+
 // 🧪 MANUAL TESTING SECTION with cross-resource-group examples
 if (require.main === module) {
     console.log('🧪 Running Enhanced Redis Cache Fetcher in Test Mode');
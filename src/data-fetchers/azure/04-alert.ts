@@ -7,9 +7,13 @@ import { MonitorClient, MetricAlertResource, ActivityLogAlertResource } from "@a
 import { WebSiteManagementClient } from "@azure/arm-appservice";
 import { SqlManagementClient } from "@azure/arm-sql";
 import { RedisManagementClient } from "@azure/arm-rediscache";
-import { DefaultAzureCredential } from "@azure/identity";
 import { SpecificationData } from "../../types";
-import * as fs from 'fs';
+import { registerFetcher } from "../registry";
+import { getSubscriptionId, getAzureCredential, getArmClientOptions } from "../azure-session";
+import { saveSpecificationData, getSpecificationStore } from "../../persistence/specification-store";
+
+// Output file consumed by the document generator
+export const ALERT_OUTPUT_FILENAME = 'alert-data.json';
 
 /**
  * Interface for cross-resource-group configuration
@@ -21,7 +25,7 @@ interface CrossResourceGroupConfig {
 }
 
 /**
- * Enhanced function to fetch and save alert details with cross-resource-group support
+ * Enhanced function to fetch alert details with cross-resource-group support
  * @param primaryResourceGroupName The primary resource group (used as fallback)
  * @param webAppName The name of the Web App
  * @param sqlServerName The name of the SQL Server
@@ -29,14 +33,14 @@ interface CrossResourceGroupConfig {
  * @param redisCacheName The name of the Redis Cache
  * @param crossRGConfig Cross-resource-group configuration (optional)
  */
-export async function fetchAndSaveAlertDetails(
+export async function fetchAlertDetails(
     primaryResourceGroupName: string,
     webAppName: string,
     sqlServerName: string,
     sqlDatabaseName: string,
     redisCacheName: string,
     crossRGConfig?: CrossResourceGroupConfig
-): Promise<void> {
+): Promise<SpecificationData> {
     try {
         console.log(`📡 Fetching Alert configurations with cross-resource-group support...`);
         console.log(`   Primary Resource Group: ${primaryResourceGroupName}`);
@@ -47,17 +51,14 @@ export async function fetchAndSaveAlertDetails(
             console.log(`   Redis RG: ${crossRGConfig.redisResourceGroup || primaryResourceGroupName}`);
         }
         
-        // Initialize Azure clients
-        const subscriptionId = process.env.azure_subscription_id;
-        if (!subscriptionId) {
-            throw new Error('azure_subscription_id environment variable is not set');
-        }
-
-        const credential = new DefaultAzureCredential();
-        const monitorClient = new MonitorClient(credential, subscriptionId);
-        const webClient = new WebSiteManagementClient(credential, subscriptionId);
-        const sqlClient = new SqlManagementClient(credential, subscriptionId);
-        const redisClient = new RedisManagementClient(credential, subscriptionId);
+        // Initialize Azure clients (live, recorded or replayed - see azure-session.ts)
+        const subscriptionId = getSubscriptionId();
+        const credential = getAzureCredential();
+        const clientOptions = getArmClientOptions();
+        const monitorClient = new MonitorClient(credential, subscriptionId, clientOptions);
+        const webClient = new WebSiteManagementClient(credential, subscriptionId, clientOptions);
+        const sqlClient = new SqlManagementClient(credential, subscriptionId, clientOptions);
+        const redisClient = new RedisManagementClient(credential, subscriptionId, clientOptions);
         
         // Determine actual resource groups
         const webAppResourceGroup = crossRGConfig?.webAppResourceGroup || primaryResourceGroupName;
@@ -177,7 +178,8 @@ export async function fetchAndSaveAlertDetails(
                 data.push({
                     section: sectionName,
                     title: title,
-                    value: status
+                    value: status,
+                    source: alert.id ? `metricAlerts: ${alert.id.split('/').pop()}` : undefined
                 });
             });
         };
@@ -257,19 +259,10 @@ export async function fetchAndSaveAlertDetails(
             console.log(`   ${rg}: ${count} alerts`);
         });
 
-        // --- SAVE TO FILE ---
-        const outputDir = path.join(process.cwd(), 'output');
-        if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, { recursive: true });
-        }
-
-        const fileName = 'alert-data.json';
-        const filePath = path.join(outputDir, fileName);
-        fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
-        
-        console.log(`✅ Alert data saved to ${filePath}`);
         console.log(`🌐 Cross-resource-group alert analysis completed successfully!`);
 
+        return data;
+
     } catch (error) {
         console.error('❌ Error fetching alert details:', error);
         throw error;
@@ -337,6 +330,43 @@ function getEnvironmentDisplayName(env: string): string {
     }
 }
 
+/**
+ * Fetch alert details and save them to alert-data.json in the active specification store
+ */
+export async function fetchAndSaveAlertDetails(
+    primaryResourceGroupName: string,
+    webAppName: string,
+    sqlServerName: string,
+    sqlDatabaseName: string,
+    redisCacheName: string,
+    crossRGConfig?: CrossResourceGroupConfig
+): Promise<SpecificationData> {
+    const data = await fetchAlertDetails(primaryResourceGroupName, webAppName, sqlServerName, sqlDatabaseName, redisCacheName, crossRGConfig);
+    saveSpecificationData(ALERT_OUTPUT_FILENAME, data);
+    console.log(`✅ Alert data saved to ${path.join(getSpecificationStore().location, ALERT_OUTPUT_FILENAME)}`);
+    return data;
+}
+
+// 📦 Register with the fetcher registry so main() picks this fetcher up automatically
+registerFetcher({
+    id: 'alert',
+    outputFilename: ALERT_OUTPUT_FILENAME,
+    defaultSectionTitle: 'Performance Monitoring',
+    resourceType: 'alert',
+    fetch: (ctx) => fetchAlertDetails(
+        ctx.resourceGroup,                 // Primary resource group unless alert_resource_group is set
+        ctx.resources.webAppName,
+        ctx.resources.sqlServerName,
+        ctx.resources.sqlDatabaseName,
+        ctx.resources.redisCacheName,
+        {
+            webAppResourceGroup: ctx.getResourceGroup('webapp'),
+            sqlResourceGroup: ctx.getResourceGroup('sql'),
+            redisResourceGroup: ctx.getResourceGroup('redis')
+        }
+    )
+});
+
 // 🧪 MANUAL TESTING SECTION with cross-resource-group examples
 if (require.main === module) {
     console.log('🧪 Running Enhanced Alert Fetcher in Test Mode');
@@ -5,10 +5,14 @@ import * as path from 'path';
 dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
 
 import { SqlManagementClient } from "@azure/arm-sql";
-import { DefaultAzureCredential } from "@azure/identity";
-import { getResourceNames } from '../../config';
+import { DefaultAzureCredential, TokenCredential } from "@azure/identity";
+import { CONFIG, getResourceNames } from '../../config';
+import { DatabaseAuthentication } from '../../types';
 import * as sql from 'mssql';
 
+// Scope of the Entra ID access token accepted by Azure SQL
+export const AZURE_SQL_TOKEN_SCOPE = 'https://database.windows.net/.default';
+
 /**
  * Database configuration interface
  */
@@ -16,8 +20,9 @@ export interface DatabaseConfig {
     server: string;
     port: number;
     database: string;
-    user: string;
-    password: string;
+    authentication: DatabaseAuthentication;
+    user?: string;              // SQL login only
+    password?: string;          // SQL login only
     options: {
         encrypt: boolean;
         trustServerCertificate: boolean;
@@ -29,19 +34,26 @@ export interface DatabaseConfig {
 
 /**
  * Database connection manager class
+ * Server, database and sign-in are read from CONFIG when it is created, so create one per run (and batch target)
  */
 export class DatabaseConnectionManager {
     private config: DatabaseConfig;
     private pool: sql.ConnectionPool | null = null;
     private currentIP: string | null = null;
+    private credential: TokenCredential | null;
 
-    constructor() {
-        // Validate required environment variables
-        const requiredEnvVars = {
+    /**
+     * @param credential Credential for Entra ID sign-in (default: DefaultAzureCredential, created on first connect)
+     */
+    constructor(credential?: TokenCredential) {
+        const authentication = CONFIG.databaseAuthentication || 'sql';
+        this.credential = credential || null;
+
+        // Validate required environment variables (an Entra ID token replaces the SQL login)
+        const requiredEnvVars: Record<string, string | undefined> = {
             server: getResourceNames().sqlServerName,
             database: getResourceNames().sqlDatabaseName,
-            user: process.env.db_user,
-            password: process.env.db_password
+            ...(authentication === 'sql' ? { user: process.env.db_user, password: process.env.db_password } : {})
         };
 
         // Check for missing environment variables
@@ -57,8 +69,9 @@ export class DatabaseConnectionManager {
             server: getResourceNames().sqlServerName,
             port: parseInt(process.env.db_port || '1433'),
             database: getResourceNames().sqlDatabaseName,
-            user: process.env.db_user!,
-            password: process.env.db_password!,
+            authentication,
+            user: authentication === 'sql' ? process.env.db_user : undefined,
+            password: authentication === 'sql' ? process.env.db_password : undefined,
             options: {
                 encrypt: true,
                 trustServerCertificate: false,
@@ -205,6 +218,33 @@ export class DatabaseConnectionManager {
         }
     }
 
+    /**
+     * Get the mssql connection settings. With Entra ID sign-in a fresh access token is requested
+     * for every connection (tokens expire after about an hour).
+     */
+    async getConnectionConfig(): Promise<sql.config> {
+        const { authentication, user, password, ...settings } = this.config;
+        if (authentication === 'sql') {
+            return { ...settings, user, password };
+        }
+
+        if (!this.credential) {
+            this.credential = new DefaultAzureCredential();
+        }
+        const accessToken = await this.credential.getToken(AZURE_SQL_TOKEN_SCOPE);
+        if (!accessToken) {
+            throw new Error(`Could not get an Entra ID access token for ${this.config.server} (scope ${AZURE_SQL_TOKEN_SCOPE})`);
+        }
+
+        return {
+            ...settings,
+            authentication: {
+                type: 'azure-active-directory-access-token',
+                options: { token: accessToken.token }
+            }
+        };
+    }
+
     /**
      * Connect to the database
      */
@@ -213,13 +253,13 @@ export class DatabaseConnectionManager {
             console.log('📡 Connecting to database...');
             console.log(`   Server: ${this.config.server}`);
             console.log(`   Database: ${this.config.database}`);
-            console.log(`   User: ${this.config.user}`);
+            console.log(`   User: ${this.getConnectionInfo().user}`);
             
             // Ensure firewall access before connecting
             await this.ensureFirewallAccess();
             
             // Create connection pool
-            this.pool = await sql.connect(this.config);
+            this.pool = await sql.connect(await this.getConnectionConfig());
             console.log('✅ Database connection established');
             
         } catch (error) {
@@ -322,15 +362,12 @@ export class DatabaseConnectionManager {
         return {
             server: this.config.server,
             database: this.config.database,
-            user: this.config.user,
+            user: this.config.authentication === 'entra' ? 'Entra ID token' : this.config.user!,
             currentIP: this.currentIP
         };
     }
 }
 
-// Export a singleton instance
-export const dbManager = new DatabaseConnectionManager();
-
 // 🧪 MANUAL TESTING SECTION
 if (require.main === module) {
     console.log('🧪 Testing Database Connection Manager');
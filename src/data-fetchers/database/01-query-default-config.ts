@@ -4,9 +4,9 @@ import * as dotenv from 'dotenv';
 import * as path from 'path';
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
-import { dbManager } from './00-connect-db';
+import { DatabaseConnectionManager } from './00-connect-db';
 import { SpecificationData } from '../../types';
-import * as fs from 'fs';
+import { saveSpecificationData, saveJson, getSpecificationStore } from '../../persistence/specification-store';
 
 /**
  * Configuration item interface (matches database schema)
@@ -15,6 +15,7 @@ export interface ConfigurationItem {
     ConfigKey: string;
     Description: string;
     DefaultValue: string;
+    CurrentValue?: string;      // Optional column with the value in use, compared against DefaultValue in the document
 }
 
 /**
@@ -24,12 +25,44 @@ export interface RawConfigurationItem {
     configkeyNo: string;
     desc: string;
     value: string;
+    current?: string;           // Value in use (only when the Configuration table has a CurrentValue column)
 }
 
+// Output files
+export const DEFAULT_CONFIG_OUTPUT_FILENAME = 'default-config-data.json';
+export const DEFAULT_CONFIG_RAW_OUTPUT_FILENAME = 'default-config-raw.json';
+
+// Characters separating a key's prefix from its name, e.g. "Security.PasswordLength" → "Security"
+const KEY_PREFIX_SEPARATOR = /[.:/]/;
+
 /**
- * Fetch and save default configuration data
+ * Group of a configuration key: the text before the first separator ('General' for keys without one)
  */
-export async function fetchAndSaveDefaultConfiguration(): Promise<void> {
+export function getConfigurationKeyGroup(key: string): string {
+    const match = KEY_PREFIX_SEPARATOR.exec(key);
+    return match && match.index > 0 ? key.substring(0, match.index) : 'General';
+}
+
+/**
+ * Convert a database row to the raw format (the current value is only kept when the column exists)
+ */
+function toRawConfigurationItem(item: ConfigurationItem): RawConfigurationItem {
+    const rawItem: RawConfigurationItem = {
+        configkeyNo: item.ConfigKey || '',
+        desc: item.Description || '',
+        value: item.DefaultValue || ''
+    };
+    if (item.CurrentValue !== undefined && item.CurrentValue !== null) {
+        rawItem.current = String(item.CurrentValue);
+    }
+    return rawItem;
+}
+
+/**
+ * Fetch default configuration items in raw format
+ */
+export async function fetchDefaultConfigurationItems(): Promise<RawConfigurationItem[]> {
+    const dbManager = new DatabaseConnectionManager();
     try {
         console.log('📡 Fetching Default Configuration from database...');
         
@@ -46,34 +79,7 @@ export async function fetchAndSaveDefaultConfiguration(): Promise<void> {
         console.log(`📊 Processing ${configItems.length} configuration items...`);
         
         // Transform to raw format (as you requested)
-        const rawData: RawConfigurationItem[] = configItems.map(item => ({
-            configkeyNo: item.ConfigKey || '',
-            desc: item.Description || '',
-            value: item.DefaultValue || ''
-        }));
-        
-        // Transform to specification data format (for document generation)
-        const specificationData: SpecificationData = configItems.map(item => ({
-            section: 'Default Configuration',
-            title: item.ConfigKey || 'Unknown Key',
-            value: `${item.Description || 'No description'}: ${item.DefaultValue || 'No value'}`
-        }));
-        
-        // --- SAVE TO FILES ---
-        const outputDir = path.join(process.cwd(), 'output');
-        if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, { recursive: true });
-        }
-        
-        // Save specification data (for document generation)
-        const specFileName = 'default-config-data.json';
-        const specFilePath = path.join(outputDir, specFileName);
-        fs.writeFileSync(specFilePath, JSON.stringify(specificationData, null, 2));
-        
-        // Save raw data (your requested format)
-        const rawFileName = 'default-config-raw.json';
-        const rawFilePath = path.join(outputDir, rawFileName);
-        fs.writeFileSync(rawFilePath, JSON.stringify(rawData, null, 2));
+        const rawData = configItems.map(toRawConfigurationItem);
         
         // --- SUMMARY LOGGING ---
         console.log(`📈 Default Configuration Summary:`);
@@ -81,9 +87,7 @@ export async function fetchAndSaveDefaultConfiguration(): Promise<void> {
         console.log(`   Database: ${dbManager.getConnectionInfo().server}/${dbManager.getConnectionInfo().database}`);
         console.log(`   Connection IP: ${dbManager.getConnectionInfo().currentIP}`);
         
-        console.log(`✅ Default Configuration data saved:`);
-        console.log(`   - ${specFileName} (for document generation)`);
-        console.log(`   - ${rawFileName} (raw format as requested)`);
+        return rawData;
         
     } catch (error) {
         console.error('❌ Error fetching default configuration:', error);
@@ -93,6 +97,45 @@ export async function fetchAndSaveDefaultConfiguration(): Promise<void> {
     }
 }
 
+/**
+ * Transform raw configuration items to specification data format, grouped by key prefix.
+ * The document renders the raw items (with their descriptions) instead; this file keeps the
+ * section discoverable and lets the other exports and the change comparison use the defaults.
+ */
+export function toDefaultConfigurationSpecification(rawData: RawConfigurationItem[]): SpecificationData {
+    return rawData.map(item => ({
+        section: getConfigurationKeyGroup(item.configkeyNo),
+        title: item.configkeyNo || 'Unknown Key',
+        value: item.value || '-'
+    }));
+}
+
+/**
+ * Fetch default configuration as specification data
+ */
+export async function fetchDefaultConfiguration(): Promise<SpecificationData> {
+    return toDefaultConfigurationSpecification(await fetchDefaultConfigurationItems());
+}
+
+/**
+ * Fetch and save default configuration data
+ */
+export async function fetchAndSaveDefaultConfiguration(): Promise<SpecificationData> {
+    const rawData = await fetchDefaultConfigurationItems();
+    const specificationData = toDefaultConfigurationSpecification(rawData);
+    
+    // --- SAVE TO FILES ---
+    // Specification data (section entry and exports) and raw data (rendered as the configuration table)
+    saveSpecificationData(DEFAULT_CONFIG_OUTPUT_FILENAME, specificationData);
+    saveJson(DEFAULT_CONFIG_RAW_OUTPUT_FILENAME, rawData);
+    
+    console.log(`✅ Default Configuration data saved to ${getSpecificationStore().location}:`);
+    console.log(`   - ${DEFAULT_CONFIG_OUTPUT_FILENAME} (for document generation)`);
+    console.log(`   - ${DEFAULT_CONFIG_RAW_OUTPUT_FILENAME} (key, description and default value for the configuration table)`);
+    
+    return specificationData;
+}
+
 /**
  * Query specific configuration by key pattern (utility function)
  */
@@ -100,6 +143,7 @@ export async function queryConfigurationByPattern(
     pattern: string,
     description: string
 ): Promise<RawConfigurationItem[]> {
+    const dbManager = new DatabaseConnectionManager();
     try {
         console.log(`🔍 Querying configuration by pattern: ${pattern}`);
         
@@ -112,11 +156,7 @@ export async function queryConfigurationByPattern(
             `Query configuration by pattern: ${description}`
         );
         
-        const rawData: RawConfigurationItem[] = configItems.map(item => ({
-            configkeyNo: item.ConfigKey || '',
-            desc: item.Description || '',
-            value: item.DefaultValue || ''
-        }));
+        const rawData = configItems.map(toRawConfigurationItem);
         
         console.log(`📊 Found ${rawData.length} configuration items matching pattern "${pattern}"`);
         
@@ -142,7 +182,7 @@ if (require.main === module) {
             console.log('\n🎉 Default configuration query completed successfully!');
             console.log('📁 Check the output/ directory for generated files:');
             console.log('   - default-config-data.json (for document generation)');
-            console.log('   - default-config-raw.json (raw format as requested)');
+            console.log('   - default-config-raw.json (configuration table)');
             
         } catch (error) {
             console.error('\n❌ Default configuration query failed:', error);
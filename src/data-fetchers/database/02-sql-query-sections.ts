@@ -0,0 +1,122 @@
+// src/data-fetchers/database/02-sql-query-sections.ts
+// Application-level sections (feature flags, tenant settings, ...) declared as named SQL queries in the config file
+import { SqlQuerySection, Specification, SpecificationData, SpecificationStatus, SPECIFICATION_STATUSES } from '../../types';
+import { CONFIG } from '../../config';
+import { DatabaseConnectionManager } from './00-connect-db';
+import { deriveSectionTitle } from '../registry';
+import { renderTemplate } from '../../doc-generators/utils/templates';
+import { SpecificationStore, getSpecificationStore, saveSpecificationData } from '../../persistence/specification-store';
+
+/**
+ * The part of DatabaseConnectionManager used to run the queries
+ */
+export type SqlQueryRunner = Pick<DatabaseConnectionManager, 'connect' | 'disconnect' | 'executeParameterizedQuery'>;
+
+type QueryRow = Record<string, unknown>;
+
+const OPTIONAL_FIELDS = ['expected', 'source', 'note', 'unit'] as const;
+
+/**
+ * Text of a result column (NULL becomes an empty string, dates ISO 8601)
+ */
+function formatColumn(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    return String(value).trim();
+}
+
+/**
+ * Resolve a mapping entry for one row: a column name (case-insensitive) or a template with {{Column}} placeholders
+ */
+function resolveMapping(row: QueryRow, mapping: string, query: SqlQuerySection): string {
+    const columns = Object.fromEntries(Object.entries(row).map(([column, value]) => [column, formatColumn(value)]));
+
+    if (mapping.includes('{{')) {
+        return renderTemplate(mapping, columns, name => console.warn(`⚠️  Unknown column {{${name}}} in SQL query "${query.name}"`)).trim();
+    }
+
+    const column = Object.keys(row).find(key => key === mapping) || Object.keys(row).find(key => key.toLowerCase() === mapping.toLowerCase());
+    if (column === undefined) {
+        throw new Error(`Column "${mapping}" not returned by SQL query "${query.name}" (columns: ${Object.keys(row).join(', ')})`);
+    }
+    return columns[column];
+}
+
+/**
+ * Section title of a query's data file
+ */
+export function getSqlQueryTitle(query: SqlQuerySection): string {
+    return query.title || deriveSectionTitle(query.outputFilename);
+}
+
+/**
+ * Convert the result rows of a query to specification entries using its column mapping.
+ * Rows without a title are left out; an empty value is shown as "-".
+ */
+export function mapQueryRows(rows: QueryRow[], query: SqlQuerySection): SpecificationData {
+    if (!query.section && !query.mapping.section) {
+        throw new Error(`SQL query "${query.name}" needs a section or a mapping.section column`);
+    }
+
+    return rows.flatMap(row => {
+        const title = resolveMapping(row, query.mapping.title, query);
+        if (!title) {
+            console.warn(`⚠️  Skipped a row without ${query.mapping.title} in SQL query "${query.name}"`);
+            return [];
+        }
+
+        const item: Specification = {
+            section: query.section || resolveMapping(row, query.mapping.section!, query) || '-',
+            title,
+            value: resolveMapping(row, query.mapping.value, query) || '-'
+        };
+
+        OPTIONAL_FIELDS.forEach(field => {
+            const mapping = query.mapping[field];
+            const value = mapping ? resolveMapping(row, mapping, query) : '';
+            if (value) item[field] = value;
+        });
+
+        const status = query.mapping.status ? resolveMapping(row, query.mapping.status, query).toLowerCase() : '';
+        if (SPECIFICATION_STATUSES.includes(status as SpecificationStatus)) {
+            item.status = status as SpecificationStatus;
+        }
+
+        return [item];
+    });
+}
+
+/**
+ * Run the configured SQL queries over one connection and save each result as a specification data file
+ * @param runner Database connection (default: a new DatabaseConnectionManager for the current CONFIG, only created when there are queries)
+ * @returns Specification data per output file
+ */
+export async function runSqlQuerySections(
+    queries: SqlQuerySection[] = CONFIG.sqlQueries || [],
+    runner?: SqlQueryRunner,
+    store: SpecificationStore = getSpecificationStore()
+): Promise<Record<string, SpecificationData>> {
+    const invalid = queries.find(query => !query.outputFilename.endsWith('-data.json'));
+    if (invalid) {
+        throw new Error(`SQL query "${invalid.name}": outputFilename must end with -data.json (got ${invalid.outputFilename})`);
+    }
+
+    const results: Record<string, SpecificationData> = {};
+    if (queries.length === 0) return results;
+
+    const database = runner || new DatabaseConnectionManager();
+    await database.connect();
+    try {
+        for (const query of queries) {
+            const rows = await database.executeParameterizedQuery<QueryRow>(query.query, query.parameters || {}, query.name);
+            const data = mapQueryRows(rows, query);
+            saveSpecificationData(query.outputFilename, data, store);
+            console.log(`💾 Saved ${query.outputFilename} (${data.length} entries from SQL query "${query.name}")`);
+            results[query.outputFilename] = data;
+        }
+    } finally {
+        await database.disconnect();
+    }
+    return results;
+}
+
@@ -0,0 +1,121 @@
+// src/data-fetchers/recording/recorded-http-client.ts
+// Record/replay HTTP clients for the Azure Resource Manager SDK clients
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    HttpClient,
+    PipelineRequest,
+    PipelineResponse,
+    createDefaultHttpClient,
+    createHttpHeaders
+} from '@azure/core-rest-pipeline';
+
+/**
+ * Structure of a single recorded request/response pair on disk
+ */
+export interface RecordedExchange {
+    request: {
+        method: string;
+        url: string; // Normalized URL (subscription ID replaced by a placeholder)
+    };
+    response: {
+        status: number;
+        headers: Record<string, string>;
+        body?: string;
+    };
+}
+
+// Only these response headers are recorded - everything else may contain tokens or request IDs
+const RECORDED_HEADERS = ['content-type'];
+
+/**
+ * Normalize a request URL so recordings can be replayed against any subscription
+ */
+export function normalizeRecordedUrl(url: string): string {
+    return url.replace(/\/subscriptions\/[^/?]+/i, '/subscriptions/{subscriptionId}');
+}
+
+/**
+ * Build the fixture filename for a request, e.g. "GET-redis-3f2a9c1b7e4d.json"
+ */
+export function getFixtureFilename(method: string, url: string): string {
+    const normalizedUrl = normalizeRecordedUrl(url);
+    const hash = crypto.createHash('sha1').update(`${method} ${normalizedUrl}`).digest('hex').substring(0, 12);
+    const lastSegment = new URL(normalizedUrl).pathname.split('/').filter(Boolean).pop() || 'root';
+    const readableName = lastSegment.replace(/[^a-zA-Z0-9-]/g, '').substring(0, 40);
+
+    return `${method.toUpperCase()}-${readableName}-${hash}.json`;
+}
+
+/**
+ * Sends requests to Azure and saves every response to the fixtures directory
+ */
+export class RecordingHttpClient implements HttpClient {
+    private readonly inner: HttpClient;
+
+    constructor(private readonly fixturesDir: string, inner?: HttpClient) {
+        this.inner = inner || createDefaultHttpClient();
+    }
+
+    async sendRequest(request: PipelineRequest): Promise<PipelineResponse> {
+        const response = await this.inner.sendRequest(request);
+
+        const headers: Record<string, string> = {};
+        RECORDED_HEADERS.forEach(name => {
+            const value = response.headers.get(name);
+            if (value !== undefined) headers[name] = value;
+        });
+
+        const exchange: RecordedExchange = {
+            request: { method: request.method, url: normalizeRecordedUrl(request.url) },
+            response: { status: response.status, headers, body: response.bodyAsText ?? undefined }
+        };
+
+        if (!fs.existsSync(this.fixturesDir)) {
+            fs.mkdirSync(this.fixturesDir, { recursive: true });
+        }
+        const filePath = path.join(this.fixturesDir, getFixtureFilename(request.method, request.url));
+        fs.writeFileSync(filePath, JSON.stringify(exchange, null, 2));
+        console.log(`   📼 Recorded ${request.method} ${exchange.request.url} → ${response.status}`);
+
+        return response;
+    }
+}
+
+/**
+ * Answers requests from the fixtures directory without any network access
+ */
+export class ReplayHttpClient implements HttpClient {
+    constructor(private readonly fixturesDir: string) {}
+
+    async sendRequest(request: PipelineRequest): Promise<PipelineResponse> {
+        const filePath = path.join(this.fixturesDir, getFixtureFilename(request.method, request.url));
+
+        if (!fs.existsSync(filePath)) {
+            console.warn(`   ⚠️  No recording for ${request.method} ${normalizeRecordedUrl(request.url)}`);
+
+            // Answer like ARM does for a missing resource so optional lookups degrade gracefully
+            return {
+                request,
+                status: 404,
+                headers: createHttpHeaders({ 'content-type': 'application/json' }),
+                bodyAsText: JSON.stringify({
+                    error: {
+                        code: 'RecordingNotFound',
+                        message: `No recorded response in ${this.fixturesDir} for ${request.method} ${normalizeRecordedUrl(request.url)}`
+                    }
+                })
+            };
+        }
+
+        const exchange: RecordedExchange = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+        return {
+            request,
+            status: exchange.response.status,
+            headers: createHttpHeaders(exchange.response.headers),
+            bodyAsText: exchange.response.body
+        };
+    }
+}
@@ -0,0 +1,114 @@
+// src/data-fetchers/registry.ts
+// Registry of data fetchers - each fetcher module registers itself on import
+import * as fs from 'fs';
+import * as path from 'path';
+import { Specification, SpecificationData } from '../types';
+import { ResourceConfiguration, getResourceNames, getResourceGroup } from '../config';
+
+/**
+ * Everything a fetcher needs to locate its resources
+ */
+export interface FetcherContext {
+    resources: ResourceConfiguration;
+    resourceGroup: string;                              // Resource group of the fetcher's own resourceType
+    getResourceGroup: (resourceType: string) => string; // For related resources in other groups, e.g. the App Service Plan
+}
+
+/**
+ * A self-describing data fetcher
+ */
+export interface DataFetcher {
+    id: string;                     // e.g. 'web-server'
+    outputFilename: string;         // e.g. 'web-server-data.json'
+    defaultSectionTitle: string;    // Used when the section is not listed in CONFIG.documentSections
+    resourceType: string;           // Resource group key, e.g. 'webapp' (provided as ctx.resourceGroup)
+    fetch: (ctx: FetcherContext) => Promise<SpecificationData>;
+}
+
+// Directories (relative to this file) scanned for self-registering fetcher modules
+const FETCHER_DIRECTORIES = ['azure'];
+
+// Fetcher modules follow the "NN-name.ts" naming convention
+const FETCHER_MODULE_PATTERN = /^\d{2}-.+\.(ts|js)$/;
+
+const fetchers = new Map<string, DataFetcher>();
+let modulesLoaded = false;
+
+/**
+ * Register a data fetcher (called at the bottom of each fetcher module)
+ */
+export function registerFetcher(fetcher: DataFetcher): void {
+    const existing = fetchers.get(fetcher.id);
+    if (existing && existing !== fetcher) {
+        throw new Error(`Data fetcher "${fetcher.id}" is already registered`);
+    }
+    fetchers.set(fetcher.id, fetcher);
+}
+
+/**
+ * Import every fetcher module so that it can register itself.
+ * Modules are loaded in filename order, which also defines the section order.
+ */
+function loadFetcherModules(): void {
+    if (modulesLoaded) return;
+    modulesLoaded = true;
+
+    for (const directory of FETCHER_DIRECTORIES) {
+        const fullPath = path.join(__dirname, directory);
+        if (!fs.existsSync(fullPath)) continue;
+
+        fs.readdirSync(fullPath)
+            .filter(file => FETCHER_MODULE_PATTERN.test(file) && !file.endsWith('.d.ts'))
+            .sort()
+            .forEach(file => require(path.join(fullPath, file)));
+    }
+}
+
+/**
+ * Get all registered data fetchers in section order
+ */
+export function getRegisteredFetchers(): DataFetcher[] {
+    loadFetcherModules();
+    return Array.from(fetchers.values());
+}
+
+/**
+ * Build the context for one fetcher, resolving the resource group of its resourceType
+ */
+export function createFetcherContext(
+    fetcher: DataFetcher,
+    resources: ResourceConfiguration = getResourceNames(),
+    resolveResourceGroup: (resourceType: string) => string = getResourceGroup
+): FetcherContext {
+    return {
+        resources,
+        resourceGroup: resolveResourceGroup(fetcher.resourceType),
+        getResourceGroup: resolveResourceGroup
+    };
+}
+
+/**
+ * Find the fetcher that produces a given output file
+ */
+export function findFetcherByFilename(filename: string): DataFetcher | undefined {
+    return getRegisteredFetchers().find(fetcher => fetcher.outputFilename === filename);
+}
+
+/**
+ * Split a quantity such as "2.5 GB" into value "2.5" and unit "GB" (other text is kept as the value)
+ */
+export function splitQuantity(text: string): Pick<Specification, 'value' | 'unit'> {
+    const match = /^(\d+(?:[.,]\d+)*)\s+([A-Za-z%]+)$/.exec(text.trim());
+    return match ? { value: match[1], unit: match[2] } : { value: text };
+}
+
+/**
+ * Section title for a data file without a configured title, e.g. "Feature Flags Specification" for feature-flags-data.json
+ */
+export function deriveSectionTitle(filename: string): string {
+    return filename
+        .replace('-data.json', '')
+        .split('-')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ') + ' Specification';
+}
@@ -0,0 +1,198 @@
+// src/diff/specification-diff.ts
+// Compare two snapshots of specification data (e.g. the approved run and the current output/)
+import * as fs from 'fs';
+import * as path from 'path';
+import { Specification, SpecificationData } from '../types';
+import { CONFIG } from '../config';
+import { FileSpecificationStore, SpecificationStore, loadJson } from '../persistence/specification-store';
+import { validateSpecificationJson, formatSpecificationIssue } from '../validation/specification-validator';
+
+export type SpecificationChangeType = 'added' | 'removed' | 'changed';
+
+/**
+ * A row that differs between two snapshots (rows are matched by section + title)
+ */
+export interface SpecificationChange {
+    filename: string;
+    section: string;
+    title: string;
+    type: SpecificationChangeType;
+    occurrence?: number;      // Index among the rows with the same section + title (repeated titles), default 0
+    before?: Specification;   // Row in the older snapshot (not set for 'added')
+    after?: Specification;    // Row in the newer snapshot (not set for 'removed')
+}
+
+/**
+ * Specification data files of one snapshot, by filename
+ */
+export type SpecificationSnapshot = Record<string, SpecificationData>;
+
+// --- SNAPSHOT LOADING ---
+
+/**
+ * Load every *-data.json file in a directory (or store). Invalid entries are left out with a warning.
+ */
+export function loadSpecificationSnapshot(source: string | SpecificationStore): SpecificationSnapshot {
+    if (typeof source === 'string') {
+        const fullPath = path.resolve(source);
+        if (!fs.existsSync(fullPath) || !fs.statSync(fullPath).isDirectory()) {
+            throw new Error(`Snapshot directory not found: ${fullPath}`);
+        }
+    }
+
+    const store = typeof source === 'string' ? new FileSpecificationStore(path.resolve(source)) : source;
+    const snapshot: SpecificationSnapshot = {};
+
+    store.list()
+        .filter(file => file.endsWith('-data.json'))
+        .forEach(filename => {
+            const result = validateSpecificationJson(filename, store.load(filename)!);
+            if (result.issues.length > 0) {
+                console.warn(`   ⚠️  ${path.join(store.location, filename)}: ${result.issues.map(formatSpecificationIssue).join('; ')}`);
+            }
+            if (result.data) {
+                snapshot[filename] = result.data;
+            }
+        });
+
+    return snapshot;
+}
+
+/**
+ * Label used for a snapshot in the document: the revision of an archived run,
+ * otherwise the directory name ("output/approved" → "approved")
+ */
+export function getSnapshotLabel(directory: string): string {
+    const fullPath = path.resolve(directory);
+    const manifest = fs.existsSync(fullPath) ? loadJson<{ revision?: number }>('manifest.json', new FileSpecificationStore(fullPath)) : undefined;
+    return manifest?.revision !== undefined ? String(manifest.revision) : path.basename(fullPath);
+}
+
+/**
+ * Summarize a list of changes, e.g. "2 changed, 1 added, 0 removed"
+ */
+export function summarizeSpecificationChanges(changes: SpecificationChange[]): string {
+    const count = (type: SpecificationChangeType) => changes.filter(change => change.type === type).length;
+    return `${count('changed')} changed, ${count('added')} added, ${count('removed')} removed`;
+}
+
+/**
+ * Label of the CONFIG.changesSince snapshot ("N/A" when no snapshot is configured)
+ */
+export function getChangesSinceRevision(): string {
+    return CONFIG.changesSince ? getSnapshotLabel(CONFIG.changesSince) : 'N/A';
+}
+
+// --- COMPARISON ---
+
+/**
+ * Key rows by section + title; repeated titles within a section are matched by their order
+ */
+function keyRows(data: SpecificationData): Map<string, { item: Specification; occurrence: number }> {
+    const rows = new Map<string, { item: Specification; occurrence: number }>();
+    const occurrences = new Map<string, number>();
+
+    data.forEach(item => {
+        const key = `${item.section}\u0000${item.title}`;
+        const occurrence = occurrences.get(key) || 0;
+        occurrences.set(key, occurrence + 1);
+        rows.set(`${key}\u0000${occurrence}`, { item, occurrence });
+    });
+
+    return rows;
+}
+
+/**
+ * Reported value with its unit, e.g. "2.5 GB" for value "2.5" and unit "GB" (so "2.5 GB" without a unit is equal)
+ */
+function getReportedValue(item: Specification): string {
+    return item.unit ? `${item.value} ${item.unit}` : item.value;
+}
+
+/**
+ * Compare the rows of one data file. Only the reported value (and its unit) counts as a change;
+ * expected values, statuses and notes follow from the baseline, not from the infrastructure.
+ */
+export function diffSpecificationData(filename: string, before: SpecificationData, after: SpecificationData): SpecificationChange[] {
+    const beforeRows = keyRows(before);
+    const afterRows = keyRows(after);
+    const changes: SpecificationChange[] = [];
+
+    afterRows.forEach(({ item, occurrence }, key) => {
+        const previous = beforeRows.get(key)?.item;
+        if (!previous) {
+            changes.push({ filename, section: item.section, title: item.title, type: 'added', occurrence, after: item });
+        } else if (getReportedValue(previous) !== getReportedValue(item)) {
+            changes.push({ filename, section: item.section, title: item.title, type: 'changed', occurrence, before: previous, after: item });
+        }
+    });
+
+    beforeRows.forEach(({ item, occurrence }, key) => {
+        if (!afterRows.has(key)) {
+            changes.push({ filename, section: item.section, title: item.title, type: 'removed', occurrence, before: item });
+        }
+    });
+
+    return changes;
+}
+
+/**
+ * Compare all data files of two snapshots (a file missing on one side counts as all rows added/removed)
+ */
+export function diffSnapshots(before: SpecificationSnapshot, after: SpecificationSnapshot): SpecificationChange[] {
+    const filenames = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return filenames.flatMap(filename => diffSpecificationData(filename, before[filename] || [], after[filename] || []));
+}
+
+/**
+ * Add the removed rows back into the data so a redlined table can show them struck through
+ */
+export function withRemovedSpecifications(data: SpecificationData, changes: SpecificationChange[]): SpecificationData {
+    return [...data, ...changes.filter(change => change.type === 'removed').map(change => change.before!)];
+}
+
+/**
+ * Find the change for a rendered row, if any
+ * @param data Rows of the table (as returned by withRemovedSpecifications), used to tell repeated titles apart
+ */
+export function findSpecificationChange(changes: SpecificationChange[], item: Specification, data: SpecificationData = [item]): SpecificationChange | undefined {
+    // Removed rows are the snapshot objects added by withRemovedSpecifications
+    const removedRows = new Set(changes.filter(change => change.type === 'removed').map(change => change.before));
+    if (removedRows.has(item)) {
+        return changes.find(change => change.type === 'removed' && change.before === item);
+    }
+
+    // Same occurrence key as diffSpecificationData: the row's position among the current rows with its section + title
+    const occurrence = data
+        .slice(0, Math.max(data.indexOf(item), 0))
+        .filter(row => !removedRows.has(row) && row.section === item.section && row.title === item.title)
+        .length;
+    return changes.find(change => change.type !== 'removed'
+        && change.section === item.section
+        && change.title === item.title
+        && (change.occurrence || 0) === occurrence);
+}
+
+/**
+ * Format a change for console output, e.g. `~ redis-data.json: General / Memory: "1 GB" → "2.5 GB"`
+ */
+export function formatSpecificationChange(change: SpecificationChange): string {
+    const describe = (item?: Specification) => item ? `"${item.value}${item.unit ? ` ${item.unit}` : ''}"` : '';
+    const location = `${change.filename}: ${change.section} / ${change.title}`;
+
+    switch (change.type) {
+        case 'added':
+            return `+ ${location}: ${describe(change.after)}`;
+        case 'removed':
+            return `- ${location}: ${describe(change.before)}`;
+        default:
+            return `~ ${location}: ${describe(change.before)} → ${describe(change.after)}`;
+    }
+}
+
+/**
+ * Whether the loaded sections were compared with an earlier snapshot (even if nothing changed)
+ */
+export function hasChangeComparison(sections: { changes?: SpecificationChange[] }[]): boolean {
+    return sections.some(section => section.changes !== undefined);
+}
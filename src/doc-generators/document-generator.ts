@@ -10,46 +10,89 @@
  * - Fixed type compatibility for Paragraph and Table elements
  */
 
-import { Document, Packer, SectionType, Paragraph, Table } from 'docx';
+import { Document, Packer, SectionType } from 'docx';
 import * as fs from 'fs';
 import * as path from 'path';
 
 // Import all section generators
 import { generateTitlePage } from './sections/00-title-page';
 import { generateTableOfContents } from './sections/01-table-of-contents';
-import { generateIntroduction } from './sections/02-introduction';
-import { generateOverview } from './sections/03-overview';
 import { generateTechnicalSpecifications } from './sections/04-technical-specifications';
 import { generateGlossary } from './sections/05-glossary';
 import { generateReferences } from './sections/06-references';
+import { generateDocumentApproval } from './sections/12-document-approval';
+import { registerMarkdownChapters } from './sections/13-markdown-chapters';
 
 // Import utilities
-import { loadDataFiles } from './utils/data-loader';
+import { loadDataFiles, LoadedData } from './utils/data-loader';
 import { generateDocumentHeader } from './utils/header';
-import { CONFIG } from '../config';
+import { FootnoteCollector } from './utils/footnotes';
+import { DocumentOutline } from './utils/document-outline';
+import { updateTableOfContents, convertToPdf } from './utils/office-converter';
+import { renderHtmlReport } from './html-report';
+import { renderMarkdownReport } from './markdown-report';
+import { writeSpecificationWorkbook } from './excel-workbook';
+import { getTemplate } from './utils/templates';
+import { translateLabel } from '../i18n/catalogs';
+import { CONFIG, getDocumentControl, getDocumentCustomization, getOutputFormats } from '../config';
+import { getConfiguredBaseline, applyComplianceBaseline, hasComplianceResults } from '../compliance/compliance-engine';
+import { loadSpecificationSnapshot, diffSpecificationData, hasChangeComparison, getChangesSinceRevision } from '../diff/specification-diff';
+import { listArchivedRuns, createRunManifest, archiveRun, toRevisionHistory } from '../archive/run-archive';
+import { DocumentControl, RevisionHistoryEntry } from '../types';
 
 /**
- * Main document generation function
- * Orchestrates all sections to create complete IDS document
+ * Register the numbered IDS chapters and their subsections (Markdown chapters come first).
+ * Numbers follow the registration order; disabled entries are left out and the rest renumbered.
+ * Titles are in the document language (CONFIG.locale).
  */
-export function generateDocument(): void {
-    console.log(`📊 Generating complete IDS document: ${CONFIG.documentType}`);
-    
-    // Load specification data
-    const loadedData = loadDataFiles();
+export function createDocumentOutline(loadedData: LoadedData[], footnotes?: FootnoteCollector): DocumentOutline {
+    const customization = getDocumentCustomization();
 
-    if (loadedData.length === 0) {
-        console.warn('⚠️  No data files found. Please ensure data files exist in the output directory.');
-        return;
-    }
+    const outline = new DocumentOutline()
+        .addChapter({
+            id: 'specifications',
+            title: getTemplate('outline.specifications'),
+            subsections: [
+                ...loadedData.map(item => ({ id: item.filename, title: translateLabel(item.title) })),
+                { id: 'client-requirements', title: getTemplate('outline.clientRequirements') },
+                { id: 'compliance-summary', title: getTemplate('outline.complianceSummary'), enabled: hasComplianceResults(loadedData) },
+                {
+                    id: 'changes-since-revision',
+                    title: getTemplate('outline.changesSinceRevision', { revision: getChangesSinceRevision() }),
+                    enabled: hasChangeComparison(loadedData) && CONFIG.changeMarkup !== 'redline'
+                }
+            ],
+            render: outline => generateTechnicalSpecifications(loadedData, outline, footnotes)
+        })
+        .addChapter({ id: 'glossary', title: getTemplate('outline.glossary'), enabled: customization.includeGlossary, render: generateGlossary })
+        .addChapter({ id: 'references', title: getTemplate('outline.references'), enabled: customization.includeReferences, render: generateReferences });
 
-    console.log(`📄 Creating document with ${loadedData.length} specification sections...`);
+    // Narrative chapters (introduction, overview, ...) are authored in Markdown
+    return registerMarkdownChapters(outline, customization.chapters || [], { before: 'specifications' });
+}
 
+/**
+ * Build the complete IDS document from loaded specification data
+ * Orchestrates all sections without writing anything to disk
+ * @param revisionHistory Rows for the revision history table on the title page
+ * @param documentControl Document number, revision and signatories (default: CONFIG.documentControl)
+ */
+export function buildDocument(
+    loadedData: LoadedData[],
+    revisionHistory: RevisionHistoryEntry[] = [],
+    documentControl: DocumentControl = getDocumentControl()
+): Document {
     // Create shared header for all pages except title page
-    const documentHeader = generateDocumentHeader();
+    const documentHeader = generateDocumentHeader(undefined, documentControl);
 
-    // Create document with all sections
-    const doc = new Document({
+    // Specification notes are collected while the tables are built and registered with the document
+    const footnotes = new FootnoteCollector();
+    const chapters = createDocumentOutline(loadedData, footnotes).render();
+
+    // Create document with all sections (Word refreshes the table of contents field on open)
+    return new Document({
+        features: { updateFields: true },
+        footnotes: footnotes.toDocumentFootnotes(),
         styles: { 
             default: { 
                 document: { 
@@ -60,68 +103,139 @@ export function generateDocument(): void {
         sections: [
             // Title Page (no header)
             {
-                children: generateTitlePage()
+                children: generateTitlePage({ documentControl, revisionHistory })
             },
             
-            // Table of Contents (with header)
+            // Document Approval (with header)
             {
                 properties: { type: SectionType.NEXT_PAGE },
                 headers: { default: documentHeader },
-                children: generateTableOfContents(loadedData)
+                children: generateDocumentApproval(documentControl)
             },
             
-            // Section 1: Introduction (with header)
-            {
-                properties: { type: SectionType.NEXT_PAGE },
-                headers: { default: documentHeader },
-                children: generateIntroduction()
-            },
-            
-            // Section 2: Overview (with header)
-            {
-                properties: { type: SectionType.NEXT_PAGE },
-                headers: { default: documentHeader },
-                children: generateOverview()
-            },
-            
-            // Section 3: Technical Specifications (with header)
-            {
-                properties: { type: SectionType.NEXT_PAGE },
-                headers: { default: documentHeader },
-                children: generateTechnicalSpecifications(loadedData) as (Paragraph | Table)[]
-            },
-            
-            // Section 4: Glossary (with header)
+            // Table of Contents (with header)
             {
                 properties: { type: SectionType.NEXT_PAGE },
                 headers: { default: documentHeader },
-                children: generateGlossary() as (Paragraph | Table)[]
+                children: generateTableOfContents()
             },
             
-            // Section 5: References (with header)
-            {
+            // Numbered chapters from the outline (with header)
+            ...chapters.map(({ children }) => ({
                 properties: { type: SectionType.NEXT_PAGE },
                 headers: { default: documentHeader },
-                children: generateReferences() as (Paragraph | Table)[]
-            },
+                children
+            })),
         ],
     });
+}
+
+/**
+ * Load the specification data (unless given), check it against the configured IDS baseline
+ * and compare it with the CONFIG.changesSince snapshot
+ */
+export function prepareDocumentData(data?: LoadedData[]): LoadedData[] {
+    const baseline = getConfiguredBaseline();
+    const previous = CONFIG.changesSince ? loadSpecificationSnapshot(CONFIG.changesSince) : undefined;
+
+    return (data || loadDataFiles()).map(item => {
+        const checked = baseline ? applyComplianceBaseline(item.filename, item.data, baseline) : item.data;
+        return previous
+            ? { ...item, data: checked, changes: diffSpecificationData(item.filename, previous[item.filename] || [], checked) }
+            : { ...item, data: checked };
+    });
+}
+
+/**
+ * Export a written .docx to the other configured output formats (CONFIG.outputFormats)
+ * @param loadedData Specification data for the HTML, Markdown and Excel exports (not written without it)
+ * @returns Paths of the exported files, e.g. the PDF next to the .docx
+ */
+export async function exportOutputFormats(documentPath: string, loadedData?: LoadedData[]): Promise<string[]> {
+    const formats = getOutputFormats();
+    const exportedPaths: string[] = [];
+    const withExtension = (extension: string) => documentPath.replace(/(\.docx)?$/i, extension);
+
+    if (formats.includes('pdf')) {
+        const pdfPath = convertToPdf(documentPath);
+        console.log(`📄 PDF exported: ${pdfPath}`);
+        exportedPaths.push(pdfPath);
+    }
+    if (loadedData && formats.includes('html')) {
+        const htmlPath = withExtension('.html');
+        fs.writeFileSync(htmlPath, renderHtmlReport(loadedData));
+        console.log(`🌐 HTML report written: ${htmlPath}`);
+        exportedPaths.push(htmlPath);
+    }
+    if (loadedData && formats.includes('md')) {
+        const markdownPath = withExtension('.md');
+        fs.writeFileSync(markdownPath, renderMarkdownReport(loadedData));
+        console.log(`📝 Markdown report written: ${markdownPath}`);
+        exportedPaths.push(markdownPath);
+    }
+    if (loadedData && formats.includes('xlsx')) {
+        const workbookPath = withExtension('.xlsx');
+        await writeSpecificationWorkbook(loadedData, workbookPath);
+        console.log(`📗 Excel workbook written: ${workbookPath}`);
+        exportedPaths.push(workbookPath);
+    }
+    return exportedPaths;
+}
+
+/**
+ * Main document generation function
+ * Builds the complete IDS document and writes it to CONFIG.outputFilename
+ * @param data Specification data to render (optional, loaded from the specification store when omitted)
+ * @param outputPath Where to write the .docx (default: CONFIG.outputFilename)
+ */
+export async function generateDocument(data?: LoadedData[], outputPath: string = CONFIG.outputFilename): Promise<void> {
+    console.log(`📊 Generating complete IDS document: ${CONFIG.documentType}`);
+    
+    // Load specification data and check it against the IDS baseline (if configured)
+    const loadedData = prepareDocumentData(data);
+
+    if (loadedData.length === 0) {
+        console.warn('⚠️  No data files found. Please ensure data files exist in the output directory.');
+        return;
+    }
+
+    console.log(`📄 Creating document with ${loadedData.length} specification sections...`);
+
+    // The revision history lists the archived runs plus this one
+    const archivedRuns = CONFIG.archiveRuns ? listArchivedRuns() : [];
+    const manifest = CONFIG.archiveRuns ? createRunManifest(archivedRuns) : undefined;
+    const revisionHistory = manifest ? toRevisionHistory([...archivedRuns.map(run => run.manifest), manifest]) : [];
+    
+    // Without a configured revision the document carries the archive revision of this run
+    const documentControl = { ...getDocumentControl() };
+    if (!documentControl.revision && manifest) {
+        documentControl.revision = String(manifest.revision);
+    }
 
     // Generate and save the document
-    Packer.toBuffer(doc).then((buffer) => {
-        fs.writeFileSync(CONFIG.outputFilename, buffer);
-        console.log(`✅ Complete IDS document created: ${CONFIG.outputFilename}`);
+    try {
+        const buffer = await Packer.toBuffer(buildDocument(loadedData, revisionHistory, documentControl));
+        fs.writeFileSync(outputPath, buffer);
+        console.log(`✅ Complete IDS document created: ${outputPath}`);
+        
+        if (getDocumentCustomization().updateTableOfContents && updateTableOfContents(outputPath)) {
+            console.log('📑 Table of contents pre-populated with LibreOffice');
+        }
+        const exportedPaths = await exportOutputFormats(outputPath, loadedData);
+        
+        if (manifest) {
+            console.log(`🗄️ Run archived as revision ${manifest.revision}: ${archiveRun(manifest, [outputPath, ...exportedPaths])}`);
+        }
         console.log(`📊 Document structure:`);
         console.log(`   - Title Page (no header)`);
+        console.log(`   - Document Approval (with header)`);
         console.log(`   - Table of Contents (with header)`);
-        console.log(`   - Section 1: Introduction (with header)`);
-        console.log(`   - Section 2: Overview (with header)`);
-        console.log(`   - Section 3: Technical Specifications (${loadedData.length + 1} subsections, with header)`);
-        console.log(`   - Section 4: Glossary (with header)`);
-        console.log(`   - Section 5: References (with header)`);
+        createDocumentOutline(loadedData).getEntries()
+            .filter(entry => entry.level === 1)
+            .forEach(entry => console.log(`   - Section ${entry.number}: ${entry.title} (with header)`));
         console.log(`📋 Headers include: Logo, document details, and title`);
-    }).catch((error) => {
+    } catch (error) {
         console.error('❌ Error generating document:', error);
         throw error;
-    });
+    }
 }
@@ -0,0 +1,139 @@
+/**
+ * NEW FILE: src/doc-generators/excel-workbook.ts
+ * Excel workbook export: a summary sheet plus one worksheet per specification data file
+ */
+
+import ExcelJS from 'exceljs';
+import { LoadedData } from './utils/data-loader';
+import { getSpecificationColumns, getStatusDisplay, formatSpecificationValue, groupBySection } from './utils/table-generators';
+import { getTemplate } from './utils/templates';
+import { translateLabel } from '../i18n/catalogs';
+import { CONFIG, getResourceNames, getResourceGroup } from '../config';
+
+// Excel limits sheet names to 31 characters without : \ / ? * [ ]
+const MAX_SHEET_NAME_LENGTH = 31;
+
+// Fills matching the Word tables: dark blue header row, light gray section cells
+const HEADER_FILL: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1F3864' } };
+const SECTION_FILL: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFD9D9D9' } };
+
+/**
+ * Unique, valid worksheet name for a section title, e.g. "Redis Cache Specification"
+ */
+function getSheetName(title: string, usedNames: Set<string>): string {
+    const base = title.replace(/[:\\/?*[\]]/g, ' ').replace(/\s+/g, ' ').trim().substring(0, MAX_SHEET_NAME_LENGTH) || 'Sheet';
+
+    let name = base;
+    for (let counter = 2; usedNames.has(name.toLowerCase()); counter++) {
+        const suffix = ` (${counter})`;
+        name = base.substring(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    usedNames.add(name.toLowerCase());
+    return name;
+}
+
+/**
+ * Bold white header row
+ */
+function styleHeaderRow(row: ExcelJS.Row): void {
+    row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    row.eachCell(cell => { cell.fill = HEADER_FILL; });
+}
+
+/**
+ * Summary sheet: project, run timestamp and the documented resources with their resource groups
+ */
+function addSummarySheet(workbook: ExcelJS.Workbook, timestamp: Date): string {
+    const sheet = workbook.addWorksheet(getTemplate('workbook.summary'));
+    const resources = getResourceNames();
+
+    sheet.columns = [{ width: 25 }, { width: 40 }, { width: 40 }];
+    [
+        [getTemplate('workbook.product'), `${CONFIG.productName} ${CONFIG.version}`],
+        [getTemplate('workbook.site'), CONFIG.siteName],
+        [getTemplate('workbook.environment'), CONFIG.environment],
+        [getTemplate('workbook.generated'), timestamp.toISOString()]
+    ].forEach(values => {
+        const row = sheet.addRow(values);
+        row.getCell(1).font = { bold: true };
+    });
+    sheet.addRow([]);
+
+    styleHeaderRow(sheet.addRow([getTemplate('workbook.resource'), getTemplate('table.name'), getTemplate('workbook.resourceGroup')]));
+    [
+        ['Web App', resources.webAppName, getResourceGroup('webapp')],
+        ['App Service Plan', resources.legacyPlanName, getResourceGroup('plan')],
+        ['SQL Server', resources.sqlServerName, getResourceGroup('sql')],
+        ['SQL Database', resources.sqlDatabaseName, getResourceGroup('sql')],
+        ['Redis Cache', resources.redisCacheName, getResourceGroup('redis')],
+        ['Storage Account', resources.storageAccountName, getResourceGroup('storage')]
+    ].forEach(values => sheet.addRow(values));
+    return sheet.name;
+}
+
+/**
+ * Worksheet with one data file's specifications. Rows are grouped by section like
+ * generateSpecificationTable, with the section cell merged over its rows.
+ */
+function addSpecificationSheet(workbook: ExcelJS.Workbook, item: LoadedData, usedNames: Set<string>): void {
+    const sheet = workbook.addWorksheet(getSheetName(translateLabel(item.title), usedNames));
+    const columns = getSpecificationColumns(item.data);
+
+    // Column widths follow the Word table's percentages
+    sheet.columns = columns.map(column => ({ width: Math.max(12, column.width) }));
+    styleHeaderRow(sheet.addRow(columns.map(column => column.header)));
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+    if (item.data.length === 0) {
+        sheet.addRow([getTemplate('table.dataNotAvailable')]);
+        return;
+    }
+
+    Object.entries(groupBySection(item.data)).forEach(([sectionName, items]) => {
+        const firstRow = sheet.rowCount + 1;
+
+        items.forEach(specification => {
+            const status = specification.status ? getStatusDisplay(specification.status) : undefined;
+            const row = sheet.addRow([
+                translateLabel(sectionName),
+                translateLabel(specification.title),
+                formatSpecificationValue(specification),
+                ...columns.slice(3).map(column => column.field === 'status' ? (status?.text || '-') : (specification.expected ?? '-'))
+            ]);
+
+            const statusIndex = columns.findIndex(column => column.field === 'status');
+            if (status && statusIndex >= 0) {
+                row.getCell(statusIndex + 1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${status.fill}` } };
+            }
+        });
+
+        const sectionCell = sheet.getCell(firstRow, 1);
+        sectionCell.fill = SECTION_FILL;
+        sectionCell.font = { bold: true };
+        sectionCell.alignment = { vertical: 'top' };
+        if (items.length > 1) {
+            sheet.mergeCells(firstRow, 1, sheet.rowCount, 1);
+        }
+    });
+}
+
+/**
+ * Build the workbook: a summary sheet followed by one sheet per data file, in document order
+ * @param timestamp Run timestamp shown on the summary sheet
+ */
+export function buildSpecificationWorkbook(loadedData: LoadedData[], timestamp: Date = new Date()): ExcelJS.Workbook {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = CONFIG.productName;
+    workbook.created = timestamp;
+
+    const usedNames = new Set<string>([addSummarySheet(workbook, timestamp).toLowerCase()]);
+    loadedData.forEach(item => addSpecificationSheet(workbook, item, usedNames));
+    return workbook;
+}
+
+/**
+ * Write the specification workbook (.xlsx)
+ */
+export async function writeSpecificationWorkbook(loadedData: LoadedData[], outputPath: string): Promise<void> {
+    await buildSpecificationWorkbook(loadedData).xlsx.writeFile(outputPath);
+}
@@ -0,0 +1,119 @@
+/**
+ * NEW FILE: src/doc-generators/html-report.ts
+ * Standalone HTML report of the specification data for reviewing in a browser
+ */
+
+import { LoadedData } from './utils/data-loader';
+import { getSpecificationColumns, getStatusDisplay, getRowNotes, formatSpecificationValue, groupBySection } from './utils/table-generators';
+import { getTemplate } from './utils/templates';
+import { createDocumentOutline } from './document-generator';
+import { translateLabel } from '../i18n/catalogs';
+import { SpecificationData } from '../types';
+import { CONFIG, getProductName, getDocumentCustomization } from '../config';
+
+// Inline styles so the report is a single file that can be mailed or attached to a review
+const REPORT_STYLES = `
+body { margin: 0; font-family: Calibri, Arial, sans-serif; font-size: 14px; color: #000; }
+nav { position: fixed; top: 0; bottom: 0; left: 0; width: 260px; overflow-y: auto; padding: 16px; background: #F2F2F2; box-sizing: border-box; }
+nav ol { list-style: none; padding: 0; margin: 0; }
+nav li { margin: 6px 0; }
+nav a { color: #1F3864; text-decoration: none; }
+main { margin-left: 260px; padding: 16px 32px; }
+table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+th, td { border: 1px solid #000; padding: 6px; text-align: left; vertical-align: top; }
+th { background: #1F3864; color: #FFF; }
+td.section { background: #D9D9D9; font-weight: bold; }
+.note { display: block; font-size: 12px; font-style: italic; }
+@media print { nav { display: none; } main { margin-left: 0; } }
+`;
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Anchor of a data file's section, e.g. "redis-data" for redis-data.json
+ */
+function getSectionAnchor(filename: string): string {
+    return filename.replace(/\.json$/i, '');
+}
+
+/**
+ * Specification table with the rows grouped by section (one merged section cell per group)
+ */
+function renderSpecificationTable(data: SpecificationData): string {
+    if (data.length === 0) {
+        return `<table><tr><td>${escapeHtml(getTemplate('table.dataNotAvailable'))}</td></tr></table>`;
+    }
+
+    const columns = getSpecificationColumns(data);
+    const includeSources = getDocumentCustomization().includeSourceReferences;
+    const header = columns.map(column => `<th style="width: ${column.width}%">${escapeHtml(column.header)}</th>`).join('');
+
+    const rows = Object.entries(groupBySection(data)).map(([sectionName, items]) => items.map((item, index) => {
+        const cells: string[] = [];
+        if (index === 0) {
+            cells.push(`<td class="section" rowspan="${items.length}">${escapeHtml(translateLabel(sectionName))}</td>`);
+        }
+
+        const notes = getRowNotes(item, { includeSources }).map(note => `<span class="note">${escapeHtml(note)}</span>`);
+        cells.push(`<td>${escapeHtml(translateLabel(item.title))}${notes.join('')}</td>`);
+        cells.push(`<td>${escapeHtml(formatSpecificationValue(item))}</td>`);
+
+        columns.slice(3).forEach(column => {
+            if (column.field === 'status') {
+                const status = item.status ? getStatusDisplay(item.status) : undefined;
+                cells.push(status ? `<td style="background: #${status.fill}">${escapeHtml(status.text)}</td>` : '<td>-</td>');
+            } else {
+                cells.push(`<td>${escapeHtml(item.expected ?? '-')}</td>`);
+            }
+        });
+
+        return `<tr>${cells.join('')}</tr>`;
+    }).join('\n')).join('\n');
+
+    return `<table>\n<thead><tr>${header}</tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`;
+}
+
+/**
+ * Render the specification data as a standalone HTML page: a navigation pane with one link
+ * per data file and a grouped table per file, numbered like the Word document
+ */
+export function renderHtmlReport(loadedData: LoadedData[]): string {
+    const outline = createDocumentOutline(loadedData);
+    const title = getTemplate('titlePage.subtitle', { documentTitle: getTemplate('titlePage.documentTitle') });
+
+    const navigation = loadedData
+        .map(item => `<li><a href="#${getSectionAnchor(item.filename)}">${escapeHtml(outline.getHeading(item.filename))}</a></li>`)
+        .join('\n');
+
+    const sections = loadedData.map(item => [
+        `<section id="${getSectionAnchor(item.filename)}">`,
+        `<h3>${escapeHtml(outline.getHeading(item.filename))}</h3>`,
+        renderSpecificationTable(item.data),
+        '</section>'
+    ].join('\n')).join('\n');
+
+    return [
+        '<!DOCTYPE html>',
+        `<html lang="${CONFIG.locale || 'en'}">`,
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${escapeHtml(title)}</title>`,
+        `<style>${REPORT_STYLES}</style>`,
+        '</head>',
+        '<body>',
+        `<nav>\n<strong>${escapeHtml(getProductName())}</strong>\n<ol>\n${navigation}\n</ol>\n</nav>`,
+        '<main>',
+        `<h1>${escapeHtml(title)}</h1>`,
+        `<p>${escapeHtml(getTemplate('titlePage.environment'))}</p>`,
+        `<h2>${escapeHtml(outline.getHeading('specifications'))}</h2>`,
+        sections,
+        '</main>',
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n');
+}
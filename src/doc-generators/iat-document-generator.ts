@@ -0,0 +1,120 @@
+/**
+ * NEW FILE: src/doc-generators/iat-document-generator.ts
+ * IAT Document Generator - turns the loaded specification data into Infrastructure Acceptance Test scripts
+ */
+
+import { Document, Packer, SectionType } from 'docx';
+import * as fs from 'fs';
+
+// Import section generators
+import { generateTitlePage } from './sections/00-title-page';
+import { generateIatIntroduction } from './sections/08-iat-introduction';
+import { generateIatTestScripts } from './sections/09-iat-test-scripts';
+import { generateIatSignOff } from './sections/10-iat-sign-off';
+
+// Import utilities
+import { LoadedData } from './utils/data-loader';
+import { generateDocumentHeader } from './utils/header';
+import { DocumentOutline } from './utils/document-outline';
+import { prepareDocumentData, exportOutputFormats } from './document-generator';
+import { getTemplate } from './utils/templates';
+import { translateLabel } from '../i18n/catalogs';
+import { getIatOutputFilename } from '../config';
+
+/**
+ * Document type shown on the title page and in the header (in the document language)
+ */
+export function getIatDocumentType(): string {
+    return getTemplate('iat.documentType');
+}
+
+/**
+ * Register the numbered IAT chapters: one test script subsection per data file
+ */
+export function createIatOutline(loadedData: LoadedData[]): DocumentOutline {
+    return new DocumentOutline()
+        .addChapter({
+            id: 'introduction',
+            title: getTemplate('outline.iat.introduction'),
+            subsections: [
+                { id: 'purpose-and-scope', title: getTemplate('outline.iat.purposeAndScope') },
+                { id: 'test-execution', title: getTemplate('outline.iat.testExecution') }
+            ],
+            render: generateIatIntroduction
+        })
+        .addChapter({
+            id: 'test-scripts',
+            title: getTemplate('outline.iat.testScripts'),
+            subsections: loadedData.map(item => ({ id: item.filename, title: translateLabel(item.title) })),
+            render: outline => generateIatTestScripts(loadedData, outline)
+        })
+        .addChapter({
+            id: 'sign-off',
+            title: getTemplate('outline.iat.signOff'),
+            render: outline => generateIatSignOff(loadedData, outline)
+        });
+}
+
+/**
+ * Build the complete IAT document from loaded specification data
+ */
+export function buildIatDocument(loadedData: LoadedData[]): Document {
+    // The IDS document control does not apply to the IAT, which is numbered and approved separately
+    const documentType = getIatDocumentType();
+    const documentHeader = generateDocumentHeader(documentType, {});
+
+    return new Document({
+        styles: { 
+            default: { 
+                document: { 
+                    run: { font: 'Arial', size: 22 } // 11pt font
+                } 
+            } 
+        },
+        sections: [
+            // Title Page (no header)
+            {
+                children: generateTitlePage({ documentType, documentTitle: documentType })
+            },
+            
+            // Numbered chapters from the outline (with header)
+            ...createIatOutline(loadedData).render().map(({ children }) => ({
+                properties: { type: SectionType.NEXT_PAGE },
+                headers: { default: documentHeader },
+                children
+            })),
+        ],
+    });
+}
+
+/**
+ * Generate the IAT document from the same specification data as the IDS
+ * @param data Specification data to render (optional, loaded from the specification store when omitted)
+ * @param outputPath Where to write the .docx (default: CONFIG.outputFilename with an "-iat" suffix)
+ */
+export async function generateIatDocument(data?: LoadedData[], outputPath: string = getIatOutputFilename()): Promise<void> {
+    console.log(`🧪 Generating IAT document: ${getIatDocumentType()}`);
+    
+    const loadedData = prepareDocumentData(data);
+    if (loadedData.length === 0) {
+        console.warn('⚠️  No data files found. Please ensure data files exist in the output directory.');
+        return;
+    }
+    
+    const stepCount = loadedData.reduce((count, item) => count + item.data.length, 0);
+    console.log(`📄 Creating ${loadedData.length} test scripts with ${stepCount} test steps...`);
+    const stepsWithoutExpected = loadedData.reduce((count, item) => count + item.data.filter(row => row.expected === undefined).length, 0);
+    if (stepsWithoutExpected > 0) {
+        console.warn(`⚠️  ${stepsWithoutExpected} of ${stepCount} test steps have no expected result; run 'npm run compliance' (or pass --baseline) first to fill them in`);
+    }
+    
+    try {
+        const buffer = await Packer.toBuffer(buildIatDocument(loadedData));
+        fs.writeFileSync(outputPath, buffer);
+        console.log(`✅ IAT document created: ${outputPath}`);
+        await exportOutputFormats(outputPath);
+    } catch (error) {
+        console.error('❌ Error generating IAT document:', error);
+        throw error;
+    }
+}
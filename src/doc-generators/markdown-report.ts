@@ -0,0 +1,88 @@
+/**
+ * NEW FILE: src/doc-generators/markdown-report.ts
+ * Markdown export of the specification data for committing to a repository or wiki
+ */
+
+import { LoadedData } from './utils/data-loader';
+import { getSpecificationColumns, getStatusDisplay, getRowNotes, formatSpecificationValue, groupBySection } from './utils/table-generators';
+import { getTemplate } from './utils/templates';
+import { createDocumentOutline } from './document-generator';
+import { translateLabel } from '../i18n/catalogs';
+import { SpecificationData } from '../types';
+import { getDocumentCustomization } from '../config';
+
+// Table cells are single-line: pipes are escaped and line breaks collapsed
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+/**
+ * Heading anchor as generated by GitHub/GitLab, e.g. "31-redis-cache-specification" for "3.1 Redis Cache Specification"
+ */
+export function getMarkdownAnchor(heading: string): string {
+    return heading.toLowerCase().replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, '').trim().replace(/\s/g, '-');
+}
+
+/**
+ * Specification table grouped by section: the section name is shown on the first row of each group
+ * and notes become Markdown footnotes (numbered from `footnotes.length + 1`)
+ */
+function renderSpecificationTable(data: SpecificationData, footnotes: string[]): string {
+    if (data.length === 0) {
+        return `_${getTemplate('table.dataNotAvailable')}_`;
+    }
+
+    const columns = getSpecificationColumns(data);
+    const includeSources = getDocumentCustomization().includeSourceReferences;
+
+    const rows = Object.entries(groupBySection(data)).map(([sectionName, items]) => items.map((item, index) => {
+        const references = getRowNotes(item, { includeSources }).map(note => `[^${footnotes.push(note)}]`);
+        const cells = [
+            index === 0 ? `**${escapeCell(translateLabel(sectionName))}**` : '',
+            escapeCell(translateLabel(item.title)) + references.join(''),
+            escapeCell(formatSpecificationValue(item)),
+            ...columns.slice(3).map(column => column.field === 'status'
+                ? (item.status ? getStatusDisplay(item.status).text : '-')
+                : escapeCell(item.expected ?? '-'))
+        ];
+        return `| ${cells.join(' | ')} |`;
+    })).flat();
+
+    return [
+        `| ${columns.map(column => escapeCell(column.header)).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows
+    ].join('\n');
+}
+
+/**
+ * Render the specification data as Markdown: a linked list of contents and a grouped table
+ * per data file, numbered like the Word document
+ */
+export function renderMarkdownReport(loadedData: LoadedData[]): string {
+    const outline = createDocumentOutline(loadedData);
+    const footnotes: string[] = [];
+
+    const contents = loadedData.map(item => {
+        const heading = outline.getHeading(item.filename);
+        return `- [${heading}](#${getMarkdownAnchor(heading)})`;
+    });
+
+    const sections = loadedData.map(item => [
+        `### ${outline.getHeading(item.filename)}`,
+        '',
+        renderSpecificationTable(item.data, footnotes),
+        ''
+    ]).flat();
+
+    return [
+        `# ${getTemplate('titlePage.subtitle', { documentTitle: getTemplate('titlePage.documentTitle') })}`,
+        '',
+        getTemplate('titlePage.environment'),
+        '',
+        ...contents,
+        '',
+        `## ${outline.getHeading('specifications')}`,
+        '',
+        ...sections,
+        ...footnotes.map((note, index) => `[^${index + 1}]: ${note.replace(/\s*\n\s*/g, ' ')}`)
+    ].join('\n').trimEnd() + '\n';
+}
@@ -3,13 +3,34 @@
  * Title page generation for IDS documents
  */
 
-import { Paragraph, TextRun, AlignmentType, BorderStyle, ImageRun} from 'docx';
-import { getProductName, getdocumentType, getVersion, getsiteName, getEnvironment, getDocumentCustomization } from '../../config';
+import { Paragraph, TextRun, AlignmentType, BorderStyle, ImageRun, Table} from 'docx';
+import { getProductName, getdocumentType, getDocumentCustomization } from '../../config';
+import { getTemplate } from '../utils/templates';
+import { DocumentControl, RevisionHistoryEntry } from '../../types';
+import { generateDocumentControlTable, generateRevisionHistoryTable } from '../utils/table-generators';
 import * as fs from 'fs';
+/**
+ * Title page content options
+ */
+export interface TitlePageOptions {
+    documentType?: string;                      // Shown below the product name (default: CONFIG.documentType)
+    documentTitle?: string;                     // Full document name used in the subtitle (default: titlePage.documentTitle)
+    documentControl?: DocumentControl;          // Document number, revision, etc. (omitted when empty)
+    revisionHistory?: RevisionHistoryEntry[];   // Rows of the revision history table (omitted when empty)
+}
+
 /**
  * Generate professional title page
  */
-export function generateTitlePage(): Paragraph[] {
+export function generateTitlePage(options: TitlePageOptions = {}): (Paragraph | Table)[] {
+    const {
+        documentType = getdocumentType(),
+        documentTitle = getTemplate('titlePage.documentTitle'),
+        documentControl = {},
+        revisionHistory = []
+    } = options;
+    const hasDocumentControl = Object.values(documentControl).some(Boolean);
+
 
     return [
 
@@ -57,7 +78,7 @@ export function generateTitlePage(): Paragraph[] {
         new Paragraph({ 
             children: [
                 new TextRun({
-                    text: getdocumentType().toUpperCase(),
+                    text: documentType.toUpperCase(),
                     bold: true,
                     size: 48 // 24pt
                 })
@@ -70,7 +91,7 @@ export function generateTitlePage(): Paragraph[] {
         new Paragraph({ 
             children: [
                 new TextRun({
-                    text: `Infrastructure Design Specification for ${getProductName()} Version ${getVersion()}`,
+                    text: getTemplate('titlePage.subtitle', { documentTitle }),
                     bold: true,
                     size: 36 // 16pt
                 })
@@ -83,7 +104,7 @@ export function generateTitlePage(): Paragraph[] {
         new Paragraph({ 
             children: [
                 new TextRun({
-                    text: `${getsiteName()} - ${getEnvironment().charAt(0).toUpperCase() + getEnvironment().slice(1)} Environment`,
+                    text: getTemplate('titlePage.environment'),
                     bold: true,
                     size: 36 // 14pt
                 })
@@ -91,5 +112,23 @@ export function generateTitlePage(): Paragraph[] {
             alignment: AlignmentType.RIGHT, 
             spacing: { after: 400 } 
         }),
+        
+        // Document control (document number, revision, signatories)
+        ...(hasDocumentControl ? [generateDocumentControlTable(documentControl)] : []),
+        
+        // Revision history (from the run archive)
+        ...(revisionHistory.length > 0 ? [
+            new Paragraph({
+                children: [
+                    new TextRun({
+                        text: getTemplate('titlePage.revisionHistory'),
+                        bold: true,
+                        size: 24
+                    })
+                ],
+                spacing: { before: 800, after: 200 }
+            }),
+            generateRevisionHistoryTable(revisionHistory)
+        ] : []),
     ];
 }
@@ -5,61 +5,102 @@
 
 import { Paragraph, TextRun, HeadingLevel, Table } from 'docx';
 import { LoadedData } from '../utils/data-loader';
-import { generateSpecificationTable, generateClientSpecificationTable } from '../utils/table-generators';
-import { getProductName } from '../../config';
+import { generateSpecificationTable, generateClientSpecificationTable, REDLINE_COLOR } from '../utils/table-generators';
+import { FootnoteCollector } from '../utils/footnotes';
+import { DocumentOutline } from '../utils/document-outline';
+import { generateComplianceSummary } from './07-compliance-summary';
+import { generateChangesSinceRevision } from './11-changes-since-revision';
+import { isDefaultConfigurationData, generateDefaultConfiguration } from './14-default-configuration';
+import { hasChangeComparison, withRemovedSpecifications, getChangesSinceRevision } from '../../diff/specification-diff';
+import { CONFIG, getDocumentCustomization } from '../../config';
+import { getTemplate } from '../utils/templates';
 
 /**
- * Generate Section 3: Technical Specifications
+ * Generate the Technical Specifications chapter
+ * Each data file is a subsection of 'specifications' keyed by its filename, followed by
+ * 'client-requirements' and the optional 'compliance-summary' and 'changes-since-revision'
  * Returns an array containing both paragraphs and tables
  */
-export function generateTechnicalSpecifications(loadedData: LoadedData[]): (Paragraph | Table)[] {
-    // Generate specification sections dynamically
+export function generateTechnicalSpecifications(loadedData: LoadedData[], outline: DocumentOutline, footnotes?: FootnoteCollector): (Paragraph | Table)[] {
+    const tableOptions = { footnotes, includeSources: getDocumentCustomization().includeSourceReferences };
+    const compared = hasChangeComparison(loadedData);
+    const redline = compared && CONFIG.changeMarkup === 'redline';
+    const revision = getChangesSinceRevision();
+
+    // Generate specification sections dynamically (redlined tables also show the removed rows;
+    // the default configuration has its own Key / Description / Default Value table, redlined the same way)
     const specificationSections: (Paragraph | Table)[] = loadedData.map(item => [
         new Paragraph({
-            text: `${item.sectionNumber} ${item.title}`,
-            heading: HeadingLevel.HEADING_3,
+            text: outline.getHeading(item.filename),
+            heading: HeadingLevel.HEADING_2,
             spacing: { after: 200, before: 400 }
         }),
-        generateSpecificationTable(item.data)
+        ...(isDefaultConfigurationData(item)
+            ? generateDefaultConfiguration(item, undefined, redline ? item.changes : undefined)
+            : redline
+                ? [generateSpecificationTable(withRemovedSpecifications(item.data, item.changes || []), { ...tableOptions, changes: item.changes })]
+                : [generateSpecificationTable(item.data, tableOptions)])
     ]).flat();
 
     // Add client specification section
     const clientSpecSection: (Paragraph | Table)[] = [
         new Paragraph({
-            text: `3.${loadedData.length + 1} Client Specification Requirements`,
-            heading: HeadingLevel.HEADING_3,
+            text: outline.getHeading('client-requirements'),
+            heading: HeadingLevel.HEADING_2,
             spacing: { after: 200, before: 400 }
         }),
         generateClientSpecificationTable()
     ];
 
+    // Add compliance summary when the data has been checked against a baseline
+    const complianceSection = outline.isEnabled('compliance-summary')
+        ? generateComplianceSummary(loadedData, outline.getNumber('compliance-summary'))
+        : [];
+
+    // Add the list of changes since the earlier snapshot (redlined documents mark them in the tables instead)
+    const changesSection = outline.isEnabled('changes-since-revision')
+        ? generateChangesSinceRevision(loadedData, outline.getNumber('changes-since-revision'), revision)
+        : [];
+
     return [
         new Paragraph({
-            text: "3. HARDWARE, SOFTWARE AND APPLICATIONS DESIGN SPECIFICATIONS",
+            text: outline.getHeading('specifications'),
             heading: HeadingLevel.HEADING_1,
             spacing: { after: 400, before: 200 }
         }),
         
         new Paragraph({
-            children: [
-                new TextRun("This section specifies the virtual and physical infrastructure to be provided, maintained, and managed by the cloud service provider. These are the minimum requirements to setup and run the "),
-                new TextRun(`${getProductName()} `),
-                new TextRun("application for the usage requirement as defined in the in the URS and FS.")
-            ],
+            children: [new TextRun(getTemplate('specifications.introduction'))],
             spacing: { after: 200 }
         }),
         
         new Paragraph({
+            children: [new TextRun(getTemplate('specifications.scaling'))],
+            spacing: { after: 400 }
+        }),
+        
+        // Redline legend (optional)
+        ...(redline ? [new Paragraph({
             children: [
-                new TextRun(`The virtual and physical infrastructure deployed shall be scaled according to the usage and capacity required by ${getProductName()}'s clients/users in such a way that there will always be more resources available than demand.`)
+                new TextRun(getTemplate('specifications.redlineLegend', { revision })),
+                new TextRun({ text: getTemplate('specifications.redlineRemoved'), strike: true, color: REDLINE_COLOR.removed }),
+                new TextRun(getTemplate('specifications.redlineAnd')),
+                new TextRun({ text: getTemplate('specifications.redlineAdded'), underline: {}, color: REDLINE_COLOR.added }),
+                new TextRun('.')
             ],
             spacing: { after: 400 }
-        }),
+        })] : []),
         
         // Dynamic specification sections
         ...specificationSections,
         
         // Client specification section
-        ...clientSpecSection
+        ...clientSpecSection,
+        
+        // Compliance summary section (optional)
+        ...complianceSection,
+        
+        // Changes since revision section (optional)
+        ...changesSection
     ];
 }
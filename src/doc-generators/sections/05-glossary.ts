@@ -5,15 +5,16 @@
 
 import { Paragraph, HeadingLevel, Table } from 'docx';
 import { generateGlossaryTable } from '../utils/table-generators';
+import { DocumentOutline } from '../utils/document-outline';
 
 /**
- * Generate Section 4: Glossary
+ * Generate the Glossary chapter
  * Returns an array containing both paragraphs and tables
  */
-export function generateGlossary(): (Paragraph | Table)[] {
+export function generateGlossary(outline: DocumentOutline): (Paragraph | Table)[] {
     return [
         new Paragraph({
-            text: "4. GLOSSARY",
+            text: outline.getHeading('glossary'),
             heading: HeadingLevel.HEADING_1,
             spacing: { after: 400, before: 200 }
         }),
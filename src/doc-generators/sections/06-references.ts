@@ -5,15 +5,16 @@
 
 import { Paragraph, HeadingLevel, Table } from 'docx';
 import { generateReferencesTable } from '../utils/table-generators';
+import { DocumentOutline } from '../utils/document-outline';
 
 /**
- * Generate Section 5: References
+ * Generate the References chapter
  * Returns an array containing both paragraphs and tables
  */
-export function generateReferences(): (Paragraph | Table)[] {
+export function generateReferences(outline: DocumentOutline): (Paragraph | Table)[] {
     return [
         new Paragraph({
-            text: "5. REFERENCES",
+            text: outline.getHeading('references'),
             heading: HeadingLevel.HEADING_1,
             spacing: { after: 400, before: 200 }
         }),
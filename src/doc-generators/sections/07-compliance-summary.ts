@@ -0,0 +1,55 @@
+/**
+ * NEW FILE: src/doc-generators/sections/07-compliance-summary.ts
+ * Compliance summary subsection: specification values checked against the approved IDS baseline
+ */
+
+import { Paragraph, TextRun, HeadingLevel, Table } from 'docx';
+import { LoadedData } from '../utils/data-loader';
+import { generateComplianceSummaryTable, generateComplianceFindingsTable } from '../utils/table-generators';
+import { summarizeCompliance } from '../../compliance/compliance-engine';
+import { getTemplate } from '../utils/templates';
+
+/**
+ * Generate the compliance summary subsection (only called when rows carry a pass/fail/missing status)
+ * @param sectionNumber e.g. "3.4"
+ */
+export function generateComplianceSummary(loadedData: LoadedData[], sectionNumber: string): (Paragraph | Table)[] {
+    const summary = summarizeCompliance(loadedData);
+    const totals = summary.reduce((acc, row) => ({
+        pass: acc.pass + row.pass,
+        fail: acc.fail + row.fail,
+        missing: acc.missing + row.missing
+    }), { pass: 0, fail: 0, missing: 0 });
+    const checked = totals.pass + totals.fail + totals.missing;
+
+    const content: (Paragraph | Table)[] = [
+        new Paragraph({
+            text: `${sectionNumber} ${getTemplate('outline.complianceSummary')}`,
+            heading: HeadingLevel.HEADING_2,
+            spacing: { after: 200, before: 400 }
+        }),
+        new Paragraph({
+            children: [
+                new TextRun(getTemplate('compliance.introduction')),
+                new TextRun({ text: getTemplate('compliance.result', { pass: String(totals.pass), checked: String(checked) }), bold: true }),
+                new TextRun(getTemplate('compliance.failures', { fail: String(totals.fail), missing: String(totals.missing) }))
+            ],
+            spacing: { after: 200 }
+        }),
+        generateComplianceSummaryTable(summary)
+    ];
+
+    // List every finding so deviations can be reviewed without scanning each specification table
+    if (totals.fail + totals.missing > 0) {
+        content.push(
+            new Paragraph({
+                text: getTemplate('compliance.deviations'),
+                style: 'strong',
+                spacing: { after: 200, before: 400 }
+            }),
+            generateComplianceFindingsTable(loadedData)
+        );
+    }
+
+    return content;
+}
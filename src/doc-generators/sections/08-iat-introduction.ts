@@ -0,0 +1,66 @@
+/**
+ * NEW FILE: src/doc-generators/sections/08-iat-introduction.ts
+ * Introduction section generation for IAT documents
+ */
+
+import { Paragraph, TextRun, HeadingLevel } from 'docx';
+import { DocumentOutline } from '../utils/document-outline';
+import { getTemplate } from '../utils/templates';
+
+/**
+ * Generate the IAT introduction chapter: purpose of the test and how to execute the test scripts
+ */
+export function generateIatIntroduction(outline: DocumentOutline): Paragraph[] {
+    return [
+        new Paragraph({
+            text: outline.getHeading('introduction'),
+            heading: HeadingLevel.HEADING_1,
+            spacing: { after: 400, before: 200 }
+        }),
+        
+        new Paragraph({
+            text: outline.getHeading('purpose-and-scope'),
+            heading: HeadingLevel.HEADING_2,
+            spacing: { after: 200, before: 300 }
+        }),
+        
+        new Paragraph({
+            children: [
+                new TextRun(getTemplate('iat.purpose'))
+            ],
+            spacing: { after: 200 }
+        }),
+        
+        new Paragraph({
+            children: [
+                new TextRun(getTemplate('iat.precondition'))
+            ],
+            spacing: { after: 200 }
+        }),
+        
+        new Paragraph({
+            text: outline.getHeading('test-execution'),
+            heading: HeadingLevel.HEADING_2,
+            spacing: { after: 200, before: 300 }
+        }),
+        
+        new Paragraph({
+            children: [
+                new TextRun(getTemplate('iat.executionIntroduction'))
+            ],
+            spacing: { after: 200 }
+        }),
+        
+        new Paragraph({ text: getTemplate('iat.executionStepVerify'), spacing: { after: 100 } }),
+        new Paragraph({ text: getTemplate('iat.executionStepCorrect'), spacing: { after: 100 } }),
+        new Paragraph({ text: getTemplate('iat.executionStepMark'), spacing: { after: 100 } }),
+        new Paragraph({ text: getTemplate('iat.executionStepInitial'), spacing: { after: 200 } }),
+        
+        new Paragraph({
+            children: [
+                new TextRun(getTemplate('iat.failedSteps', { signOffSection: outline.getNumber('sign-off') }))
+            ],
+            spacing: { after: 200 }
+        }),
+    ];
+}
@@ -0,0 +1,46 @@
+/**
+ * NEW FILE: src/doc-generators/sections/09-iat-test-scripts.ts
+ * Test script section generation for IAT documents - one test step per specification row
+ */
+
+import { Paragraph, TextRun, HeadingLevel, Table } from 'docx';
+import { LoadedData } from '../utils/data-loader';
+import { generateIatTestStepTable } from '../utils/table-generators';
+import { DocumentOutline } from '../utils/document-outline';
+import { getTemplate } from '../utils/templates';
+import { translateLabel } from '../../i18n/catalogs';
+
+/**
+ * Generate the IAT test scripts chapter: one test script per specification section
+ * (registered in the outline as subsections of 'test-scripts', keyed by data filename)
+ */
+export function generateIatTestScripts(loadedData: LoadedData[], outline: DocumentOutline): (Paragraph | Table)[] {
+    const testScripts: (Paragraph | Table)[] = loadedData.map(item => {
+        const scriptNumber = outline.getNumber(item.filename);
+        return [
+            new Paragraph({
+                text: outline.getHeading(item.filename),
+                heading: HeadingLevel.HEADING_2,
+                spacing: { after: 200, before: 400 }
+            }),
+            new Paragraph({
+                children: [
+                    new TextRun({ text: getTemplate('iat.objectiveLabel'), bold: true }),
+                    new TextRun(getTemplate('iat.objective', { title: translateLabel(item.title) }))
+                ],
+                spacing: { after: 200 }
+            }),
+            generateIatTestStepTable(item.data, scriptNumber)
+        ];
+    }).flat();
+
+    return [
+        new Paragraph({
+            text: outline.getHeading('test-scripts'),
+            heading: HeadingLevel.HEADING_1,
+            spacing: { after: 400, before: 200 }
+        }),
+        
+        ...testScripts
+    ];
+}
@@ -0,0 +1,64 @@
+/**
+ * NEW FILE: src/doc-generators/sections/10-iat-sign-off.ts
+ * Test summary and sign-off section generation for IAT documents
+ */
+
+import { Paragraph, TextRun, HeadingLevel, Table } from 'docx';
+import { LoadedData } from '../utils/data-loader';
+import { generateSignatureTable } from '../utils/table-generators';
+import { DocumentOutline } from '../utils/document-outline';
+import { getTemplate } from '../utils/templates';
+
+/**
+ * Generate the IAT sign-off chapter: step counts, deviations and the sign-off block
+ */
+export function generateIatSignOff(loadedData: LoadedData[], outline: DocumentOutline): (Paragraph | Table)[] {
+    const steps = loadedData.flatMap(item => item.data);
+    const passed = steps.filter(item => item.status === 'pass').length;
+    const failed = steps.filter(item => item.status === 'fail' || item.status === 'missing').length;
+
+    return [
+        new Paragraph({
+            text: outline.getHeading('sign-off'),
+            heading: HeadingLevel.HEADING_1,
+            spacing: { after: 400, before: 200 }
+        }),
+        
+        new Paragraph({
+            children: [
+                new TextRun(getTemplate('iat.summary', { steps: String(steps.length), scripts: String(loadedData.length) })),
+                new TextRun(passed + failed > 0
+                    ? getTemplate('iat.prefilled', { passed: String(passed), failed: String(failed) })
+                    : getTemplate('iat.testerEvaluated'))
+            ],
+            spacing: { after: 200 }
+        }),
+        
+        new Paragraph({
+            text: getTemplate('iat.deviations'),
+            style: 'strong',
+            spacing: { after: 200, before: 200 }
+        }),
+        
+        new Paragraph({
+            text: "__________________________________________________________________________",
+            spacing: { after: 200 }
+        }),
+        
+        new Paragraph({
+            text: "__________________________________________________________________________",
+            spacing: { after: 400 }
+        }),
+        
+        new Paragraph({
+            text: getTemplate('iat.signOffStatement'),
+            spacing: { after: 200 }
+        }),
+        
+        generateSignatureTable([
+            { role: getTemplate('iat.executedBy') },
+            { role: getTemplate('iat.reviewedBy') },
+            { role: getTemplate('iat.approvedBy') }
+        ])
+    ];
+}
@@ -0,0 +1,49 @@
+/**
+ * NEW FILE: src/doc-generators/sections/11-changes-since-revision.ts
+ * Change subsection: specification rows that differ from an earlier snapshot
+ */
+
+import { Paragraph, TextRun, HeadingLevel, Table } from 'docx';
+import { LoadedData } from '../utils/data-loader';
+import { generateSpecificationChangesTable } from '../utils/table-generators';
+import { getTemplate } from '../utils/templates';
+
+/**
+ * Generate the "Changes Since Revision" subsection (only called when the data was compared with a snapshot)
+ * @param sectionNumber e.g. "3.5"
+ * @param revision Label of the earlier snapshot
+ */
+export function generateChangesSinceRevision(loadedData: LoadedData[], sectionNumber: string, revision: string): (Paragraph | Table)[] {
+    const changes = loadedData.flatMap(item => item.changes || []);
+    const count = (type: string) => String(changes.filter(change => change.type === type).length);
+
+    const content: (Paragraph | Table)[] = [
+        new Paragraph({
+            text: `${sectionNumber} ${getTemplate('outline.changesSinceRevision', { revision })}`,
+            heading: HeadingLevel.HEADING_2,
+            spacing: { after: 200, before: 400 }
+        })
+    ];
+
+    if (changes.length === 0) {
+        content.push(new Paragraph({
+            text: getTemplate('changes.none', { revision }),
+            spacing: { after: 200 }
+        }));
+        return content;
+    }
+
+    content.push(
+        new Paragraph({
+            children: [
+                new TextRun(getTemplate('changes.introduction', { revision })),
+                new TextRun({ text: getTemplate('changes.counts', { changed: count('changed'), added: count('added'), removed: count('removed') }), bold: true }),
+                new TextRun('.')
+            ],
+            spacing: { after: 200 }
+        }),
+        generateSpecificationChangesTable(loadedData)
+    );
+
+    return content;
+}
@@ -0,0 +1,41 @@
+/**
+ * NEW FILE: src/doc-generators/sections/12-document-approval.ts
+ * Approval/signature block for IDS documents
+ */
+
+import { Paragraph, TextRun, AlignmentType, Table } from 'docx';
+import { DocumentControl } from '../../types';
+import { generateSignatureTable } from '../utils/table-generators';
+import { getTemplate } from '../utils/templates';
+
+/**
+ * Generate the document approval page: author, reviewer and approver sign off the IDS
+ */
+export function generateDocumentApproval(documentControl: DocumentControl): (Paragraph | Table)[] {
+    return [
+        new Paragraph({
+            children: [
+                new TextRun({
+                    text: getTemplate('approval.title'),
+                    bold: true,
+                    size: 32
+                })
+            ],
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 400, before: 200 }
+        }),
+        
+        new Paragraph({
+            children: [
+                new TextRun(getTemplate('approval.statement', { revision: documentControl.revision || '' }))
+            ],
+            spacing: { after: 400 }
+        }),
+        
+        generateSignatureTable([
+            { role: getTemplate('documentControl.author'), name: documentControl.author },
+            { role: getTemplate('documentControl.reviewer'), name: documentControl.reviewer },
+            { role: getTemplate('documentControl.approver'), name: documentControl.approver }
+        ])
+    ];
+}
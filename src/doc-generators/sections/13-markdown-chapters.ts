@@ -0,0 +1,116 @@
+/**
+ * NEW FILE: src/doc-generators/sections/13-markdown-chapters.ts
+ * Narrative chapters authored in Markdown (introduction, overview and any project-specific chapters)
+ */
+
+import { Paragraph, HeadingLevel, Table } from 'docx';
+import { Tokens } from 'marked';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MarkdownChapter } from '../../types';
+import { DocumentOutline, ChapterPosition } from '../utils/document-outline';
+import { lexMarkdown, renderMarkdown } from '../utils/markdown-renderer';
+import { renderTemplate, getTemplateVariables } from '../utils/templates';
+import { CONFIG } from '../../config';
+
+/**
+ * Outline id of a "## Heading" subsection, e.g. "overview.partner-systems" (letters of any script are kept)
+ */
+export function getSubsectionId(chapterId: string, heading: string): string {
+    const slug = heading.toLowerCase().replace(/\{\{[^}]*\}\}/g, '').replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+    return `${chapterId}.${slug}`;
+}
+
+/**
+ * "## Heading" subsections of a chapter with their outline ids, read from the Markdown with its
+ * variables and conditionals applied (headings left out by an {{#if}} are not subsections).
+ * Repeated headings get numbered ids, e.g. "security.notes" and "security.notes-2".
+ */
+function getSubsections(chapterId: string, markdown: string): { id: string; title: string }[] {
+    const usedIds = new Set<string>();
+
+    return lexMarkdown(renderTemplate(markdown, getTemplateVariables()))
+        .filter((token): token is Tokens.Heading => token.type === 'heading' && (token as Tokens.Heading).depth === 2)
+        .map(heading => {
+            const baseId = getSubsectionId(chapterId, heading.text);
+            let id = baseId;
+            for (let suffix = 2; usedIds.has(id); suffix++) {
+                id = `${baseId}-${suffix}`;
+            }
+            usedIds.add(id);
+            return { id, title: heading.text };
+        });
+}
+
+/**
+ * Register Markdown chapters in the outline. The first "# Heading" is the chapter title and every
+ * "## Heading" a numbered subsection; chapters go before the technical specifications unless
+ * `before`/`after` name another chapter (registered earlier in the list, or a built-in one).
+ */
+export function registerMarkdownChapters(outline: DocumentOutline, chapters: MarkdownChapter[], defaultPosition: ChapterPosition = {}): DocumentOutline {
+    const variables = getTemplateVariables();
+
+    chapters.forEach(chapter => {
+        const enabled = chapter.enabled !== false;
+        const markdown = enabled ? readChapterFile(chapter) : '';
+        const title = lexMarkdown(renderTemplate(markdown, variables))
+            .find((token): token is Tokens.Heading => token.type === 'heading' && (token as Tokens.Heading).depth === 1)?.text || chapter.id;
+        const position = chapter.before || chapter.after ? { before: chapter.before, after: chapter.after } : defaultPosition;
+
+        outline.addChapter({
+            id: chapter.id,
+            title: title.toUpperCase(),
+            enabled,
+            subsections: getSubsections(chapter.id, markdown),
+            render: chapterOutline => generateMarkdownChapter(chapter, markdown, chapterOutline)
+        }, position);
+    });
+
+    return outline;
+}
+
+/**
+ * Render a Markdown chapter with its template variables and conditionals applied and its headings numbered by the outline
+ */
+export function generateMarkdownChapter(chapter: MarkdownChapter, markdown: string, outline: DocumentOutline): (Paragraph | Table)[] {
+    const filled = renderTemplate(markdown, getTemplateVariables(outline), name =>
+        console.warn(`⚠️  Unknown placeholder {{${name}}} in ${chapter.path}`));
+
+    // Subsections are registered from the same filled Markdown, so they match the "##" headings by position
+    const subsectionIds = getSubsections(chapter.id, markdown).map(subsection => subsection.id);
+    let subsectionIndex = 0;
+    let hasTitle = false;
+
+    const content = renderMarkdown(filled, {
+        headingText: heading => {
+            if (heading.depth === 1 && !hasTitle) {
+                hasTitle = true;
+                return outline.getHeading(chapter.id);
+            }
+            return heading.depth === 2 ? outline.getHeading(subsectionIds[subsectionIndex++]) : heading.text;
+        }
+    });
+
+    // Chapters without a "# Heading" still get their numbered title
+    return hasTitle ? content : [
+        new Paragraph({ text: outline.getHeading(chapter.id), heading: HeadingLevel.HEADING_1, spacing: { after: 400, before: 200 } }),
+        ...content
+    ];
+}
+
+/**
+ * Path of the chapter in the document language: "<dir>/<locale>/<file>" next to the configured file
+ * when it exists (e.g. src/assets/chapters/de/overview.md), otherwise the configured file
+ */
+export function getLocalizedChapterPath(chapterPath: string, locale: string = CONFIG.locale || 'en'): string {
+    const localized = path.join(path.dirname(chapterPath), locale, path.basename(chapterPath));
+    return locale !== 'en' && fs.existsSync(localized) ? localized : chapterPath;
+}
+
+function readChapterFile(chapter: MarkdownChapter): string {
+    const fullPath = path.resolve(getLocalizedChapterPath(chapter.path));
+    if (!fs.existsSync(fullPath)) {
+        throw new Error(`Chapter file not found: ${fullPath} (chapter "${chapter.id}")`);
+    }
+    return fs.readFileSync(fullPath, 'utf8');
+}
@@ -0,0 +1,96 @@
+/**
+ * NEW FILE: src/doc-generators/sections/14-default-configuration.ts
+ * Default configuration subsection: configuration keys with their description and default value, grouped by key prefix
+ */
+
+import { Paragraph, TextRun, Table } from 'docx';
+import { LoadedData } from '../utils/data-loader';
+import { ConfigurationGroup, generateConfigurationTable } from '../utils/table-generators';
+import { getTemplate } from '../utils/templates';
+import { SpecificationStore, getSpecificationStore, loadJson } from '../../persistence/specification-store';
+import { SpecificationChange } from '../../diff/specification-diff';
+import {
+    RawConfigurationItem,
+    DEFAULT_CONFIG_OUTPUT_FILENAME,
+    DEFAULT_CONFIG_RAW_OUTPUT_FILENAME,
+    getConfigurationKeyGroup
+} from '../../data-fetchers/database/01-query-default-config';
+
+// Sort keys like "Retry2" before "Retry10"
+const compareKeys = (a: string, b: string) => a.localeCompare(b, 'en', { numeric: true, sensitivity: 'base' });
+
+/**
+ * Whether a data file is the default configuration (rendered with generateDefaultConfiguration)
+ */
+export function isDefaultConfigurationData(item: LoadedData): boolean {
+    return item.filename === DEFAULT_CONFIG_OUTPUT_FILENAME;
+}
+
+/**
+ * Configuration items of the section: the raw file saved next to it, or the specification
+ * entries themselves (without descriptions) when the raw file is missing
+ */
+export function loadConfigurationItems(item: LoadedData, store: SpecificationStore = getSpecificationStore()): RawConfigurationItem[] {
+    const rawData = loadJson<RawConfigurationItem[]>(DEFAULT_CONFIG_RAW_OUTPUT_FILENAME, store);
+    if (Array.isArray(rawData)) {
+        return rawData;
+    }
+    return item.data.map(specification => ({ configkeyNo: specification.title, desc: '', value: specification.value }));
+}
+
+/**
+ * Group configuration items by key prefix; groups and keys are sorted alphabetically.
+ * With changes (redline), keys removed since the earlier snapshot are listed as well and every item carries its change.
+ */
+export function getConfigurationGroups(items: RawConfigurationItem[], changes: SpecificationChange[] = []): ConfigurationGroup[] {
+    const groups = new Map<string, ConfigurationGroup>();
+    const removed: RawConfigurationItem[] = changes
+        .filter(change => change.type === 'removed')
+        .map(change => ({ configkeyNo: change.title, desc: '', value: change.before!.value }));
+
+    [...items, ...removed]
+        .sort((a, b) => compareKeys(a.configkeyNo, b.configkeyNo))
+        .forEach(item => {
+            const name = getConfigurationKeyGroup(item.configkeyNo);
+            if (!groups.has(name)) {
+                groups.set(name, { name, items: [] });
+            }
+            const change = removed.includes(item)
+                ? changes.find(candidate => candidate.type === 'removed' && candidate.title === item.configkeyNo)
+                : changes.find(candidate => candidate.type !== 'removed' && candidate.title === item.configkeyNo);
+            groups.get(name)!.items.push({
+                key: item.configkeyNo,
+                description: item.desc,
+                defaultValue: item.value,
+                currentValue: item.current,
+                change: change?.type,
+                previousDefault: change?.before?.value
+            });
+        });
+
+    return [...groups.values()].sort((a, b) => compareKeys(a.name, b.name));
+}
+
+/**
+ * Generate the configuration table of the section. When current values were fetched,
+ * they are compared against the defaults and the number of changed settings is stated first.
+ * @param changes Changes since the earlier snapshot to redline (changeMarkup 'redline')
+ */
+export function generateDefaultConfiguration(item: LoadedData, store?: SpecificationStore, changes?: SpecificationChange[]): (Paragraph | Table)[] {
+    const items = loadConfigurationItems(item, store);
+    const compareCurrent = items.some(configuration => configuration.current !== undefined);
+    const table = generateConfigurationTable(getConfigurationGroups(items, changes), compareCurrent);
+
+    if (!compareCurrent) {
+        return [table];
+    }
+
+    const changed = items.filter(configuration => configuration.current !== undefined && configuration.current !== configuration.value).length;
+    return [
+        new Paragraph({
+            children: [new TextRun(getTemplate('configuration.comparison', { changed: String(changed), total: String(items.length) }))],
+            spacing: { after: 200 }
+        }),
+        table
+    ];
+}
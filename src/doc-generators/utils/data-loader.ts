@@ -3,10 +3,19 @@
  * Data loading utility for specification files
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
-import { SpecificationData } from '../../types';
+import { SpecificationData, DocumentSection } from '../../types';
 import { CONFIG } from '../../config';
+import { getRegisteredFetchers, findFetcherByFilename, deriveSectionTitle } from '../../data-fetchers/registry';
+import { SpecificationStore, getSpecificationStore } from '../../persistence/specification-store';
+import { getImportTitle } from '../../import/spreadsheet-import';
+import { getSqlQueryTitle } from '../../data-fetchers/database/02-sql-query-sections';
+import { SpecificationChange } from '../../diff/specification-diff';
+import {
+    SpecificationIssue,
+    SpecificationValidationError,
+    formatSpecificationIssue,
+    validateSpecificationJson
+} from '../../validation/specification-validator';
 
 /**
  * Structure for holding loaded specification data
@@ -14,81 +23,125 @@ import { CONFIG } from '../../config';
 export interface LoadedData {
     filename: string;
     title: string;
-    sectionNumber: string;
     data: SpecificationData;
+    changes?: SpecificationChange[]; // Differences from the CONFIG.changesSince snapshot (only set when configured)
 }
 
 /**
- * Load specification data files from the output directory
+ * Data files produced from the config file: CSV/XLSX imports and SQL query sections
  */
-export function loadDataFiles(): LoadedData[] {
+function getConfiguredDataSections(): DocumentSection[] {
+    return [
+        ...(CONFIG.imports || []).map(source => ({ filename: source.outputFilename, title: getImportTitle(source), enabled: true })),
+        ...(CONFIG.sqlQueries || []).map(query => ({ filename: query.outputFilename, title: getSqlQueryTitle(query), enabled: true }))
+    ];
+}
+
+/**
+ * Resolve the manual section list: configured sections first, followed by any registered fetcher,
+ * CSV/XLSX import or SQL query section whose output file is not listed in CONFIG.documentSections
+ */
+export function resolveDocumentSections(): DocumentSection[] {
+    const sections = [...CONFIG.documentSections];
+
+    getRegisteredFetchers()
+        .filter(fetcher => !sections.some(section => section.filename === fetcher.outputFilename))
+        .forEach(fetcher => {
+            sections.push({
+                filename: fetcher.outputFilename,
+                title: fetcher.defaultSectionTitle,
+                enabled: true
+            });
+        });
+
+    getConfiguredDataSections()
+        .filter(configured => !sections.some(section => section.filename === configured.filename))
+        .forEach(configured => sections.push(configured));
+
+    return sections;
+}
+
+/**
+ * Load and validate one file. Invalid entries are reported and left out; the issues are
+ * appended to `issues` so strict mode can fail once every file has been checked.
+ */
+function loadSpecificationFile(filename: string, store: SpecificationStore, issues: SpecificationIssue[]): SpecificationData | undefined {
+    const contents = store.load(filename);
+    if (contents === undefined) return undefined;
+
+    const result = validateSpecificationJson(filename, contents);
+    if (result.issues.length > 0) {
+        const action = result.data ? '⚠️  Skipped invalid entries in' : '❌ Could not load';
+        console.warn(`   ${action} ${filename}:`);
+        result.issues.forEach(issue => console.warn(`      - ${formatSpecificationIssue(issue)}`));
+        issues.push(...result.issues);
+    }
+    return result.data;
+}
+
+/**
+ * Load specification data files from the specification store (default: output directory)
+ * @throws SpecificationValidationError in strict mode when any file is invalid
+ */
+export function loadDataFiles(store: SpecificationStore = getSpecificationStore()): LoadedData[] {
     const loadedData: LoadedData[] = [];
-    const outputDir = path.join(process.cwd(), 'output');
+    const issues: SpecificationIssue[] = [];
 
     if (CONFIG.useAutoDiscovery) {
         console.log('🔍 Auto-discovering data files...');
         
-        if (!fs.existsSync(outputDir)) {
-            console.warn(`⚠️  Output directory not found: ${outputDir}`);
+        const files = store.list().filter(file => file.endsWith('-data.json'));
+
+        if (files.length === 0) {
+            console.warn(`⚠️  No data files found in: ${store.location}`);
             return loadedData;
         }
 
-        const files = fs.readdirSync(outputDir)
-            .filter(file => file.endsWith('-data.json'))
-            .sort();
-
-        files.forEach((filename, index) => {
-            try {
-                const filePath = path.join(outputDir, filename);
-                const data: SpecificationData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-                
-                const title = filename
-                    .replace('-data.json', '')
-                    .split('-')
-                    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-                    .join(' ') + ' Specification';
+        files.forEach(filename => {
+            const data = loadSpecificationFile(filename, store, issues);
+            if (!data) return;
+            
+            const title = findFetcherByFilename(filename)?.defaultSectionTitle
+                || getConfiguredDataSections().find(section => section.filename === filename)?.title
+                || deriveSectionTitle(filename);
 
-                loadedData.push({
-                    filename,
-                    title,
-                    sectionNumber: `3.${index + 1}`,
-                    data
-                });
-                
-                console.log(`   ✅ ${title} (${filename})`);
-            } catch (error) {
-                console.warn(`   ❌ Could not load ${filename}:`, error);
-            }
+            loadedData.push({
+                filename,
+                title,
+                data
+            });
+            
+            console.log(`   ✅ ${title} (${filename})`);
         });
     } else {
         console.log('📋 Loading configured sections...');
         
-        for (const [index, section] of CONFIG.documentSections.entries()) {
+        for (const section of resolveDocumentSections()) {
             if (!section.enabled) {
                 console.log(`   ⭕ Skipped: ${section.title} (disabled)`);
                 continue;
             }
 
-            try {
-                const filePath = path.join(outputDir, section.filename);
-                
-                if (fs.existsSync(filePath)) {
-                    const data: SpecificationData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-                    loadedData.push({
-                        filename: section.filename,
-                        title: section.title,
-                        sectionNumber: `3.${index + 1}`,
-                        data: data
-                    });
-                    console.log(`   ✅ ${section.title} (${section.filename})`);
-                } else {
-                    console.warn(`   ⚠️  File not found: ${section.filename}`);
-                }
-            } catch (error) {
-                console.warn(`   ❌ Could not load ${section.title}:`, error);
+            if (!store.exists(section.filename)) {
+                console.warn(`   ⚠️  File not found: ${section.filename}`);
+                continue;
+            }
+            
+            const data = loadSpecificationFile(section.filename, store, issues);
+            if (data) {
+                loadedData.push({
+                    filename: section.filename,
+                    title: section.title,
+                    data: data
+                });
+                console.log(`   ✅ ${section.title} (${section.filename})`);
             }
         }
     }
 
+    if (CONFIG.strictValidation && issues.length > 0) {
+        throw new SpecificationValidationError(issues);
+    }
+
     return loadedData;
 }
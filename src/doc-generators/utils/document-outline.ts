@@ -0,0 +1,198 @@
+/**
+ * NEW FILE: src/doc-generators/utils/document-outline.ts
+ * Document outline - the single place where chapter and subsection numbers are assigned
+ */
+
+import { Paragraph, Table } from 'docx';
+
+/**
+ * Content of one chapter (rendered into its own Word section)
+ */
+export type ChapterContent = (Paragraph | Table)[];
+
+/**
+ * A numbered subsection, e.g. "3.1 Web Server Specification"
+ */
+export interface OutlineSubsection {
+    id: string;
+    title: string;
+    enabled: boolean;
+}
+
+/**
+ * A numbered chapter, e.g. "3. HARDWARE, SOFTWARE AND APPLICATIONS DESIGN SPECIFICATIONS"
+ */
+export interface OutlineChapter {
+    id: string;
+    title: string;
+    enabled: boolean;
+    subsections: OutlineSubsection[];
+    render: (outline: DocumentOutline) => ChapterContent;
+}
+
+/**
+ * Chapter as registered by a generator (subsections and enable flags are optional)
+ */
+export interface ChapterDefinition {
+    id: string;
+    title: string;
+    enabled?: boolean;
+    subsections?: { id: string; title: string; enabled?: boolean }[];
+    render: (outline: DocumentOutline) => ChapterContent;
+}
+
+/**
+ * Where to insert a chapter (default: at the end)
+ */
+export interface ChapterPosition {
+    before?: string;
+    after?: string;
+}
+
+/**
+ * A numbered outline entry, used for listings such as the console summary
+ */
+export interface OutlineEntry {
+    id: string;
+    number: string;
+    title: string;
+    level: 1 | 2;
+}
+
+/**
+ * Ordered chapters and subsections. Disabled entries keep their place but get no number,
+ * so disabling or inserting a chapter renumbers every heading and cross-reference consistently.
+ */
+export class DocumentOutline {
+    private readonly chapters: OutlineChapter[] = [];
+
+    /**
+     * Register a chapter
+     */
+    addChapter(definition: ChapterDefinition, position: ChapterPosition = {}): this {
+        if (this.find(definition.id)) {
+            throw new Error(`Duplicate outline id: ${definition.id}`);
+        }
+
+        const chapter: OutlineChapter = {
+            id: definition.id,
+            title: definition.title,
+            enabled: definition.enabled ?? true,
+            subsections: [],
+            render: definition.render
+        };
+
+        const anchor = position.before || position.after;
+        const anchorIndex = anchor ? this.chapters.findIndex(existing => existing.id === anchor) : this.chapters.length;
+        if (anchorIndex < 0) {
+            throw new Error(`Unknown outline chapter: ${anchor}`);
+        }
+        this.chapters.splice(position.after ? anchorIndex + 1 : anchorIndex, 0, chapter);
+
+        (definition.subsections || []).forEach(subsection => this.addSubsection(definition.id, subsection));
+        return this;
+    }
+
+    /**
+     * Append a subsection to a chapter
+     */
+    addSubsection(chapterId: string, subsection: { id: string; title: string; enabled?: boolean }): this {
+        const chapter = this.getChapter(chapterId);
+        if (this.find(subsection.id)) {
+            throw new Error(`Duplicate outline id: ${subsection.id}`);
+        }
+
+        chapter.subsections.push({ id: subsection.id, title: subsection.title, enabled: subsection.enabled ?? true });
+        return this;
+    }
+
+    /**
+     * Enable or disable a chapter or subsection
+     */
+    setEnabled(id: string, enabled: boolean): this {
+        const entry = this.find(id);
+        if (!entry) {
+            throw new Error(`Unknown outline id: ${id}`);
+        }
+
+        entry.enabled = enabled;
+        return this;
+    }
+
+    isEnabled(id: string): boolean {
+        const entry = this.find(id);
+        if (!entry?.enabled) return false;
+
+        // A subsection of a disabled chapter is not part of the document either
+        const chapter = this.chapters.find(candidate => candidate.subsections.includes(entry as OutlineSubsection));
+        return chapter ? chapter.enabled : true;
+    }
+
+    /**
+     * Number of an enabled chapter ("3") or subsection ("3.2")
+     */
+    getNumber(id: string): string {
+        const entry = this.getEntries().find(candidate => candidate.id === id);
+        if (!entry) {
+            throw new Error(`Outline entry is unknown or disabled: ${id}`);
+        }
+        return entry.number;
+    }
+
+    /**
+     * Heading text: "3. TITLE" for chapters and "3.2 Title" for subsections
+     */
+    getHeading(id: string): string {
+        const entry = this.getEntries().find(candidate => candidate.id === id);
+        if (!entry) {
+            throw new Error(`Outline entry is unknown or disabled: ${id}`);
+        }
+        return entry.level === 1 ? `${entry.number}. ${entry.title}` : `${entry.number} ${entry.title}`;
+    }
+
+    /**
+     * Enabled chapters in document order
+     */
+    getChapters(): OutlineChapter[] {
+        return this.chapters.filter(chapter => chapter.enabled);
+    }
+
+    /**
+     * Every enabled chapter and subsection with its number, in document order
+     */
+    getEntries(): OutlineEntry[] {
+        return this.getChapters().flatMap((chapter, chapterIndex): OutlineEntry[] => {
+            const number = String(chapterIndex + 1);
+            return [
+                { id: chapter.id, number, title: chapter.title, level: 1 },
+                ...chapter.subsections
+                    .filter(subsection => subsection.enabled)
+                    .map((subsection, index): OutlineEntry => ({ id: subsection.id, number: `${number}.${index + 1}`, title: subsection.title, level: 2 }))
+            ];
+        });
+    }
+
+    /**
+     * Render every enabled chapter
+     */
+    render(): { chapter: OutlineChapter; children: ChapterContent }[] {
+        return this.getChapters().map(chapter => ({ chapter, children: chapter.render(this) }));
+    }
+
+    private getChapter(id: string): OutlineChapter {
+        const chapter = this.chapters.find(candidate => candidate.id === id);
+        if (!chapter) {
+            throw new Error(`Unknown outline chapter: ${id}`);
+        }
+        return chapter;
+    }
+
+    private find(id: string): OutlineChapter | OutlineSubsection | undefined {
+        for (const chapter of this.chapters) {
+            if (chapter.id === id) return chapter;
+            const subsection = chapter.subsections.find(candidate => candidate.id === id);
+            if (subsection) return subsection;
+        }
+        return undefined;
+    }
+}
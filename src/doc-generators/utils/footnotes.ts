@@ -0,0 +1,32 @@
+/**
+ * NEW FILE: src/doc-generators/utils/footnotes.ts
+ * Collects footnotes while sections are generated so they can be registered with the Document
+ */
+
+import { Paragraph, FootnoteReferenceRun } from 'docx';
+
+/**
+ * Hands out footnote numbers and remembers their text
+ */
+export class FootnoteCollector {
+    private readonly notes: string[] = [];
+
+    /**
+     * Register a footnote and return the reference run to place after the annotated text
+     */
+    add(text: string): FootnoteReferenceRun {
+        this.notes.push(text);
+        return new FootnoteReferenceRun(this.notes.length);
+    }
+
+    get count(): number {
+        return this.notes.length;
+    }
+
+    /**
+     * Footnotes in the format expected by `new Document({ footnotes })`
+     */
+    toDocumentFootnotes(): Record<number, { children: Paragraph[] }> {
+        return Object.fromEntries(this.notes.map((text, index) => [index + 1, { children: [new Paragraph(text)] }]));
+    }
+}
@@ -17,96 +17,19 @@ import {
 } from 'docx';
 import * as fs from 'fs';
 import * as path from 'path';
-import { getProductName, getVersion, getdocumentType, getDocumentCustomization } from '../../config';
+import { getProductName, getdocumentType, getDocumentCustomization, getDocumentControl } from '../../config';
+import { DocumentControl } from '../../types';
+import { getTemplate } from './templates';
+import { formatDate } from '../../i18n/catalogs';
 
 /**
  * Generate document header for all pages except title page
  * Contains logo, document details, and title
+ * @param documentType Document type shown in the title column (default: CONFIG.documentType)
+ * @param documentControl Document number, revision and effective date (default: CONFIG.documentControl)
  */
-export function generateDocumentHeader(): Header {
-    return new Header({
-        children: [
-            new Table({
-                rows: [
-                    new TableRow({
-                        children: [
-                            // First Column (Logo and Document Details)
-                            new TableCell({
-                                children: [
-                                    // Logo paragraph
-                                    generateLogoForHeader(),
-                                    
-                                    // Document details
-                                    new Paragraph({
-                                        children: [
-                                            new TextRun({
-                                                text: "Doc. No.: <see Cover Sheet>",
-                                                size: 15, // 7.5pt font size (15 = 7.5pt * 2)
-                                            }),
-                                        ],
-                                        alignment: AlignmentType.LEFT,
-                                    }),
-                                    new Paragraph({
-                                        children: [
-                                            new TextRun({
-                                                text: "Revision: <see Cover Sheet>",
-                                                size: 15,
-                                            }),
-                                        ],
-                                        alignment: AlignmentType.LEFT,
-                                    }),
-                                    new Paragraph({
-                                        children: [
-                                            new TextRun({
-                                                text: "Effective Date: <see Cover Sheet>",
-                                                size: 15,
-                                            }),
-                                        ],
-                                        alignment: AlignmentType.LEFT,
-                                    }),
-                                ],
-                                width: {
-                                    size: 50,
-                                    type: WidthType.PERCENTAGE,
-                                },
-                            }),
-                            
-                            // Second Column (Document Title)
-                            new TableCell({
-                                children: [
-                                    new Paragraph({
-                                        children: [
-                                            new TextRun({
-                                                text: `${getdocumentType()} for ${getProductName()} Version ${getVersion()}`,
-                                                size: 20, // 10pt font size (20 = 10pt * 2)
-                                                bold: true,
-                                            }),
-                                        ],
-                                        alignment: AlignmentType.CENTER,
-                                    }),
-                                ],
-                                width: {
-                                    size: 50,
-                                    type: WidthType.PERCENTAGE,
-                                },
-                                verticalAlign: VerticalAlign.CENTER,
-                            }),
-                        ],
-                    }),
-                ],
-                width: {
-                    size: 100,
-                    type: WidthType.PERCENTAGE,
-                },
-            }),
-            
-            // Spacing paragraph
-            new Paragraph({
-                text: "", // Empty paragraph for spacing
-                spacing: { after: 200 }, // Spacing after header
-            }),
-        ],
-    });
+export function generateDocumentHeader(documentType: string = getdocumentType(), documentControl: DocumentControl = getDocumentControl()): Header {
+    return generateCustomDocumentHeader({ ...documentControl, documentType });
 }
 
 /**
@@ -167,18 +90,21 @@ function generateLogoForHeader(): Paragraph {
 }
 
 /**
- * Alternative header generator with custom document details
- * Use this if you want to specify custom document number, revision, etc.
+ * Header generator with custom document details
+ * Details that are not set refer the reader to the cover sheet; the effective date is formatted for the document language
  */
 export function generateCustomDocumentHeader(options: {
     documentNumber?: string;
     revision?: string;
     effectiveDate?: string;
+    documentType?: string;
 }): Header {
+    const seeCoverSheet = getTemplate('header.seeCoverSheet');
     const {
-        documentNumber = "<see Cover Sheet>",
-        revision = "<see Cover Sheet>", 
-        effectiveDate = "<see Cover Sheet>"
+        documentNumber = seeCoverSheet,
+        revision = seeCoverSheet, 
+        effectiveDate = seeCoverSheet,
+        documentType = getdocumentType()
     } = options;
 
     return new Header({
@@ -194,7 +120,7 @@ export function generateCustomDocumentHeader(options: {
                                     new Paragraph({
                                         children: [
                                             new TextRun({
-                                                text: `Doc. No.: ${documentNumber}`,
+                                                text: getTemplate('header.documentNumber', { documentNumber }),
                                                 size: 15,
                                             }),
                                         ],
@@ -203,7 +129,7 @@ export function generateCustomDocumentHeader(options: {
                                     new Paragraph({
                                         children: [
                                             new TextRun({
-                                                text: `Revision: ${revision}`,
+                                                text: getTemplate('header.revision', { revision }),
                                                 size: 15,
                                             }),
                                         ],
@@ -212,7 +138,7 @@ export function generateCustomDocumentHeader(options: {
                                     new Paragraph({
                                         children: [
                                             new TextRun({
-                                                text: `Effective Date: ${effectiveDate}`,
+                                                text: getTemplate('header.effectiveDate', { effectiveDate: formatDate(effectiveDate) }),
                                                 size: 15,
                                             }),
                                         ],
@@ -231,7 +157,7 @@ export function generateCustomDocumentHeader(options: {
                                     new Paragraph({
                                         children: [
                                             new TextRun({
-                                                text: `${getdocumentType()} for ${getProductName()} Version ${getVersion()}`,
+                                                text: getTemplate('header.title', { documentType }),
                                                 size: 20,
                                                 bold: true,
                                             }),
@@ -0,0 +1,217 @@
+/**
+ * NEW FILE: src/doc-generators/utils/markdown-renderer.ts
+ * Converts Markdown into docx paragraphs, headings, lists, tables and images
+ */
+
+import {
+    Paragraph,
+    TextRun,
+    ImageRun,
+    ExternalHyperlink,
+    HeadingLevel,
+    AlignmentType,
+    Table,
+    ParagraphChild
+} from 'docx';
+import { Lexer, Token, Tokens } from 'marked';
+import * as fs from 'fs';
+import * as path from 'path';
+import { generateContentTable } from './table-generators';
+
+/**
+ * Options for rendering a Markdown document
+ */
+export interface MarkdownRenderOptions {
+    baseDir?: string;                                 // Images are resolved relative to this directory (default: working directory)
+    headingText?: (heading: Tokens.Heading) => string; // Replaces the heading text, e.g. with the outline number
+}
+
+// Run formatting inherited from enclosing **strong**, *em*, ~~del~~ and `code` tokens
+interface RunStyle {
+    bold?: boolean;
+    italics?: boolean;
+    strike?: boolean;
+    font?: string;
+}
+
+const HEADING_LEVELS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4];
+const IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif' | 'bmp'> = { '.png': 'png', '.jpg': 'jpg', '.jpeg': 'jpg', '.gif': 'gif', '.bmp': 'bmp' };
+const DEFAULT_IMAGE_SIZE = { width: 500, height: 300 };
+
+/**
+ * Lex Markdown into block tokens (used to read headings before rendering)
+ */
+export function lexMarkdown(markdown: string): Token[] {
+    return new Lexer({ gfm: true }).lex(markdown);
+}
+
+/**
+ * Render Markdown as document content
+ */
+export function renderMarkdown(markdown: string, options: MarkdownRenderOptions = {}): (Paragraph | Table)[] {
+    return lexMarkdown(markdown).flatMap(token => renderBlock(token, options));
+}
+
+// --- BLOCKS ---
+
+function renderBlock(token: Token, options: MarkdownRenderOptions): (Paragraph | Table)[] {
+    switch (token.type) {
+        case 'heading': {
+            const heading = token as Tokens.Heading;
+            return [new Paragraph({
+                text: options.headingText ? options.headingText(heading) : heading.text,
+                heading: HEADING_LEVELS[Math.min(heading.depth, HEADING_LEVELS.length) - 1],
+                spacing: heading.depth === 1 ? { after: 400, before: 200 } : { after: 200, before: 300 }
+            })];
+        }
+
+        case 'paragraph':
+            return renderParagraph(token as Tokens.Paragraph, options);
+
+        case 'list':
+            return renderList(token as Tokens.List, options, 0);
+
+        case 'table': {
+            const table = token as Tokens.Table;
+            return [generateContentTable(
+                table.header.map(cell => cell.text),
+                table.rows.map(row => row.map(cell => new Paragraph({ children: renderInline(cell.tokens, options) })))
+            )];
+        }
+
+        case 'blockquote':
+            return (token as Tokens.Blockquote).tokens.flatMap(child => child.type === 'paragraph'
+                ? [new Paragraph({
+                    children: renderInline((child as Tokens.Paragraph).tokens, options, { italics: true }),
+                    indent: { left: 720 },
+                    spacing: { after: 200 }
+                })]
+                : renderBlock(child, options));
+
+        case 'code':
+            return (token as Tokens.Code).text.split('\n').map((line, index, lines) => new Paragraph({
+                children: [new TextRun({ text: line, font: 'Courier New', size: 18 })],
+                spacing: { after: index === lines.length - 1 ? 200 : 0 }
+            }));
+
+        case 'text':
+            return [new Paragraph({ children: renderInline((token as Tokens.Text).tokens || [token], options), spacing: { after: 200 } })];
+
+        default:
+            // space, hr and raw HTML have no docx equivalent
+            return [];
+    }
+}
+
+/**
+ * A paragraph holding only an image becomes a centered figure with its alt text as the caption
+ */
+function renderParagraph(paragraph: Tokens.Paragraph, options: MarkdownRenderOptions): Paragraph[] {
+    const content = paragraph.tokens.filter(token => !(token.type === 'text' && !token.raw.trim()));
+
+    if (content.length === 1 && content[0].type === 'image') {
+        const image = content[0] as Tokens.Image;
+        const figure = [new Paragraph({ children: [renderImage(image, options)], alignment: AlignmentType.CENTER })];
+        if (image.text) {
+            figure.push(new Paragraph({
+                children: [new TextRun({ text: image.text, italics: true })],
+                alignment: AlignmentType.CENTER,
+                spacing: { after: 400 }
+            }));
+        }
+        return figure;
+    }
+
+    return [new Paragraph({ children: renderInline(paragraph.tokens, options), spacing: { after: 200 } })];
+}
+
+/**
+ * Bullet lists use Word bullets; ordered lists keep their numbers as text (1. 2. 3.)
+ */
+function renderList(list: Tokens.List, options: MarkdownRenderOptions, level: number): Paragraph[] {
+    const start = typeof list.start === 'number' ? list.start : 1;
+
+    return list.items.flatMap((item, index) => {
+        const inlineTokens = item.tokens.flatMap(child => child.type === 'text' || child.type === 'paragraph'
+            ? (child as Tokens.Text | Tokens.Paragraph).tokens || [child]
+            : []);
+        const nested = item.tokens
+            .filter(child => child.type === 'list')
+            .flatMap(child => renderList(child as Tokens.List, options, level + 1));
+
+        const children = renderInline(inlineTokens, options);
+        const paragraph = list.ordered
+            ? new Paragraph({ children: [new TextRun(`${start + index}. `), ...children], indent: { left: 360 * (level + 1) }, spacing: { after: 100 } })
+            : new Paragraph({ children, bullet: { level }, spacing: { after: 100 } });
+
+        return [paragraph, ...nested];
+    });
+}
+
+// --- INLINE ---
+
+function renderInline(tokens: Token[], options: MarkdownRenderOptions, style: RunStyle = {}): ParagraphChild[] {
+    return tokens.flatMap((token): ParagraphChild[] => {
+        switch (token.type) {
+            case 'strong':
+                return renderInline((token as Tokens.Strong).tokens, options, { ...style, bold: true });
+            case 'em':
+                return renderInline((token as Tokens.Em).tokens, options, { ...style, italics: true });
+            case 'del':
+                return renderInline((token as Tokens.Del).tokens, options, { ...style, strike: true });
+            case 'codespan':
+                return [new TextRun({ ...style, text: (token as Tokens.Codespan).text, font: 'Courier New' })];
+            case 'br':
+                return [new TextRun({ break: 1 })];
+            case 'link': {
+                const link = token as Tokens.Link;
+                return [new ExternalHyperlink({
+                    link: link.href,
+                    children: [new TextRun({ ...style, text: link.text, style: 'Hyperlink' })]
+                })];
+            }
+            case 'image':
+                return [renderImage(token as Tokens.Image, options)];
+            case 'text':
+            case 'escape': {
+                const text = token as Tokens.Text;
+                return text.tokens ? renderInline(text.tokens, options, style) : [new TextRun({ ...style, text: text.text })];
+            }
+            default:
+                return [];
+        }
+    });
+}
+
+/**
+ * Embed an image. The title may give the size as "WIDTHxHEIGHT"; otherwise PNGs keep their
+ * aspect ratio at 500 pixels wide and other formats use 500x300.
+ */
+function renderImage(image: Tokens.Image, options: MarkdownRenderOptions): ImageRun {
+    const imagePath = path.resolve(options.baseDir || process.cwd(), image.href);
+    const type = IMAGE_TYPES[path.extname(imagePath).toLowerCase()];
+    if (!type) {
+        throw new Error(`Unsupported image type: ${image.href} (use png, jpg, gif or bmp)`);
+    }
+    if (!fs.existsSync(imagePath)) {
+        throw new Error(`Image not found: ${imagePath}`);
+    }
+
+    const data = fs.readFileSync(imagePath);
+    const size = /^(\d+)x(\d+)$/.exec(image.title || '');
+
+    return new ImageRun({
+        data,
+        transformation: size ? { width: Number(size[1]), height: Number(size[2]) } : getDefaultImageSize(data, type),
+        type
+    });
+}
+
+function getDefaultImageSize(data: Buffer, type: string): { width: number; height: number } {
+    // PNG: width and height are the first fields of the IHDR chunk
+    if (type !== 'png' || data.length < 24) return DEFAULT_IMAGE_SIZE;
+
+    const width = data.readUInt32BE(16);
+    const height = data.readUInt32BE(20);
+    return { width: DEFAULT_IMAGE_SIZE.width, height: Math.round(DEFAULT_IMAGE_SIZE.width * height / width) };
+}
@@ -0,0 +1,166 @@
+/**
+ * NEW FILE: src/doc-generators/utils/office-converter.ts
+ * Optional post-processing of generated documents with a headless LibreOffice
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+// Give up on LibreOffice after two minutes (first start creates its profile)
+const OFFICE_TIMEOUT_MS = 120000;
+
+/**
+ * LibreOffice executable (libreoffice_path, default: soffice on the PATH)
+ */
+export function getOfficeExecutable(): string {
+    return process.env.libreoffice_path || 'soffice';
+}
+
+// Basic macros: UpdateIndexes refreshes every index (the table of contents) and saves the document as .docx;
+// ExportPdf refreshes the indexes and exports a PDF with all fonts embedded and the headings as bookmarks
+const OFFICE_MACROS = `Function LoadHidden(documentPath As String)
+    Dim loadArgs(0) As New com.sun.star.beans.PropertyValue
+    loadArgs(0).Name = "Hidden"
+    loadArgs(0).Value = True
+    document = StarDesktop.loadComponentFromURL(ConvertToURL(documentPath), "_blank", 0, loadArgs())
+
+    indexes = document.getDocumentIndexes()
+    For i = 0 To indexes.getCount() - 1
+        indexes.getByIndex(i).update()
+    Next i
+    LoadHidden = document
+End Function
+
+Sub UpdateIndexes(documentPath As String)
+    document = LoadHidden(documentPath)
+
+    Dim storeArgs(0) As New com.sun.star.beans.PropertyValue
+    storeArgs(0).Name = "FilterName"
+    storeArgs(0).Value = "MS Word 2007 XML"
+    document.storeToURL(ConvertToURL(documentPath), storeArgs())
+    document.close(True)
+End Sub
+
+Sub ExportPdf(documentPath As String, pdfPath As String)
+    document = LoadHidden(documentPath)
+
+    Dim filterData(2) As New com.sun.star.beans.PropertyValue
+    filterData(0).Name = "ExportBookmarks"
+    filterData(0).Value = True
+    filterData(1).Name = "EmbedStandardFonts"
+    filterData(1).Value = True
+    filterData(2).Name = "UseTaggedPDF"
+    filterData(2).Value = True
+
+    Dim storeArgs(1) As New com.sun.star.beans.PropertyValue
+    storeArgs(0).Name = "FilterName"
+    storeArgs(0).Value = "writer_pdf_Export"
+    storeArgs(1).Name = "FilterData"
+    storeArgs(1).Value = filterData()
+    document.storeToURL(ConvertToURL(pdfPath), storeArgs())
+    document.close(True)
+End Sub`;
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Write the Standard Basic library with the UpdateIndexes and ExportPdf macros into a fresh LibreOffice user profile
+ */
+function createMacroProfile(profileDir: string): void {
+    const basicDir = path.join(profileDir, 'user', 'basic');
+    const standardDir = path.join(basicDir, 'Standard');
+    fs.mkdirSync(standardDir, { recursive: true });
+
+    const doctype = (root: string, dtd: string) =>
+        `<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE ${root} PUBLIC "-//OpenOffice.org//DTD OfficeDocument 1.0//EN" "${dtd}">\n`;
+    const libraries = (file: string) => doctype('library:libraries', 'libraries.dtd') +
+        '<library:libraries xmlns:library="http://openoffice.org/2000/library" xmlns:xlink="http://www.w3.org/1999/xlink">\n' +
+        ` <library:library library:name="Standard" xlink:href="$(USER)/basic/Standard/${file}/" xlink:type="simple" library:link="false"/>\n` +
+        '</library:libraries>\n';
+    const library = (elements: string) => doctype('library:library', 'library.dtd') +
+        '<library:library xmlns:library="http://openoffice.org/2000/library" library:name="Standard" library:readonly="false" library:passwordprotected="false">\n' +
+        elements +
+        '</library:library>\n';
+
+    fs.writeFileSync(path.join(basicDir, 'script.xlc'), libraries('script.xlb'));
+    fs.writeFileSync(path.join(basicDir, 'dialog.xlc'), libraries('dialog.xlb'));
+    fs.writeFileSync(path.join(standardDir, 'script.xlb'), library(' <library:element library:name="Module1"/>\n'));
+    fs.writeFileSync(path.join(standardDir, 'dialog.xlb'), library(''));
+    fs.writeFileSync(path.join(standardDir, 'Module1.xba'), doctype('script:module', 'module.dtd') +
+        '<script:module xmlns:script="http://openoffice.org/2000/script" script:name="Module1" script:language="StarBasic">' +
+        escapeXml(OFFICE_MACROS) +
+        '</script:module>\n');
+}
+
+/**
+ * Run LibreOffice headless with a throw-away user profile
+ */
+export function runOffice(args: string[], prepareProfile?: (profileDir: string) => void): void {
+    const profileDir = fs.mkdtempSync(path.join(os.tmpdir(), 'office-profile-'));
+    try {
+        prepareProfile?.(profileDir);
+        execFileSync(getOfficeExecutable(), [
+            `-env:UserInstallation=${pathToFileURL(profileDir).href}`,
+            '--headless',
+            '--invisible',
+            '--norestore',
+            ...args
+        ], { stdio: 'pipe', timeout: OFFICE_TIMEOUT_MS });
+    } finally {
+        fs.rmSync(profileDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Pre-populate the table of contents (entries and page numbers) so it is correct before Word updates it.
+ * Failures are reported and leave the document unchanged - Word still updates the field on open.
+ * @returns true when LibreOffice updated the document
+ */
+export function updateTableOfContents(documentPath: string): boolean {
+    const fullPath = path.resolve(documentPath);
+    const before = fs.statSync(fullPath).mtimeMs;
+
+    try {
+        runOffice([`macro:///Standard.Module1.UpdateIndexes("${fullPath}")`], createMacroProfile);
+    } catch (error) {
+        console.warn(`⚠️  Could not update the table of contents with ${getOfficeExecutable()}: ${error instanceof Error ? error.message : error}`);
+        console.warn('   Install LibreOffice or set libreoffice_path; Word will update the table of contents when the document is opened.');
+        return false;
+    }
+
+    if (fs.statSync(fullPath).mtimeMs === before) {
+        console.warn(`⚠️  ${getOfficeExecutable()} did not update the table of contents of ${documentPath}`);
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Export a PDF of the document: indexes refreshed, fonts embedded and headings as PDF bookmarks.
+ * Unlike the table of contents update this is a requested output, so failures are errors.
+ * @param pdfPath Where to write the PDF (default: the document path with a .pdf extension)
+ * @returns The PDF path
+ */
+export function convertToPdf(documentPath: string, pdfPath: string = documentPath.replace(/(\.docx)?$/i, '.pdf')): string {
+    const fullPath = path.resolve(documentPath);
+    const fullPdfPath = path.resolve(pdfPath);
+    fs.rmSync(fullPdfPath, { force: true });
+
+    try {
+        runOffice([`macro:///Standard.Module1.ExportPdf("${fullPath}","${fullPdfPath}")`], createMacroProfile);
+    } catch (error) {
+        throw new Error(`Could not convert ${documentPath} to PDF with ${getOfficeExecutable()}: ${error instanceof Error ? error.message : error} (install LibreOffice or set libreoffice_path)`);
+    }
+
+    if (!fs.existsSync(fullPdfPath)) {
+        throw new Error(`${getOfficeExecutable()} did not write ${pdfPath}`);
+    }
+    return pdfPath;
+}
@@ -3,22 +3,150 @@
  * Complete table generation utilities for all document sections
  */
 
-import { Table, TableRow, TableCell, Paragraph, WidthType, ShadingType, BorderStyle } from 'docx';
-import { SpecificationData } from '../../types';
+import { Table, TableRow, TableCell, Paragraph, TextRun, WidthType, ShadingType, BorderStyle } from 'docx';
+import { Specification, SpecificationData, SpecificationStatus, RevisionHistoryEntry, DocumentControl } from '../../types';
+import { FootnoteCollector } from './footnotes';
+import { getTemplate } from './templates';
+import { translateLabel, getGlossary, formatDate } from '../../i18n/catalogs';
+import { ComplianceSummaryRow } from '../../compliance/compliance-engine';
+import { SpecificationChange, SpecificationChangeType, findSpecificationChange } from '../../diff/specification-diff';
 import { getProductName, getsiteName, getVersion } from '../../config';
 
+/**
+ * Options for rendering the optional Specification fields
+ */
+export interface SpecificationTableOptions {
+    footnotes?: FootnoteCollector;   // Render notes as Word footnotes (otherwise as a line below the title)
+    includeSources?: boolean;        // Add each value's source (ARM property path) as a note
+    changes?: SpecificationChange[]; // Redline the rows that changed since an earlier snapshot
+}
+
+/**
+ * Configuration items sharing a key prefix, e.g. all "Security.*" keys
+ */
+export interface ConfigurationGroup {
+    name: string;
+    items: {
+        key: string;
+        description: string;
+        defaultValue: string;
+        currentValue?: string;
+        change?: SpecificationChangeType;   // Redline: added, removed or changed since the earlier snapshot
+        previousDefault?: string;           // Redline: default value in the earlier snapshot (changed rows)
+    }[];
+}
+
+// Status cell background colour
+const STATUS_FILL: Record<SpecificationStatus, string> = {
+    pass: 'C6EFCE',
+    fail: 'FFC7CE',
+    missing: 'FFEB9C',
+    info: 'FFFFFF',
+};
+
+/**
+ * Status cell text (in the document language) and background colour
+ */
+export function getStatusDisplay(status: SpecificationStatus): { text: string; fill: string } {
+    return { text: getTemplate(`status.${status}`), fill: STATUS_FILL[status] };
+}
+
+/**
+ * Value as shown in the document, including its unit (e.g. "16 GB")
+ */
+export function formatSpecificationValue(item: Specification): string {
+    if (!item.unit || item.value === '-' || item.value.endsWith(item.unit)) {
+        return item.value;
+    }
+    return `${item.value} ${item.unit}`;
+}
+
+// Redline markup: removed text struck through in red, new text underlined in blue
+export const REDLINE_COLOR = { removed: 'C00000', added: '0070C0' };
+
+/**
+ * Text run with redline markup for an added or removed row (plain text otherwise)
+ */
+function generateRedlineRun(text: string, changeType?: SpecificationChangeType): TextRun {
+    switch (changeType) {
+        case 'added':
+            return new TextRun({ text, underline: {}, color: REDLINE_COLOR.added });
+        case 'removed':
+            return new TextRun({ text, strike: true, color: REDLINE_COLOR.removed });
+        default:
+            return new TextRun(text);
+    }
+}
+
+/**
+ * Value runs for a row: a changed value shows the previous value struck through followed by the new value underlined
+ */
+function generateValueRuns(item: Specification, change?: SpecificationChange): TextRun[] {
+    if (change?.type === 'changed') {
+        return [
+            generateRedlineRun(formatSpecificationValue(change.before!), 'removed'),
+            new TextRun(' '),
+            generateRedlineRun(formatSpecificationValue(item), 'added')
+        ];
+    }
+    return [generateRedlineRun(formatSpecificationValue(item), change?.type)];
+}
+
+// Column of a specification table; the optional columns name the field they show
+export interface SpecificationColumn {
+    header: string;
+    width: number;
+    field?: 'expected' | 'status';
+}
+
+/**
+ * Column layout for a specification table: extra columns only appear when at least one row uses them
+ */
+export function getSpecificationColumns(data: SpecificationData): SpecificationColumn[] {
+    const hasExpected = data.some(item => item.expected !== undefined);
+    const hasStatus = data.some(item => item.status !== undefined);
+
+    if (!hasExpected && !hasStatus) {
+        return [
+            { header: getTemplate('table.section'), width: 25 },
+            { header: getTemplate('table.specification'), width: 50 },
+            { header: getTemplate('table.value'), width: 25 },
+        ];
+    }
+
+    const columns: SpecificationColumn[] = [
+        { header: getTemplate('table.section'), width: 20 },
+        { header: getTemplate('table.specification'), width: 30 + (hasExpected ? 0 : 15) + (hasStatus ? 0 : 10) },
+        { header: getTemplate('table.value'), width: 25 },
+    ];
+    if (hasExpected) columns.push({ header: getTemplate('table.expected'), width: 15, field: 'expected' });
+    if (hasStatus) columns.push({ header: getTemplate('table.status'), width: 10, field: 'status' });
+    return columns;
+}
+
+/**
+ * Notes attached to a row: its own note plus, optionally, where the value came from
+ */
+export function getRowNotes(item: Specification, options: SpecificationTableOptions): string[] {
+    const notes: string[] = [];
+    if (item.note) notes.push(item.note);
+    if (options.includeSources && item.source) notes.push(getTemplate('table.source', { source: item.source }));
+    return notes;
+}
+
 /**
  * Creates a professional specification table with 3 columns: Section | Specification | Value
- * This is the main table used for Azure resource specifications
+ * This is the main table used for Azure resource specifications.
+ * Expected and Status columns are added when the data contains them; notes become footnotes.
  */
-export function generateSpecificationTable(data: SpecificationData | null): Table {
+export function generateSpecificationTable(data: SpecificationData | null, options: SpecificationTableOptions = {}): Table {
     if (!data || data.length === 0) {
         return new Table({ 
             rows: [
                 new TableRow({ 
                     children: [
                         new TableCell({ 
-                            children: [new Paragraph('Data not available')],
+                            children: [new Paragraph(getTemplate('table.dataNotAvailable'))],
                             columnSpan: 3,
                             margins: { top: 200, bottom: 200, left: 200, right: 200 }
                         })
@@ -29,9 +157,18 @@ export function generateSpecificationTable(data: SpecificationData | null): Tabl
         });
     }
 
+    const columns = getSpecificationColumns(data);
+    const [sectionWidth, titleWidth, valueWidth, ...extraWidths] = columns.map(column => column.width);
     const rows: TableRow[] = [];
     const groupedData = groupBySection(data);
 
+    const bodyBorders = {
+        top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+        bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+        left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+        right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+    };
+
     // Generate data rows with section grouping
     Object.entries(groupedData).forEach(([sectionName, items]) => {
         items.forEach((item, index) => {
@@ -41,94 +178,59 @@ export function generateSpecificationTable(data: SpecificationData | null): Tabl
             // Add section cell only for the first row of each section (with rowSpan)
             if (isFirstInSection) {
                 cells.push(new TableCell({
-                    children: [new Paragraph({ text: sectionName, style: 'strong' })],
+                    children: [new Paragraph({ text: translateLabel(sectionName), style: 'strong' })],
                     rowSpan: items.length,
                     shading: { fill: 'D9D9D9', type: ShadingType.CLEAR }, // Light gray background
-                    width: { size: 25, type: WidthType.PERCENTAGE },
+                    width: { size: sectionWidth, type: WidthType.PERCENTAGE },
                     margins: { top: 100, bottom: 100, left: 100, right: 100 },
-                    borders: {
-                        top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                        bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                        left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                        right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                    },
+                    borders: bodyBorders,
                 }));
             }
 
-            // Specification name cell
+            // Specification name cell (with footnote references, or inline notes without a collector)
+            const notes = getRowNotes(item, options);
+            const change = options.changes ? findSpecificationChange(options.changes, item, data) : undefined;
+            const titleRun = generateRedlineRun(translateLabel(item.title), change?.type === 'changed' ? undefined : change?.type);
+            const titleParagraphs = options.footnotes
+                ? [new Paragraph({ children: [titleRun, ...notes.map(note => options.footnotes!.add(note))] })]
+                : [new Paragraph({ children: [titleRun] }), ...notes.map(note => new Paragraph({ children: [new TextRun({ text: note, italics: true, size: 18 })] }))];
+
             cells.push(new TableCell({
-                children: [new Paragraph(item.title)],
-                width: { size: 50, type: WidthType.PERCENTAGE },
+                children: titleParagraphs,
+                width: { size: titleWidth, type: WidthType.PERCENTAGE },
                 margins: { top: 100, bottom: 100, left: 100, right: 100 },
-                borders: {
-                    top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                    bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                    left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                    right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                },
+                borders: bodyBorders,
             }));
 
             // Specification value cell
             cells.push(new TableCell({
-                children: [new Paragraph(item.value)],
-                width: { size: 25, type: WidthType.PERCENTAGE },
+                children: [new Paragraph({ children: generateValueRuns(item, change) })],
+                width: { size: valueWidth, type: WidthType.PERCENTAGE },
                 margins: { top: 100, bottom: 100, left: 100, right: 100 },
-                borders: {
-                    top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                    bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                    left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                    right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
-                },
+                borders: bodyBorders,
             }));
 
+            // Optional Expected / Status cells
+            columns.slice(3).forEach((column, extraIndex) => {
+                const status = item.status ? getStatusDisplay(item.status) : undefined;
+                const isStatus = column.field === 'status';
+                const text = isStatus ? (status?.text || '-') : (item.expected ?? '-');
+
+                cells.push(new TableCell({
+                    children: [new Paragraph(text)],
+                    shading: isStatus && status ? { fill: status.fill, type: ShadingType.CLEAR } : undefined,
+                    width: { size: extraWidths[extraIndex], type: WidthType.PERCENTAGE },
+                    margins: { top: 100, bottom: 100, left: 100, right: 100 },
+                    borders: bodyBorders,
+                }));
+            });
+
             rows.push(new TableRow({ children: cells }));
         });
     });
 
-    // Create header row
-    const headerRow = new TableRow({
-        children: [
-            new TableCell({
-                children: [new Paragraph({ text: "Section", style: 'strong' })],
-                shading: { fill: 'CCCCCC', type: ShadingType.CLEAR }, // Medium gray background
-                width: { size: 25, type: WidthType.PERCENTAGE },
-                margins: { top: 100, bottom: 100, left: 100, right: 100 },
-                borders: {
-                    top: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                    bottom: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                    left: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                    right: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                },
-            }),
-            new TableCell({
-                children: [new Paragraph({ text: "Specification", style: 'strong' })],
-                shading: { fill: 'CCCCCC', type: ShadingType.CLEAR },
-                width: { size: 50, type: WidthType.PERCENTAGE },
-                margins: { top: 100, bottom: 100, left: 100, right: 100 },
-                borders: {
-                    top: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                    bottom: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                    left: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                    right: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                },
-            }),
-            new TableCell({
-                children: [new Paragraph({ text: "Value", style: 'strong' })],
-                shading: { fill: 'CCCCCC', type: ShadingType.CLEAR },
-                width: { size: 25, type: WidthType.PERCENTAGE },
-                margins: { top: 100, bottom: 100, left: 100, right: 100 },
-                borders: {
-                    top: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                    bottom: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                    left: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                    right: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
-                },
-            })
-        ]
-    });
-
     return new Table({
-        rows: [headerRow, ...rows],
+        rows: [generateHeaderRow(columns), ...rows],
         width: { size: 100, type: WidthType.PERCENTAGE },
     });
 }
@@ -140,8 +242,8 @@ export function generateClientSpecificationTable(): Table {
     const clientSpecs = [
         { 
             siteName: getsiteName(), 
-            os: "Windows, macOS", 
-            browser: "Google Chrome, Microsoft Edge, Firefox", 
+            os: getTemplate('clientRequirements.operatingSystems'), 
+            browser: getTemplate('clientRequirements.browsers'), 
             version: getVersion() 
         }
     ];
@@ -149,7 +251,7 @@ export function generateClientSpecificationTable(): Table {
     const headerRow = new TableRow({
         children: [
             new TableCell({
-                children: [new Paragraph({ text: "Client Name", style: 'strong' })],
+                children: [new Paragraph({ text: getTemplate('table.clientName'), style: 'strong' })],
                 shading: { fill: 'CCCCCC', type: ShadingType.CLEAR },
                 width: { size: 25, type: WidthType.PERCENTAGE },
                 margins: { top: 100, bottom: 100, left: 100, right: 100 },
@@ -161,7 +263,7 @@ export function generateClientSpecificationTable(): Table {
                 },
             }),
             new TableCell({
-                children: [new Paragraph({ text: "Operating System (OS)", style: 'strong' })],
+                children: [new Paragraph({ text: getTemplate('table.operatingSystem'), style: 'strong' })],
                 shading: { fill: 'CCCCCC', type: ShadingType.CLEAR },
                 width: { size: 25, type: WidthType.PERCENTAGE },
                 margins: { top: 100, bottom: 100, left: 100, right: 100 },
@@ -173,7 +275,7 @@ export function generateClientSpecificationTable(): Table {
                 },
             }),
             new TableCell({
-                children: [new Paragraph({ text: "Browser", style: 'strong' })],
+                children: [new Paragraph({ text: getTemplate('table.browser'), style: 'strong' })],
                 shading: { fill: 'CCCCCC', type: ShadingType.CLEAR },
                 width: { size: 25, type: WidthType.PERCENTAGE },
                 margins: { top: 100, bottom: 100, left: 100, right: 100 },
@@ -185,7 +287,7 @@ export function generateClientSpecificationTable(): Table {
                 },
             }),
             new TableCell({
-                children: [new Paragraph({ text: `${getProductName()} Version`, style: 'strong' })],
+                children: [new Paragraph({ text: getTemplate('clientRequirements.versionHeader'), style: 'strong' })],
                 shading: { fill: 'CCCCCC', type: ShadingType.CLEAR },
                 width: { size: 25, type: WidthType.PERCENTAGE },
                 margins: { top: 100, bottom: 100, left: 100, right: 100 },
@@ -253,38 +355,10 @@ export function generateClientSpecificationTable(): Table {
 }
 
 /**
- * Generate glossary table with technical terms and definitions
+ * Generate glossary table with technical terms and definitions (in the document language)
  */
 export function generateGlossaryTable(): Table {
-    const glossaryItems = [
-        { term: "API", definition: "Application Programming Interface" },
-        { term: "ARM", definition: "Azure Resource Manager" },
-        { term: "CPU", definition: "Central Processing Unit" },
-        { term: "DNS", definition: "Domain Name System" },
-        { term: "DTU", definition: "Database Transaction Unit" },
-        { term: "FS", definition: "Functional Specification" },
-        { term: "GB", definition: "Gigabyte" },
-        { term: "GxP", definition: "Good Practice Guidelines" },
-        { term: "HTTPS", definition: "Hypertext Transfer Protocol Secure" },
-        { term: "IAT", definition: "Infrastructure Acceptance Testing" },
-        { term: "IDS", definition: "Infrastructure Design Specification" },
-        { term: "JSON", definition: "JavaScript Object Notation" },
-        { term: "LRS", definition: "Locally Redundant Storage" },
-        { term: "MB", definition: "Megabyte" },
-        { term: "PaaS", definition: "Platform as a Service" },
-        { term: "RAM", definition: "Random Access Memory" },
-        { term: "REST", definition: "Representational State Transfer" },
-        { term: "SLA", definition: "Service Level Agreement" },
-        { term: "SNI", definition: "Server Name Indication" },
-        { term: "SQL", definition: "Structured Query Language" },
-        { term: "SSL", definition: "Secure Sockets Layer" },
-        { term: "TLS", definition: "Transport Layer Security" },
-        { term: "URL", definition: "Uniform Resource Locator" },
-        { term: "URS", definition: "User Requirements Specification" },
-        { term: "UTC", definition: "Coordinated Universal Time" },
-        { term: "vCore", definition: "Virtual Core" },
-        { term: "VPC", definition: "Virtual Private Cloud" }
-    ];
+    const glossaryItems = getGlossary();
 
     const rows = glossaryItems.map(item => 
         new TableRow({
@@ -319,7 +393,7 @@ export function generateGlossaryTable(): Table {
     const headerRow = new TableRow({
         children: [
             new TableCell({
-                children: [new Paragraph({ text: "Term", style: 'strong' })],
+                children: [new Paragraph({ text: getTemplate('table.term'), style: 'strong' })],
                 shading: { fill: 'CCCCCC', type: ShadingType.CLEAR },
                 width: { size: 20, type: WidthType.PERCENTAGE },
                 margins: { top: 100, bottom: 100, left: 100, right: 100 },
@@ -331,7 +405,7 @@ export function generateGlossaryTable(): Table {
                 },
             }),
             new TableCell({
-                children: [new Paragraph({ text: "Definition", style: 'strong' })],
+                children: [new Paragraph({ text: getTemplate('table.definition'), style: 'strong' })],
                 shading: { fill: 'CCCCCC', type: ShadingType.CLEAR },
                 width: { size: 80, type: WidthType.PERCENTAGE },
                 margins: { top: 100, bottom: 100, left: 100, right: 100 },
@@ -358,22 +432,22 @@ export function generateReferencesTable(): Table {
     const references = [
         { 
             no: "[1]", 
-            title: `Qualification Plan for ${getProductName()} Version ${getVersion()}`,
+            title: getTemplate('references.qualificationPlan'),
             infoCard: `${getProductName().toUpperCase()}-000`
         },
         { 
             no: "[2]", 
-            title: `User Requirements Specification for ${getProductName()}`,
+            title: getTemplate('references.userRequirements'),
             infoCard: `${getProductName().toUpperCase()}-URS-001`
         },
         { 
             no: "[3]", 
-            title: `Functional Specification for ${getProductName()}`,
+            title: getTemplate('references.functionalSpecification'),
             infoCard: `${getProductName().toUpperCase()}-FS-001`
         },
         { 
             no: "[4]", 
-            title: "Microsoft Azure Security and Compliance Documentation",
+            title: getTemplate('references.azureSecurity'),
             infoCard: "MS-AZ-SEC-001"
         }
     ];
@@ -381,7 +455,7 @@ export function generateReferencesTable(): Table {
     const headerRow = new TableRow({
         children: [
             new TableCell({
-                children: [new Paragraph({ text: "No", style: 'strong' })],
+                children: [new Paragraph({ text: getTemplate('table.no'), style: 'strong' })],
                 shading: { fill: 'CCCCCC', type: ShadingType.CLEAR },
                 width: { size: 10, type: WidthType.PERCENTAGE },
                 margins: { top: 100, bottom: 100, left: 100, right: 100 },
@@ -393,7 +467,7 @@ export function generateReferencesTable(): Table {
                 },
             }),
             new TableCell({
-                children: [new Paragraph({ text: "Title", style: 'strong' })],
+                children: [new Paragraph({ text: getTemplate('table.title'), style: 'strong' })],
                 shading: { fill: 'CCCCCC', type: ShadingType.CLEAR },
                 width: { size: 65, type: WidthType.PERCENTAGE },
                 margins: { top: 100, bottom: 100, left: 100, right: 100 },
@@ -405,7 +479,7 @@ export function generateReferencesTable(): Table {
                 },
             }),
             new TableCell({
-                children: [new Paragraph({ text: "Info Card No", style: 'strong' })],
+                children: [new Paragraph({ text: getTemplate('table.infoCard'), style: 'strong' })],
                 shading: { fill: 'CCCCCC', type: ShadingType.CLEAR },
                 width: { size: 25, type: WidthType.PERCENTAGE },
                 margins: { top: 100, bottom: 100, left: 100, right: 100 },
@@ -462,6 +536,395 @@ export function generateReferencesTable(): Table {
     });
 }
 
+/**
+ * Item column of the findings and changes tables, e.g. "General – Memory" (translated)
+ */
+function formatItemLabel(item: { section: string; title: string }): string {
+    return `${translateLabel(item.section)} – ${translateLabel(item.title)}`;
+}
+
+/**
+ * Generate compliance summary table: one row per specification section with pass/fail/missing counts
+ */
+export function generateComplianceSummaryTable(rows: ComplianceSummaryRow[]): Table {
+    const columns = [
+        { header: getTemplate('table.specification'), width: 40 },
+        { header: getTemplate('status.pass'), width: 12 },
+        { header: getTemplate('status.fail'), width: 12 },
+        { header: getTemplate('status.missing'), width: 12 },
+        { header: getTemplate('table.result'), width: 24 },
+    ];
+
+    const dataRows = rows.map(row => {
+        const compliant = row.fail === 0 && row.missing === 0;
+        const values = [translateLabel(row.title), row.pass.toString(), row.fail.toString(), row.missing.toString(), getTemplate(compliant ? 'compliance.compliant' : 'compliance.notCompliant')];
+
+        return new TableRow({
+            children: values.map((value, index) => new TableCell({
+                children: [new Paragraph(value)],
+                shading: index === 4 ? { fill: compliant ? STATUS_FILL.pass : STATUS_FILL.fail, type: ShadingType.CLEAR } : undefined,
+                width: { size: columns[index].width, type: WidthType.PERCENTAGE },
+                margins: { top: 100, bottom: 100, left: 100, right: 100 },
+                borders: {
+                    top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                    bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                    left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                    right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                },
+            }))
+        });
+    });
+
+    return new Table({
+        rows: [generateHeaderRow(columns), ...dataRows],
+        width: { size: 100, type: WidthType.PERCENTAGE },
+    });
+}
+
+/**
+ * Generate table of findings: every row that failed or is missing, grouped by specification section
+ */
+export function generateComplianceFindingsTable(sections: { title: string; data: SpecificationData }[]): Table {
+    const columns = [
+        { header: getTemplate('table.specification'), width: 22 },
+        { header: getTemplate('table.item'), width: 30 },
+        { header: getTemplate('table.expected'), width: 16 },
+        { header: getTemplate('table.actual'), width: 20 },
+        { header: getTemplate('table.status'), width: 12 },
+    ];
+
+    const dataRows = sections.flatMap(section => section.data
+        .filter(item => item.status === 'fail' || item.status === 'missing')
+        .map(item => {
+            const status = getStatusDisplay(item.status!);
+            const values = [translateLabel(section.title), formatItemLabel(item), item.expected ?? '-', formatSpecificationValue(item), status.text];
+
+            return new TableRow({
+                children: values.map((value, index) => new TableCell({
+                    children: [new Paragraph(value)],
+                    shading: index === 4 ? { fill: status.fill, type: ShadingType.CLEAR } : undefined,
+                    width: { size: columns[index].width, type: WidthType.PERCENTAGE },
+                    margins: { top: 100, bottom: 100, left: 100, right: 100 },
+                    borders: {
+                        top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                        bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                        left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                        right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                    },
+                }))
+            });
+        }));
+
+    return new Table({
+        rows: [generateHeaderRow(columns), ...dataRows],
+        width: { size: 100, type: WidthType.PERCENTAGE },
+    });
+}
+
+/**
+ * Generate table of changes since an earlier snapshot, grouped by specification section
+ */
+export function generateSpecificationChangesTable(sections: { title: string; changes?: SpecificationChange[] }[]): Table {
+    const columns = [
+        { header: getTemplate('table.specification'), width: 22 },
+        { header: getTemplate('table.item'), width: 30 },
+        { header: getTemplate('table.change'), width: 12 },
+        { header: getTemplate('table.previous'), width: 18 },
+        { header: getTemplate('table.current'), width: 18 },
+    ];
+
+    const dataRows = sections.flatMap(section => (section.changes || []).map(change => {
+        const values = [
+            translateLabel(section.title),
+            formatItemLabel(change),
+            getTemplate(`change.${change.type}`),
+            change.before ? formatSpecificationValue(change.before) : '-',
+            change.after ? formatSpecificationValue(change.after) : '-'
+        ];
+
+        return new TableRow({
+            children: values.map((value, index) => new TableCell({
+                children: [new Paragraph(value)],
+                width: { size: columns[index].width, type: WidthType.PERCENTAGE },
+                margins: { top: 100, bottom: 100, left: 100, right: 100 },
+                borders: {
+                    top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                    bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                    left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                    right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                },
+            }))
+        });
+    }));
+
+    return new Table({
+        rows: [generateHeaderRow(columns), ...dataRows],
+        width: { size: 100, type: WidthType.PERCENTAGE },
+    });
+}
+
+/**
+ * Generate IAT test step table: one step per specification row.
+ * Actual result and pass/fail are pre-filled from the fetched data; the tester signs and dates each step.
+ * @param stepPrefix Prefix for the step numbers, e.g. "2.1" → steps 2.1.1, 2.1.2, ...
+ */
+export function generateIatTestStepTable(data: SpecificationData, stepPrefix: string): Table {
+    const columns = [
+        { header: getTemplate('table.step'), width: 8 },
+        { header: getTemplate('table.testProcedure'), width: 30 },
+        { header: getTemplate('table.expectedResult'), width: 17 },
+        { header: getTemplate('table.actualResult'), width: 17 },
+        { header: getTemplate('table.passFail'), width: 10 },
+        { header: getTemplate('table.testerDate'), width: 18 },
+    ];
+
+    const dataRows = data.map((item, index) => {
+        const status = item.status && item.status !== 'info' ? getStatusDisplay(item.status) : undefined;
+        const procedure = [
+            new Paragraph(getTemplate('iat.verifyStep', { section: translateLabel(item.section), title: translateLabel(item.title) })),
+            ...(item.source ? [new Paragraph({ children: [new TextRun({ text: getTemplate('iat.checkSource', { source: item.source }), italics: true, size: 18 })] })] : [])
+        ];
+        const cellChildren = [
+            [new Paragraph(`${stepPrefix}.${index + 1}`)],
+            procedure,
+            [new Paragraph(item.expected ?? '-')],
+            [new Paragraph(formatSpecificationValue(item))],
+            [new Paragraph(status?.text || getTemplate('iat.passFailBoxes'))],
+            [new Paragraph('')],
+        ];
+
+        return new TableRow({
+            children: cellChildren.map((children, columnIndex) => new TableCell({
+                children,
+                shading: columnIndex === 4 && status ? { fill: status.fill, type: ShadingType.CLEAR } : undefined,
+                width: { size: columns[columnIndex].width, type: WidthType.PERCENTAGE },
+                margins: { top: 100, bottom: 100, left: 100, right: 100 },
+                borders: {
+                    top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                    bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                    left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                    right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                },
+            }))
+        });
+    });
+
+    return new Table({
+        rows: [generateHeaderRow(columns), ...dataRows],
+        width: { size: 100, type: WidthType.PERCENTAGE },
+    });
+}
+
+/**
+ * Generate revision history table for the title page (oldest revision first)
+ */
+export function generateRevisionHistoryTable(entries: RevisionHistoryEntry[]): Table {
+    const columns = [
+        { header: getTemplate('table.revision'), width: 15 },
+        { header: getTemplate('table.date'), width: 20 },
+        { header: getTemplate('table.description'), width: 65 },
+    ];
+
+    const dataRows = entries.map(entry => new TableRow({
+        children: [entry.revision, formatDate(entry.date), entry.description].map((value, index) => new TableCell({
+            children: [new Paragraph(value)],
+            width: { size: columns[index].width, type: WidthType.PERCENTAGE },
+            margins: { top: 100, bottom: 100, left: 100, right: 100 },
+            borders: {
+                top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+            },
+        }))
+    }));
+
+    return new Table({
+        rows: [generateHeaderRow(columns), ...dataRows],
+        width: { size: 100, type: WidthType.PERCENTAGE },
+    });
+}
+
+/**
+ * Generate document control table for the title page (only the fields that are set)
+ */
+export function generateDocumentControlTable(documentControl: DocumentControl): Table {
+    const fields: [string, string | undefined][] = [
+        [getTemplate('documentControl.documentNumber'), documentControl.documentNumber],
+        [getTemplate('documentControl.revision'), documentControl.revision],
+        [getTemplate('documentControl.effectiveDate'), documentControl.effectiveDate && formatDate(documentControl.effectiveDate)],
+        [getTemplate('documentControl.author'), documentControl.author],
+        [getTemplate('documentControl.reviewer'), documentControl.reviewer],
+        [getTemplate('documentControl.approver'), documentControl.approver],
+    ];
+
+    return new Table({
+        rows: fields
+            .filter(([, value]) => value)
+            .map(([label, value]) => new TableRow({
+                children: [
+                    new TableCell({
+                        children: [new Paragraph({ text: label, style: 'strong' })],
+                        shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
+                        width: { size: 35, type: WidthType.PERCENTAGE },
+                        margins: { top: 100, bottom: 100, left: 100, right: 100 },
+                    }),
+                    new TableCell({
+                        children: [new Paragraph(value!)],
+                        width: { size: 65, type: WidthType.PERCENTAGE },
+                        margins: { top: 100, bottom: 100, left: 100, right: 100 },
+                    }),
+                ]
+            })),
+        width: { size: 100, type: WidthType.PERCENTAGE },
+    });
+}
+
+/**
+ * Generate signature table with one row per role (signature and date - and names not given - are completed by hand)
+ */
+export function generateSignatureTable(signatories: { role: string; name?: string }[]): Table {
+    const columns = [
+        { header: getTemplate('table.role'), width: 25 },
+        { header: getTemplate('table.name'), width: 25 },
+        { header: getTemplate('table.signature'), width: 30 },
+        { header: getTemplate('table.date'), width: 20 },
+    ];
+
+    const dataRows = signatories.map(signatory => new TableRow({
+        children: [signatory.role, signatory.name || '', '', ''].map((value, index) => new TableCell({
+            children: [new Paragraph(value)],
+            width: { size: columns[index].width, type: WidthType.PERCENTAGE },
+            margins: { top: 300, bottom: 300, left: 100, right: 100 },
+            borders: {
+                top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+            },
+        }))
+    }));
+
+    return new Table({
+        rows: [generateHeaderRow(columns), ...dataRows],
+        width: { size: 100, type: WidthType.PERCENTAGE },
+    });
+}
+
+/**
+ * Generate the configuration table: Key | Description | Default Value, with a shaded row per key group.
+ * A Current Value column is added when current values are given; values that differ from the default are highlighted.
+ * Items with a change are redlined like the specification tables.
+ */
+export function generateConfigurationTable(groups: ConfigurationGroup[], compareCurrent: boolean = false): Table {
+    const columns = compareCurrent
+        ? [
+            { header: getTemplate('table.key'), width: 28 },
+            { header: getTemplate('table.description'), width: 36 },
+            { header: getTemplate('table.defaultValue'), width: 18 },
+            { header: getTemplate('table.currentValue'), width: 18 },
+        ]
+        : [
+            { header: getTemplate('table.key'), width: 30 },
+            { header: getTemplate('table.description'), width: 45 },
+            { header: getTemplate('table.defaultValue'), width: 25 },
+        ];
+
+    const bodyBorders = {
+        top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+        bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+        left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+        right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+    };
+
+    const dataRows = groups.flatMap(group => [
+        // Group row spanning all columns
+        new TableRow({
+            children: [new TableCell({
+                children: [new Paragraph({ text: translateLabel(group.name), style: 'strong' })],
+                columnSpan: columns.length,
+                shading: { fill: 'D9D9D9', type: ShadingType.CLEAR }, // Light gray background
+                margins: { top: 100, bottom: 100, left: 100, right: 100 },
+                borders: bodyBorders,
+            })]
+        }),
+        ...group.items.map(item => {
+            const changed = compareCurrent && item.currentValue !== undefined && item.currentValue !== item.defaultValue;
+            const rowChange = item.change === 'changed' ? undefined : item.change;
+            const cells = [
+                [generateRedlineRun(item.key, rowChange)],
+                [generateRedlineRun(item.description || '-', rowChange)],
+                item.change === 'changed'
+                    ? [generateRedlineRun(item.previousDefault || '-', 'removed'), new TextRun(' '), generateRedlineRun(item.defaultValue || '-', 'added')]
+                    : [generateRedlineRun(item.defaultValue || '-', rowChange)]
+            ];
+            if (compareCurrent) cells.push([new TextRun({ text: item.currentValue ?? '-', bold: changed })]);
+
+            return new TableRow({
+                children: cells.map((runs, index) => new TableCell({
+                    children: [new Paragraph({ children: runs })],
+                    shading: changed && index === 3 ? { fill: STATUS_FILL.missing, type: ShadingType.CLEAR } : undefined,
+                    width: { size: columns[index].width, type: WidthType.PERCENTAGE },
+                    margins: { top: 100, bottom: 100, left: 100, right: 100 },
+                    borders: bodyBorders,
+                }))
+            });
+        })
+    ]);
+
+    return new Table({
+        rows: [generateHeaderRow(columns), ...dataRows],
+        width: { size: 100, type: WidthType.PERCENTAGE },
+    });
+}
+
+/**
+ * Generate a table with equal-width columns from authored content (e.g. a Markdown table)
+ */
+export function generateContentTable(headers: string[], rows: Paragraph[][]): Table {
+    const width = Math.floor(100 / Math.max(headers.length, 1));
+    const columns = headers.map(header => ({ header, width }));
+
+    const dataRows = rows.map(row => new TableRow({
+        children: columns.map((_, index) => new TableCell({
+            children: [row[index] || new Paragraph('')],
+            width: { size: width, type: WidthType.PERCENTAGE },
+            margins: { top: 100, bottom: 100, left: 100, right: 100 },
+            borders: {
+                top: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                bottom: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                left: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+                right: { style: BorderStyle.SINGLE, size: 1, color: "000000" },
+            },
+        }))
+    }));
+
+    return new Table({
+        rows: [generateHeaderRow(columns), ...dataRows],
+        width: { size: 100, type: WidthType.PERCENTAGE },
+    });
+}
+
+/**
+ * Shared header row (bold text, medium gray background) for tables with a column list
+ */
+function generateHeaderRow(columns: { header: string; width: number }[]): TableRow {
+    return new TableRow({
+        children: columns.map(column => new TableCell({
+            children: [new Paragraph({ text: column.header, style: 'strong' })],
+            shading: { fill: 'CCCCCC', type: ShadingType.CLEAR }, // Medium gray background
+            width: { size: column.width, type: WidthType.PERCENTAGE },
+            margins: { top: 100, bottom: 100, left: 100, right: 100 },
+            borders: {
+                top: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
+                bottom: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
+                left: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
+                right: { style: BorderStyle.SINGLE, size: 2, color: "000000" },
+            },
+        }))
+    });
+}
+
 /**
  * Helper function to organize specification data by section
  * 
@@ -489,7 +952,7 @@ export function generateReferencesTable(): Table {
  * @param data - Array of specification items from JSON file
  * @returns Object with section names as keys and arrays of specifications as values
  */
-function groupBySection(data: SpecificationData): Record<string, SpecificationData> {
+export function groupBySection(data: SpecificationData): Record<string, SpecificationData> {
     return data.reduce((acc, item) => {
         // If this section doesn't exist in our accumulator, create it
         if (!acc[item.section]) {
@@ -0,0 +1,118 @@
+/**
+ * NEW FILE: src/doc-generators/utils/templates.ts
+ * Text templates: {{name}} variables and {{#if}} conditionals for all boilerplate wording
+ */
+
+import { CONFIG, getProductName, getVersion, getsiteName, getEnvironment, getdocumentType, getDocumentCustomization, getEnvironmentConfig } from '../../config';
+import { DocumentOutline } from './document-outline';
+import { EN } from '../../i18n/en';
+import { getCatalog } from '../../i18n/catalogs';
+
+/**
+ * Default (English) wording of the generated documents. Projects override any entry with `templates`
+ * in the config file; other languages are in src/i18n.
+ */
+export const DEFAULT_TEMPLATES: Record<string, string> = EN.messages;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const CONDITIONAL_PATTERN = /\{\{\s*(?:#if\s+([^}]+?)|(else)|(\/if))\s*\}\}/g;
+
+/**
+ * Variables available to every template and Markdown chapter, e.g. {{productName}},
+ * {{environmentPurpose}} or {{section.overview}} (number of an outline entry)
+ */
+export function getTemplateVariables(outline?: DocumentOutline): Record<string, string> {
+    const environment = getEnvironmentConfig();
+    const sectionNumbers = Object.fromEntries((outline?.getEntries() || []).map(entry => [`section.${entry.id}`, entry.number]));
+
+    return {
+        productName: getProductName(),
+        version: getVersion(),
+        siteName: getsiteName(),
+        environment: getEnvironment(),
+        environmentName: environment.name,
+        environmentDescription: environment.description,
+        environmentPurpose: environment.purpose,
+        documentType: getdocumentType(),
+        architectureDiagramPath: getDocumentCustomization().architectureDiagramPath,
+        companyLogoPath: getDocumentCustomization().companyLogoPath,
+        ...CONFIG.templateVariables,
+        ...sectionNumbers
+    };
+}
+
+/**
+ * Evaluate an {{#if}} condition: `name` (set and not "false"), `name == "value"` or `name != "value"`
+ */
+function evaluateCondition(condition: string, variables: Record<string, string>): boolean {
+    const comparison = /^([\w.-]+)\s*(==|!=)\s*(?:"([^"]*)"|'([^']*)'|([\w.-]+))$/.exec(condition.trim());
+    if (comparison) {
+        const [, name, operator, doubleQuoted, singleQuoted, bare] = comparison;
+        const equal = (variables[name] ?? '') === (doubleQuoted ?? singleQuoted ?? bare);
+        return operator === '==' ? equal : !equal;
+    }
+
+    if (!/^[\w.-]+$/.test(condition.trim())) {
+        throw new Error(`Invalid template condition: {{#if ${condition}}}`);
+    }
+    const value = variables[condition.trim()];
+    return value !== undefined && value !== '' && value !== 'false';
+}
+
+/**
+ * Keep the branches of {{#if}} ... {{else}} ... {{/if}} blocks whose condition holds (blocks may be nested)
+ */
+function applyConditionals(text: string, variables: Record<string, string>): string {
+    const branches: { condition: boolean; active: boolean }[] = [];
+    const isActive = () => branches.every(branch => branch.active);
+    let result = '';
+    let position = 0;
+
+    for (const match of text.matchAll(CONDITIONAL_PATTERN)) {
+        if (isActive()) result += text.substring(position, match.index);
+        position = match.index! + match[0].length;
+
+        const [, condition, elseTag] = match;
+        if (condition !== undefined) {
+            const holds = evaluateCondition(condition, variables);
+            branches.push({ condition: holds, active: holds });
+        } else if (elseTag) {
+            if (branches.length === 0) throw new Error('Template has {{else}} without {{#if}}');
+            const branch = branches[branches.length - 1];
+            branch.active = !branch.condition;
+        } else {
+            if (branches.length === 0) throw new Error('Template has {{/if}} without {{#if}}');
+            branches.pop();
+        }
+    }
+
+    if (branches.length > 0) throw new Error('Template has {{#if}} without {{/if}}');
+    return isActive() ? result + text.substring(position) : result;
+}
+
+/**
+ * Render a template: conditionals first, then every {{name}} is replaced with its value.
+ * Unknown names are left in place and reported to `onUnknown`.
+ */
+export function renderTemplate(text: string, variables: Record<string, string>, onUnknown?: (name: string) => void): string {
+    return applyConditionals(text, variables).replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+        if (name in variables) return variables[name];
+        onUnknown?.(name);
+        return placeholder;
+    });
+}
+
+/**
+ * Text of a named template (project override, then the document language, then English)
+ * with the current variables filled in
+ * @param variables Extra variables for this use, e.g. { documentTitle }
+ */
+export function getTemplate(key: string, variables: Record<string, string> = {}): string {
+    const template = CONFIG.templates?.[key] ?? getCatalog().messages[key] ?? DEFAULT_TEMPLATES[key];
+    if (template === undefined) {
+        throw new Error(`Unknown template: ${key}`);
+    }
+
+    return renderTemplate(template, { ...getTemplateVariables(), ...variables }, name =>
+        console.warn(`⚠️  Unknown variable {{${name}}} in template ${key}`));
+}
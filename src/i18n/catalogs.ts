@@ -0,0 +1,69 @@
+/**
+ * NEW FILE: src/i18n/catalogs.ts
+ * Message catalogs for the document languages: wording, glossary definitions, fetcher labels and dates
+ */
+
+import { CONFIG } from '../config';
+import { DocumentLocale } from '../types';
+import { EN } from './en';
+import { DE } from './de';
+import { TH } from './th';
+
+/**
+ * Everything the generated documents say in one language
+ */
+export interface MessageCatalog {
+    dateLocale: string;               // Intl locale used for dates, e.g. 'de-DE'
+    messages: Record<string, string>; // Template key → wording (see DEFAULT_TEMPLATES for the English keys)
+    glossary: Record<string, string>; // Glossary term → definition
+    labels: Record<string, string>;   // English section/title emitted by a fetcher → translation
+}
+
+export const CATALOGS: Record<DocumentLocale, MessageCatalog> = { en: EN, de: DE, th: TH };
+
+export const DOCUMENT_LOCALES = Object.keys(CATALOGS) as DocumentLocale[];
+
+// Dates are shown as day, abbreviated month and year, e.g. "31 Jan 2025" or "31. Jan. 2025"
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' };
+
+/**
+ * Catalog of the document language (CONFIG.locale, default English)
+ */
+export function getCatalog(locale: DocumentLocale = CONFIG.locale || 'en'): MessageCatalog {
+    const catalog = CATALOGS[locale];
+    if (!catalog) {
+        throw new Error(`Unknown locale: ${locale} (use ${DOCUMENT_LOCALES.join(', ')})`);
+    }
+    return catalog;
+}
+
+/**
+ * Translate a section or specification title emitted by a fetcher.
+ * The data files keep the English text so baselines and snapshots match in every language.
+ */
+export function translateLabel(text: string): string {
+    return getCatalog().labels[text] ?? text;
+}
+
+/**
+ * Glossary terms (in English order) with their definitions in the document language
+ */
+export function getGlossary(): { term: string; definition: string }[] {
+    const definitions = getCatalog().glossary;
+    return Object.entries(EN.glossary).map(([term, definition]) => ({ term, definition: definitions[term] ?? definition }));
+}
+
+/**
+ * Format an ISO date (YYYY-MM-DD, optionally with a time) for the document language.
+ * Anything else, e.g. "<see Cover Sheet>" or a date typed in by hand, is shown as given.
+ */
+export function formatDate(value: string): string {
+    const match = /^(\d{4})-(\d{2})-(\d{2})(?:T[\d:.]+Z?)?$/.exec(value.trim());
+    if (!match) return value;
+
+    const [, year, month, day] = match;
+    const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    if (date.getUTCDate() !== Number(day)) return value;
+
+    return new Intl.DateTimeFormat(getCatalog().dateLocale, DATE_FORMAT).format(date);
+}
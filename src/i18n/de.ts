@@ -0,0 +1,244 @@
+/**
+ * NEW FILE: src/i18n/de.ts
+ * German message catalog (missing entries fall back to English)
+ */
+
+import type { MessageCatalog } from './catalogs';
+
+export const DE: MessageCatalog = {
+    dateLocale: 'de-DE',
+    messages: {
+        // Title page, header and fixed pages
+        'titlePage.subtitle': '{{documentTitle}} für {{productName}} Version {{version}}',
+        'titlePage.environment': '{{siteName}} - {{environmentName}}-Umgebung',
+        'titlePage.documentTitle': 'Infrastruktur-Designspezifikation',
+        'titlePage.revisionHistory': 'Revisionshistorie',
+        'header.title': '{{documentType}} für {{productName}} Version {{version}}',
+        'header.documentNumber': 'Dok.-Nr.: {{documentNumber}}',
+        'header.revision': 'Revision: {{revision}}',
+        'header.effectiveDate': 'Gültig ab: {{effectiveDate}}',
+        'header.seeCoverSheet': '<siehe Deckblatt>',
+        'tableOfContents.title': 'INHALTSVERZEICHNIS',
+        'approval.title': 'DOKUMENTFREIGABE',
+        'approval.statement': 'Mit ihrer Unterschrift bestätigen die Unterzeichnenden, dass sie {{#if revision}}Revision {{revision}} dieses Dokuments{{else}}dieses Dokument{{/if}} geprüft haben und dass es die Infrastrukturanforderungen korrekt spezifiziert.',
+        'documentControl.documentNumber': 'Dokumentnummer',
+        'documentControl.revision': 'Revision',
+        'documentControl.effectiveDate': 'Gültig ab',
+        'documentControl.author': 'Autor',
+        'documentControl.reviewer': 'Prüfer',
+        'documentControl.approver': 'Freigeber',
+
+        // Chapter and subsection titles
+        'outline.specifications': 'HARDWARE-, SOFTWARE- UND ANWENDUNGSDESIGN-SPEZIFIKATIONEN',
+        'outline.clientRequirements': 'Anforderungen an die Clients',
+        'outline.complianceSummary': 'Zusammenfassung der Konformität',
+        'outline.changesSinceRevision': 'Änderungen seit Revision {{revision}}',
+        'outline.glossary': 'GLOSSAR',
+        'outline.references': 'REFERENZEN',
+        'outline.iat.introduction': 'EINLEITUNG',
+        'outline.iat.purposeAndScope': 'Zweck und Geltungsbereich dieses Dokuments',
+        'outline.iat.testExecution': 'Testdurchführung',
+        'outline.iat.testScripts': 'TESTSKRIPTE',
+        'outline.iat.signOff': 'TESTZUSAMMENFASSUNG UND FREIGABE',
+
+        // Technical specifications
+        'specifications.introduction': 'Dieser Abschnitt spezifiziert die virtuelle und physische Infrastruktur, die vom Cloud-Dienstanbieter bereitgestellt, gewartet und verwaltet wird. Dies sind die Mindestanforderungen, um die Anwendung {{productName}} für die in URS und FS definierten Nutzungsanforderungen einzurichten und zu betreiben.',
+        'specifications.scaling': 'Die bereitgestellte virtuelle und physische Infrastruktur ist entsprechend der von den Clients/Benutzern von {{productName}} benötigten Nutzung und Kapazität so zu skalieren, dass stets mehr Ressourcen verfügbar sind als benötigt werden.',
+        'specifications.redlineLegend': 'Änderungen seit Revision {{revision}} sind gekennzeichnet: ',
+        'specifications.redlineRemoved': 'entfernte Werte sind durchgestrichen',
+        'specifications.redlineAnd': ' und ',
+        'specifications.redlineAdded': 'neue Werte sind unterstrichen',
+        'clientRequirements.versionHeader': '{{productName}}-Version',
+        'compliance.introduction': 'Die von Azure gemeldeten Werte wurden mit den Werten verglichen, die die freigegebene Baseline der Infrastruktur-Designspezifikation vorschreibt. ',
+        'compliance.result': '{{pass}} von {{checked}} geprüften Spezifikationen sind konform',
+        'compliance.failures': '; {{fail}} nicht bestanden und {{missing}} nicht gefunden.',
+        'compliance.deviations': 'Abweichungen von der Baseline:',
+        'compliance.compliant': 'Konform',
+        'compliance.notCompliant': 'Nicht konform',
+        'configuration.comparison': '{{changed}} von {{total}} Konfigurationseinstellungen weichen vom Standardwert ab (hervorgehoben).',
+        'changes.none': 'Seit Revision {{revision}} hat sich keine Spezifikation geändert.',
+        'changes.introduction': 'Die folgenden Spezifikationen weichen von Revision {{revision}} ab: ',
+        'changes.counts': '{{changed}} geändert, {{added}} hinzugefügt und {{removed}} entfernt',
+
+        // References
+        'references.qualificationPlan': 'Qualifizierungsplan für {{productName}} Version {{version}}',
+        'references.userRequirements': 'Lastenheft (User Requirements Specification) für {{productName}}',
+        'references.functionalSpecification': 'Funktionale Spezifikation für {{productName}}',
+        'references.azureSecurity': 'Microsoft Azure-Dokumentation zu Sicherheit und Compliance',
+
+        // Table headers and cell values
+        'table.section': 'Abschnitt',
+        'table.specification': 'Spezifikation',
+        'table.value': 'Wert',
+        'table.expected': 'Soll',
+        'table.status': 'Status',
+        'table.dataNotAvailable': 'Keine Daten verfügbar',
+        'table.source': 'Quelle: {{source}}',
+        'table.clientName': 'Client-Name',
+        'table.operatingSystem': 'Betriebssystem (OS)',
+        'table.browser': 'Browser',
+        'table.term': 'Begriff',
+        'table.definition': 'Definition',
+        'table.no': 'Nr.',
+        'table.title': 'Titel',
+        'table.infoCard': 'Info-Card-Nr.',
+        'table.result': 'Ergebnis',
+        'table.item': 'Element',
+        'table.actual': 'Ist',
+        'table.change': 'Änderung',
+        'table.previous': 'Vorher',
+        'table.current': 'Aktuell',
+        'table.step': 'Schritt',
+        'table.testProcedure': 'Testverfahren',
+        'table.expectedResult': 'Erwartetes Ergebnis',
+        'table.actualResult': 'Tatsächliches Ergebnis',
+        'table.passFail': 'Bestanden / Nicht bestanden',
+        'table.testerDate': 'Tester / Datum',
+        'table.revision': 'Revision',
+        'table.date': 'Datum',
+        'table.description': 'Beschreibung',
+        'table.key': 'Schlüssel',
+        'table.defaultValue': 'Standardwert',
+        'table.currentValue': 'Aktueller Wert',
+        'table.role': 'Rolle',
+        'table.name': 'Name',
+        'table.signature': 'Unterschrift',
+        'status.pass': 'Bestanden',
+        'status.fail': 'Nicht bestanden',
+        'status.missing': 'Fehlt',
+        'status.info': 'Info',
+        'change.added': 'Hinzugefügt',
+        'change.removed': 'Entfernt',
+        'change.changed': 'Geändert',
+
+        // IAT document
+        'iat.documentType': 'Infrastruktur-Abnahmetest',
+        'iat.purpose': 'Dieser Infrastruktur-Abnahmetest (IAT) verifiziert, dass die Infrastruktur der {{environment}}-Umgebung von {{productName}} für {{siteName}} wie in der freigegebenen Infrastruktur-Designspezifikation (IDS) spezifiziert bereitgestellt wurde. Jeder Testschritt entspricht einer Spezifikation der IDS.',
+        'iat.precondition': 'Alle Testschritte müssen ausgeführt und bestanden sein, bevor die Installation und das Testen der Anwendung beginnen.',
+        'iat.executionIntroduction': 'Die tatsächlichen Ergebnisse wurden mit der Konfiguration vorausgefüllt, die Microsoft Azure zum Zeitpunkt der Dokumenterstellung gemeldet hat. Für jeden Schritt muss der Tester:',
+        'iat.executionStepVerify': 'a) das tatsächliche Ergebnis im Azure-Portal oder anhand der angegebenen Eigenschaft prüfen,',
+        'iat.executionStepCorrect': 'b) das tatsächliche Ergebnis korrigieren, falls es vom vorausgefüllten Wert abweicht,',
+        'iat.executionStepMark': 'c) den Schritt als Bestanden markieren, wenn das tatsächliche Ergebnis dem erwarteten Ergebnis entspricht, andernfalls als Nicht bestanden,',
+        'iat.executionStepInitial': 'd) den Schritt in der Spalte Tester / Datum abzeichnen und datieren.',
+        'iat.failedSteps': 'Nicht bestandene Schritte sind in Abschnitt {{signOffSection}} als Abweichungen zu dokumentieren und vor der Freigabe des IAT zu beheben.',
+        'iat.objectiveLabel': 'Ziel: ',
+        'iat.objective': 'Prüfen, dass „{{title}}“ der freigegebenen Infrastruktur-Designspezifikation entspricht.',
+        'iat.verifyStep': 'Prüfen: {{section}} – {{title}}',
+        'iat.checkSource': 'Prüfung: {{source}}',
+        'iat.passFailBoxes': '☐ Bestanden  ☐ Nicht bestanden',
+        'iat.summary': 'Dieser IAT enthält {{steps}} Testschritte in {{scripts}} Testskripten. ',
+        'iat.prefilled': 'Aus der Prüfung gegen die IDS-Baseline wurden {{passed}} Schritte als bestanden und {{failed}} als nicht bestanden vorausgefüllt; die übrigen Schritte bewertet der Tester.',
+        'iat.testerEvaluated': 'Alle Schritte werden vom Tester bewertet.',
+        'iat.deviations': 'Abweichungen:',
+        'iat.signOffStatement': 'Mit ihrer Unterschrift bestätigen die Unterzeichnenden, dass die Testschritte wie beschrieben ausgeführt wurden und die aufgezeichneten Ergebnisse korrekt sind.',
+        'iat.executedBy': 'Ausgeführt von',
+        'iat.reviewedBy': 'Geprüft von',
+        'iat.approvedBy': 'Freigegeben von',
+
+        // Excel workbook summary sheet
+        'workbook.summary': 'Übersicht',
+        'workbook.product': 'Produkt',
+        'workbook.site': 'Standort',
+        'workbook.environment': 'Umgebung',
+        'workbook.generated': 'Erstellt',
+        'workbook.resource': 'Ressource',
+        'workbook.resourceGroup': 'Ressourcengruppe'
+    },
+    glossary: {
+        'API': 'Programmierschnittstelle (Application Programming Interface)',
+        'CPU': 'Hauptprozessor (Central Processing Unit)',
+        'DNS': 'Domain-Namensystem (Domain Name System)',
+        'DTU': 'Datenbanktransaktionseinheit (Database Transaction Unit)',
+        'FS': 'Funktionale Spezifikation (Functional Specification)',
+        'GxP': 'Richtlinien der Guten Praxis (Good Practice Guidelines)',
+        'HTTPS': 'Sicheres Hypertext-Übertragungsprotokoll (Hypertext Transfer Protocol Secure)',
+        'IAT': 'Infrastruktur-Abnahmetest (Infrastructure Acceptance Testing)',
+        'IDS': 'Infrastruktur-Designspezifikation (Infrastructure Design Specification)',
+        'LRS': 'Lokal redundanter Speicher (Locally Redundant Storage)',
+        'PaaS': 'Plattform als Dienstleistung (Platform as a Service)',
+        'RAM': 'Arbeitsspeicher (Random Access Memory)',
+        'SLA': 'Dienstgütevereinbarung (Service Level Agreement)',
+        'SQL': 'Strukturierte Abfragesprache (Structured Query Language)',
+        'TLS': 'Transportschichtsicherheit (Transport Layer Security)',
+        'URL': 'Einheitlicher Ressourcenzeiger (Uniform Resource Locator)',
+        'URS': 'Lastenheft (User Requirements Specification)',
+        'UTC': 'Koordinierte Weltzeit (Coordinated Universal Time)',
+        'vCore': 'Virtueller Kern (Virtual Core)',
+        'VPC': 'Virtuelle private Cloud (Virtual Private Cloud)'
+    },
+    labels: {
+        // Specification sections (CONFIG.documentSections and fetcher defaults)
+        'Web Server Specification': 'Webserver-Spezifikation',
+        'SQL Azure Database Specification': 'SQL Azure-Datenbankspezifikation',
+        'Redis Cache Specification': 'Redis Cache-Spezifikation',
+        'Azure Storage Specification': 'Azure Storage-Spezifikation',
+        'Performance Monitoring': 'Leistungsüberwachung',
+
+        // Sections within a specification table
+        'Advanced settings': 'Erweiterte Einstellungen',
+        'Configuration': 'Konfiguration',
+        'Data Management': 'Datenverwaltung',
+        'Default Configuration': 'Standardkonfiguration',
+        'General settings': 'Allgemeine Einstellungen',
+        'General': 'Allgemein',
+        'Incoming client certificates': 'Eingehende Clientzertifikate',
+        'Monitoring': 'Überwachung',
+        'Platform settings': 'Plattformeinstellungen',
+        'Resource Groups': 'Ressourcengruppen',
+        'Security': 'Sicherheit',
+        'Services': 'Dienste',
+
+        // Specification titles
+        'Access Keys': 'Zugriffsschlüssel',
+        'Access Tier': 'Zugriffsebene',
+        'Account Kind': 'Kontoart',
+        'Allow Blob public access': 'Öffentlichen Blobzugriff zulassen',
+        'Allow access only via SSL': 'Zugriff nur über SSL zulassen',
+        'Always on': 'Immer eingeschaltet',
+        'Application Logs': 'Anwendungsprotokolle',
+        'Backup schedule': 'Sicherungszeitplan',
+        'Change access level': 'Zugriffsebene ändern',
+        'Client certificate mode': 'Clientzertifikatmodus',
+        'Connections': 'Verbindungen',
+        'Cross-Resource-Group Setup': 'Ressourcengruppenübergreifende Einrichtung',
+        'Custom domain': 'Benutzerdefinierte Domäne',
+        'Data backup': 'Datensicherung',
+        'Destination details': 'Zieldetails',
+        'Diagnostic settings': 'Diagnoseeinstellungen',
+        'Encryption in transit': 'Verschlüsselung während der Übertragung',
+        'Encryption type': 'Verschlüsselungstyp',
+        'FTP state': 'FTP-Status',
+        'Geo-Replication': 'Georeplikation',
+        'Geographical Location': 'Geografischer Standort',
+        'HTTP version': 'HTTP-Version',
+        'HTTPS Only': 'Nur HTTPS',
+        'Large file shares': 'Große Dateifreigaben',
+        'Local replica': 'Lokales Replikat',
+        'Location': 'Standort',
+        'Maxmemory policy': 'Maxmemory-Richtlinie',
+        'Memory': 'Arbeitsspeicher',
+        'Minimum TLS Version': 'Minimale TLS-Version',
+        'Minimum TLS version': 'Minimale TLS-Version',
+        'Non-SSL Port': 'Nicht-SSL-Port',
+        'Number of Azure Compute Units': 'Anzahl der Azure-Compute-Einheiten',
+        'Number of DTUs': 'Anzahl der DTUs',
+        'Performance': 'Leistung',
+        'Platform': 'Plattform',
+        'Pricing Tier': 'Tarif',
+        'Primary Resource Group': 'Primäre Ressourcengruppe',
+        'Redis Resource Group': 'Redis-Ressourcengruppe',
+        'Redis Version': 'Redis-Version',
+        'Replicas': 'Replikate',
+        'Replication': 'Replikation',
+        'SQL Resource Group': 'SQL-Ressourcengruppe',
+        'SQL Server – Auditing logs': 'SQL Server – Überwachungsprotokolle',
+        'SSL Port': 'SSL-Port',
+        'Scale out': 'Horizontal skalieren',
+        'Secure transfer required': 'Sichere Übertragung erforderlich',
+        'Stack and version': 'Stapel und Version',
+        'Transparent data encryption': 'Transparente Datenverschlüsselung',
+        'Web App Resource Group': 'Web-App-Ressourcengruppe',
+        'Web server logging': 'Webserverprotokollierung',
+        'Web sockets': 'Websockets'
+    }
+};
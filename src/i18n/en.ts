@@ -0,0 +1,179 @@
+/**
+ * NEW FILE: src/i18n/en.ts
+ * English message catalog - the default wording and the fallback for every other language
+ */
+
+import type { MessageCatalog } from './catalogs';
+
+export const EN: MessageCatalog = {
+    dateLocale: 'en-GB',
+    messages: {
+        // Title page, header and fixed pages
+        'titlePage.subtitle': '{{documentTitle}} for {{productName}} Version {{version}}',
+        'titlePage.environment': '{{siteName}} - {{environmentName}} Environment',
+        'titlePage.documentTitle': 'Infrastructure Design Specification',
+        'titlePage.revisionHistory': 'Revision History',
+        'header.title': '{{documentType}} for {{productName}} Version {{version}}',
+        'header.documentNumber': 'Doc. No.: {{documentNumber}}',
+        'header.revision': 'Revision: {{revision}}',
+        'header.effectiveDate': 'Effective Date: {{effectiveDate}}',
+        'header.seeCoverSheet': '<see Cover Sheet>',
+        'tableOfContents.title': 'TABLE OF CONTENTS',
+        'approval.title': 'DOCUMENT APPROVAL',
+        'approval.statement': 'By signing below, the signatories confirm that they have {{#if revision}}reviewed revision {{revision}} of{{else}}reviewed{{/if}} this document and that it accurately specifies the infrastructure requirements.',
+        'documentControl.documentNumber': 'Document Number',
+        'documentControl.revision': 'Revision',
+        'documentControl.effectiveDate': 'Effective Date',
+        'documentControl.author': 'Author',
+        'documentControl.reviewer': 'Reviewer',
+        'documentControl.approver': 'Approver',
+
+        // Chapter and subsection titles
+        'outline.specifications': 'HARDWARE, SOFTWARE AND APPLICATIONS DESIGN SPECIFICATIONS',
+        'outline.clientRequirements': 'Client Specification Requirements',
+        'outline.complianceSummary': 'Compliance Summary',
+        'outline.changesSinceRevision': 'Changes Since Revision {{revision}}',
+        'outline.glossary': 'GLOSSARY',
+        'outline.references': 'REFERENCES',
+        'outline.iat.introduction': 'INTRODUCTION',
+        'outline.iat.purposeAndScope': 'Purpose and Scope of this Document',
+        'outline.iat.testExecution': 'Test Execution',
+        'outline.iat.testScripts': 'TEST SCRIPTS',
+        'outline.iat.signOff': 'TEST SUMMARY AND SIGN-OFF',
+
+        // Technical specifications
+        'specifications.introduction': 'This section specifies the virtual and physical infrastructure to be provided, maintained, and managed by the cloud service provider. These are the minimum requirements to setup and run the {{productName}} application for the usage requirement as defined in the in the URS and FS.',
+        'specifications.scaling': "The virtual and physical infrastructure deployed shall be scaled according to the usage and capacity required by {{productName}}'s clients/users in such a way that there will always be more resources available than demand.",
+        'specifications.redlineLegend': 'Changes since revision {{revision}} are marked: ',
+        'specifications.redlineRemoved': 'removed values are struck through',
+        'specifications.redlineAnd': ' and ',
+        'specifications.redlineAdded': 'new values are underlined',
+        'clientRequirements.versionHeader': '{{productName}} Version',
+        'clientRequirements.operatingSystems': 'Windows, macOS',
+        'clientRequirements.browsers': 'Google Chrome, Microsoft Edge, Firefox',
+        'compliance.introduction': 'The values reported by Azure were compared against the values required by the approved Infrastructure Design Specification baseline. ',
+        'compliance.result': '{{pass}} of {{checked}} checked specifications comply',
+        'compliance.failures': '; {{fail}} failed and {{missing}} could not be found.',
+        'compliance.deviations': 'Deviations from the baseline:',
+        'compliance.compliant': 'Compliant',
+        'compliance.notCompliant': 'Not compliant',
+        'configuration.comparison': '{{changed}} of {{total}} configuration settings differ from their default value (highlighted).',
+        'changes.none': 'No specification has changed since revision {{revision}}.',
+        'changes.introduction': 'The specifications below differ from revision {{revision}}: ',
+        'changes.counts': '{{changed}} changed, {{added}} added and {{removed}} removed',
+
+        // References
+        'references.qualificationPlan': 'Qualification Plan for {{productName}} Version {{version}}',
+        'references.userRequirements': 'User Requirements Specification for {{productName}}',
+        'references.functionalSpecification': 'Functional Specification for {{productName}}',
+        'references.azureSecurity': 'Microsoft Azure Security and Compliance Documentation',
+
+        // Table headers and cell values
+        'table.section': 'Section',
+        'table.specification': 'Specification',
+        'table.value': 'Value',
+        'table.expected': 'Expected',
+        'table.status': 'Status',
+        'table.dataNotAvailable': 'Data not available',
+        'table.source': 'Source: {{source}}',
+        'table.clientName': 'Client Name',
+        'table.operatingSystem': 'Operating System (OS)',
+        'table.browser': 'Browser',
+        'table.term': 'Term',
+        'table.definition': 'Definition',
+        'table.no': 'No',
+        'table.title': 'Title',
+        'table.infoCard': 'Info Card No',
+        'table.result': 'Result',
+        'table.item': 'Item',
+        'table.actual': 'Actual',
+        'table.change': 'Change',
+        'table.previous': 'Previous',
+        'table.current': 'Current',
+        'table.step': 'Step',
+        'table.testProcedure': 'Test Procedure',
+        'table.expectedResult': 'Expected Result',
+        'table.actualResult': 'Actual Result',
+        'table.passFail': 'Pass / Fail',
+        'table.testerDate': 'Tester / Date',
+        'table.revision': 'Revision',
+        'table.date': 'Date',
+        'table.description': 'Description',
+        'table.key': 'Key',
+        'table.defaultValue': 'Default Value',
+        'table.currentValue': 'Current Value',
+        'table.role': 'Role',
+        'table.name': 'Name',
+        'table.signature': 'Signature',
+        'status.pass': 'Pass',
+        'status.fail': 'Fail',
+        'status.missing': 'Missing',
+        'status.info': 'Info',
+        'change.added': 'Added',
+        'change.removed': 'Removed',
+        'change.changed': 'Changed',
+
+        // IAT document
+        'iat.documentType': 'Infrastructure Acceptance Test',
+        'iat.purpose': "This Infrastructure Acceptance Test (IAT) verifies that the infrastructure of {{productName}}'s {{environment}} environment for {{siteName}} has been provisioned as specified in the approved Infrastructure Design Specification (IDS). Each test step corresponds to one specification in the IDS.",
+        'iat.precondition': 'All test steps shall be executed and passed before installation and testing of the application starts.',
+        'iat.executionIntroduction': 'The actual results have been pre-filled with the configuration reported by Microsoft Azure at the time this document was generated. For each step the tester shall:',
+        'iat.executionStepVerify': 'a) verify the actual result in the Azure portal or with the referenced property,',
+        'iat.executionStepCorrect': 'b) correct the actual result if it differs from the pre-filled value,',
+        'iat.executionStepMark': 'c) mark the step as Pass when the actual result meets the expected result, otherwise as Fail,',
+        'iat.executionStepInitial': 'd) initial and date the step in the Tester / Date column.',
+        'iat.failedSteps': 'Failed steps shall be recorded as deviations in Section {{signOffSection}} and resolved before the IAT is approved.',
+        'iat.objectiveLabel': 'Objective: ',
+        'iat.objective': 'Verify that the {{title}} matches the approved Infrastructure Design Specification.',
+        'iat.verifyStep': 'Verify {{section}} – {{title}}',
+        'iat.checkSource': 'Check: {{source}}',
+        'iat.passFailBoxes': '☐ Pass  ☐ Fail',
+        'iat.summary': 'This IAT contains {{steps}} test steps in {{scripts}} test scripts. ',
+        'iat.prefilled': '{{passed}} steps were pre-filled as passed and {{failed}} as failed from the IDS baseline check; the remaining steps are evaluated by the tester.',
+        'iat.testerEvaluated': 'All steps are evaluated by the tester.',
+        'iat.deviations': 'Deviations:',
+        'iat.signOffStatement': 'By signing below, the signatories confirm that the test steps were executed as described and that the recorded results are accurate.',
+        'iat.executedBy': 'Executed by',
+        'iat.reviewedBy': 'Reviewed by',
+        'iat.approvedBy': 'Approved by',
+
+        // Excel workbook summary sheet
+        'workbook.summary': 'Summary',
+        'workbook.product': 'Product',
+        'workbook.site': 'Site',
+        'workbook.environment': 'Environment',
+        'workbook.generated': 'Generated',
+        'workbook.resource': 'Resource',
+        'workbook.resourceGroup': 'Resource Group'
+    },
+    glossary: {
+        'API': 'Application Programming Interface',
+        'ARM': 'Azure Resource Manager',
+        'CPU': 'Central Processing Unit',
+        'DNS': 'Domain Name System',
+        'DTU': 'Database Transaction Unit',
+        'FS': 'Functional Specification',
+        'GB': 'Gigabyte',
+        'GxP': 'Good Practice Guidelines',
+        'HTTPS': 'Hypertext Transfer Protocol Secure',
+        'IAT': 'Infrastructure Acceptance Testing',
+        'IDS': 'Infrastructure Design Specification',
+        'JSON': 'JavaScript Object Notation',
+        'LRS': 'Locally Redundant Storage',
+        'MB': 'Megabyte',
+        'PaaS': 'Platform as a Service',
+        'RAM': 'Random Access Memory',
+        'REST': 'Representational State Transfer',
+        'SLA': 'Service Level Agreement',
+        'SNI': 'Server Name Indication',
+        'SQL': 'Structured Query Language',
+        'SSL': 'Secure Sockets Layer',
+        'TLS': 'Transport Layer Security',
+        'URL': 'Uniform Resource Locator',
+        'URS': 'User Requirements Specification',
+        'UTC': 'Coordinated Universal Time',
+        'vCore': 'Virtual Core',
+        'VPC': 'Virtual Private Cloud'
+    },
+    labels: {}
+};
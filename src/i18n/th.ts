@@ -0,0 +1,247 @@
+/**
+ * NEW FILE: src/i18n/th.ts
+ * Thai message catalog (missing entries fall back to English)
+ */
+
+import type { MessageCatalog } from './catalogs';
+
+export const TH: MessageCatalog = {
+    dateLocale: 'th-TH',
+    messages: {
+        // Title page, header and fixed pages
+        'titlePage.subtitle': '{{documentTitle}} สำหรับ {{productName}} เวอร์ชัน {{version}}',
+        'titlePage.environment': '{{siteName}} - สภาพแวดล้อม {{environmentName}}',
+        'titlePage.documentTitle': 'ข้อกำหนดการออกแบบโครงสร้างพื้นฐาน',
+        'titlePage.revisionHistory': 'ประวัติการแก้ไข',
+        'header.title': '{{documentType}} สำหรับ {{productName}} เวอร์ชัน {{version}}',
+        'header.documentNumber': 'เลขที่เอกสาร: {{documentNumber}}',
+        'header.revision': 'ฉบับแก้ไข: {{revision}}',
+        'header.effectiveDate': 'วันที่มีผลบังคับใช้: {{effectiveDate}}',
+        'header.seeCoverSheet': '<ดูหน้าปก>',
+        'tableOfContents.title': 'สารบัญ',
+        'approval.title': 'การอนุมัติเอกสาร',
+        'approval.statement': 'การลงนามด้านล่างนี้เป็นการยืนยันว่าผู้ลงนามได้ทบทวน{{#if revision}}ฉบับแก้ไขที่ {{revision}} ของ{{/if}}เอกสารฉบับนี้แล้ว และเอกสารได้ระบุข้อกำหนดด้านโครงสร้างพื้นฐานไว้อย่างถูกต้อง',
+        'documentControl.documentNumber': 'เลขที่เอกสาร',
+        'documentControl.revision': 'ฉบับแก้ไข',
+        'documentControl.effectiveDate': 'วันที่มีผลบังคับใช้',
+        'documentControl.author': 'ผู้จัดทำ',
+        'documentControl.reviewer': 'ผู้ทบทวน',
+        'documentControl.approver': 'ผู้อนุมัติ',
+
+        // Chapter and subsection titles
+        'outline.specifications': 'ข้อกำหนดการออกแบบฮาร์ดแวร์ ซอฟต์แวร์ และแอปพลิเคชัน',
+        'outline.clientRequirements': 'ข้อกำหนดสำหรับเครื่องลูกข่าย',
+        'outline.complianceSummary': 'สรุปผลการปฏิบัติตามข้อกำหนด',
+        'outline.changesSinceRevision': 'การเปลี่ยนแปลงนับจากฉบับแก้ไขที่ {{revision}}',
+        'outline.glossary': 'อภิธานศัพท์',
+        'outline.references': 'เอกสารอ้างอิง',
+        'outline.iat.introduction': 'บทนำ',
+        'outline.iat.purposeAndScope': 'วัตถุประสงค์และขอบเขตของเอกสาร',
+        'outline.iat.testExecution': 'การดำเนินการทดสอบ',
+        'outline.iat.testScripts': 'สคริปต์การทดสอบ',
+        'outline.iat.signOff': 'สรุปผลการทดสอบและการลงนามรับรอง',
+
+        // Technical specifications
+        'specifications.introduction': 'ส่วนนี้ระบุโครงสร้างพื้นฐานเสมือนและทางกายภาพที่ผู้ให้บริการคลาวด์ต้องจัดเตรียม ดูแลรักษา และบริหารจัดการ ซึ่งเป็นข้อกำหนดขั้นต่ำสำหรับการติดตั้งและใช้งานแอปพลิเคชัน {{productName}} ตามความต้องการใช้งานที่กำหนดไว้ใน URS และ FS',
+        'specifications.scaling': 'โครงสร้างพื้นฐานเสมือนและทางกายภาพที่ติดตั้งต้องปรับขนาดตามการใช้งานและความจุที่ลูกค้า/ผู้ใช้ของ {{productName}} ต้องการ เพื่อให้มีทรัพยากรเพียงพอมากกว่าความต้องการอยู่เสมอ',
+        'specifications.redlineLegend': 'การเปลี่ยนแปลงนับจากฉบับแก้ไขที่ {{revision}} มีการทำเครื่องหมายดังนี้: ',
+        'specifications.redlineRemoved': 'ค่าที่ถูกลบจะมีเส้นขีดทับ',
+        'specifications.redlineAnd': ' และ ',
+        'specifications.redlineAdded': 'ค่าใหม่จะมีเส้นขีดเส้นใต้',
+        'clientRequirements.versionHeader': 'เวอร์ชันของ {{productName}}',
+        'compliance.introduction': 'ค่าที่รายงานโดย Azure ได้ถูกเปรียบเทียบกับค่าที่กำหนดไว้ในข้อกำหนดการออกแบบโครงสร้างพื้นฐานฉบับที่ได้รับอนุมัติ ',
+        'compliance.result': 'ข้อกำหนดที่ตรวจสอบ {{checked}} รายการ เป็นไปตามข้อกำหนด {{pass}} รายการ',
+        'compliance.failures': ' ไม่ผ่าน {{fail}} รายการ และไม่พบข้อมูล {{missing}} รายการ',
+        'compliance.deviations': 'รายการที่ไม่เป็นไปตามข้อกำหนด:',
+        'compliance.compliant': 'เป็นไปตามข้อกำหนด',
+        'compliance.notCompliant': 'ไม่เป็นไปตามข้อกำหนด',
+        'configuration.comparison': 'การตั้งค่า {{changed}} จาก {{total}} รายการ แตกต่างจากค่าเริ่มต้น (ไฮไลต์ไว้)',
+        'changes.none': 'ไม่มีข้อกำหนดใดเปลี่ยนแปลงนับจากฉบับแก้ไขที่ {{revision}}',
+        'changes.introduction': 'ข้อกำหนดด้านล่างแตกต่างจากฉบับแก้ไขที่ {{revision}}: ',
+        'changes.counts': 'เปลี่ยนแปลง {{changed}} รายการ เพิ่ม {{added}} รายการ และลบ {{removed}} รายการ',
+
+        // References
+        'references.qualificationPlan': 'แผนการตรวจรับรองคุณสมบัติสำหรับ {{productName}} เวอร์ชัน {{version}}',
+        'references.userRequirements': 'ข้อกำหนดความต้องการของผู้ใช้สำหรับ {{productName}}',
+        'references.functionalSpecification': 'ข้อกำหนดด้านฟังก์ชันสำหรับ {{productName}}',
+        'references.azureSecurity': 'เอกสารด้านความปลอดภัยและการปฏิบัติตามข้อกำหนดของ Microsoft Azure',
+
+        // Table headers and cell values
+        'table.section': 'หมวด',
+        'table.specification': 'ข้อกำหนด',
+        'table.value': 'ค่า',
+        'table.expected': 'ค่าที่คาดหวัง',
+        'table.status': 'สถานะ',
+        'table.dataNotAvailable': 'ไม่มีข้อมูล',
+        'table.source': 'แหล่งที่มา: {{source}}',
+        'table.clientName': 'ชื่อลูกค้า',
+        'table.operatingSystem': 'ระบบปฏิบัติการ (OS)',
+        'table.browser': 'เบราว์เซอร์',
+        'table.term': 'คำศัพท์',
+        'table.definition': 'ความหมาย',
+        'table.no': 'ลำดับ',
+        'table.title': 'ชื่อเอกสาร',
+        'table.infoCard': 'เลขที่ Info Card',
+        'table.result': 'ผลลัพธ์',
+        'table.item': 'รายการ',
+        'table.actual': 'ค่าจริง',
+        'table.change': 'การเปลี่ยนแปลง',
+        'table.previous': 'ค่าเดิม',
+        'table.current': 'ค่าปัจจุบัน',
+        'table.step': 'ขั้นตอน',
+        'table.testProcedure': 'วิธีการทดสอบ',
+        'table.expectedResult': 'ผลลัพธ์ที่คาดหวัง',
+        'table.actualResult': 'ผลลัพธ์จริง',
+        'table.passFail': 'ผ่าน / ไม่ผ่าน',
+        'table.testerDate': 'ผู้ทดสอบ / วันที่',
+        'table.revision': 'ฉบับแก้ไข',
+        'table.date': 'วันที่',
+        'table.description': 'รายละเอียด',
+        'table.key': 'คีย์',
+        'table.defaultValue': 'ค่าเริ่มต้น',
+        'table.currentValue': 'ค่าปัจจุบัน',
+        'table.role': 'บทบาท',
+        'table.name': 'ชื่อ',
+        'table.signature': 'ลายมือชื่อ',
+        'status.pass': 'ผ่าน',
+        'status.fail': 'ไม่ผ่าน',
+        'status.missing': 'ไม่พบข้อมูล',
+        'status.info': 'ข้อมูล',
+        'change.added': 'เพิ่ม',
+        'change.removed': 'ลบ',
+        'change.changed': 'เปลี่ยนแปลง',
+
+        // IAT document
+        'iat.documentType': 'การทดสอบการยอมรับโครงสร้างพื้นฐาน',
+        'iat.purpose': 'การทดสอบการยอมรับโครงสร้างพื้นฐาน (IAT) นี้ใช้ตรวจสอบว่าโครงสร้างพื้นฐานของสภาพแวดล้อม {{environment}} ของ {{productName}} สำหรับ {{siteName}} ได้รับการจัดเตรียมตามที่ระบุไว้ในข้อกำหนดการออกแบบโครงสร้างพื้นฐาน (IDS) ฉบับที่ได้รับอนุมัติ โดยแต่ละขั้นตอนการทดสอบสอดคล้องกับข้อกำหนดหนึ่งรายการใน IDS',
+        'iat.precondition': 'ขั้นตอนการทดสอบทั้งหมดต้องดำเนินการและผ่านก่อนเริ่มการติดตั้งและการทดสอบแอปพลิเคชัน',
+        'iat.executionIntroduction': 'ผลลัพธ์จริงได้ถูกกรอกไว้ล่วงหน้าด้วยค่าการตั้งค่าที่ Microsoft Azure รายงาน ณ เวลาที่สร้างเอกสารนี้ สำหรับแต่ละขั้นตอน ผู้ทดสอบต้อง:',
+        'iat.executionStepVerify': 'ก) ตรวจสอบผลลัพธ์จริงใน Azure portal หรือจากคุณสมบัติที่อ้างอิง',
+        'iat.executionStepCorrect': 'ข) แก้ไขผลลัพธ์จริงหากแตกต่างจากค่าที่กรอกไว้ล่วงหน้า',
+        'iat.executionStepMark': 'ค) ทำเครื่องหมายขั้นตอนว่าผ่านเมื่อผลลัพธ์จริงตรงตามผลลัพธ์ที่คาดหวัง มิฉะนั้นให้ทำเครื่องหมายว่าไม่ผ่าน',
+        'iat.executionStepInitial': 'ง) ลงชื่อย่อและวันที่ในช่อง ผู้ทดสอบ / วันที่',
+        'iat.failedSteps': 'ขั้นตอนที่ไม่ผ่านต้องบันทึกเป็นรายการเบี่ยงเบนในหัวข้อ {{signOffSection}} และได้รับการแก้ไขก่อนการอนุมัติ IAT',
+        'iat.objectiveLabel': 'วัตถุประสงค์: ',
+        'iat.objective': 'ตรวจสอบว่า {{title}} ตรงตามข้อกำหนดการออกแบบโครงสร้างพื้นฐานฉบับที่ได้รับอนุมัติ',
+        'iat.verifyStep': 'ตรวจสอบ {{section}} – {{title}}',
+        'iat.checkSource': 'ตรวจสอบ: {{source}}',
+        'iat.passFailBoxes': '☐ ผ่าน  ☐ ไม่ผ่าน',
+        'iat.summary': 'IAT นี้ประกอบด้วยขั้นตอนการทดสอบ {{steps}} ขั้นตอนใน {{scripts}} สคริปต์การทดสอบ ',
+        'iat.prefilled': 'มี {{passed}} ขั้นตอนที่กรอกไว้ล่วงหน้าว่าผ่าน และ {{failed}} ขั้นตอนว่าไม่ผ่าน จากการตรวจสอบกับค่าพื้นฐานของ IDS ส่วนขั้นตอนที่เหลือให้ผู้ทดสอบเป็นผู้ประเมิน',
+        'iat.testerEvaluated': 'ผู้ทดสอบเป็นผู้ประเมินทุกขั้นตอน',
+        'iat.deviations': 'รายการเบี่ยงเบน:',
+        'iat.signOffStatement': 'การลงนามด้านล่างนี้เป็นการยืนยันว่าขั้นตอนการทดสอบได้ดำเนินการตามที่อธิบายไว้ และผลลัพธ์ที่บันทึกไว้ถูกต้อง',
+        'iat.executedBy': 'ผู้ดำเนินการทดสอบ',
+        'iat.reviewedBy': 'ผู้ทบทวน',
+        'iat.approvedBy': 'ผู้อนุมัติ',
+
+        // Excel workbook summary sheet
+        'workbook.summary': 'สรุป',
+        'workbook.product': 'ผลิตภัณฑ์',
+        'workbook.site': 'ไซต์',
+        'workbook.environment': 'สภาพแวดล้อม',
+        'workbook.generated': 'สร้างเมื่อ',
+        'workbook.resource': 'ทรัพยากร',
+        'workbook.resourceGroup': 'กลุ่มทรัพยากร'
+    },
+    glossary: {
+        'API': 'ส่วนต่อประสานโปรแกรมประยุกต์ (Application Programming Interface)',
+        'CPU': 'หน่วยประมวลผลกลาง (Central Processing Unit)',
+        'DNS': 'ระบบชื่อโดเมน (Domain Name System)',
+        'DTU': 'หน่วยธุรกรรมฐานข้อมูล (Database Transaction Unit)',
+        'FS': 'ข้อกำหนดด้านฟังก์ชัน (Functional Specification)',
+        'GB': 'กิกะไบต์ (Gigabyte)',
+        'GxP': 'แนวปฏิบัติที่ดี (Good Practice Guidelines)',
+        'HTTPS': 'โปรโตคอลถ่ายโอนไฮเปอร์เท็กซ์แบบปลอดภัย (Hypertext Transfer Protocol Secure)',
+        'IAT': 'การทดสอบการยอมรับโครงสร้างพื้นฐาน (Infrastructure Acceptance Testing)',
+        'IDS': 'ข้อกำหนดการออกแบบโครงสร้างพื้นฐาน (Infrastructure Design Specification)',
+        'LRS': 'พื้นที่จัดเก็บสำรองภายในตำแหน่งเดียว (Locally Redundant Storage)',
+        'MB': 'เมกะไบต์ (Megabyte)',
+        'PaaS': 'แพลตฟอร์มในรูปแบบบริการ (Platform as a Service)',
+        'RAM': 'หน่วยความจำเข้าถึงโดยสุ่ม (Random Access Memory)',
+        'SLA': 'ข้อตกลงระดับการให้บริการ (Service Level Agreement)',
+        'SQL': 'ภาษาสอบถามเชิงโครงสร้าง (Structured Query Language)',
+        'TLS': 'ความปลอดภัยชั้นขนส่ง (Transport Layer Security)',
+        'URL': 'ตัวระบุตำแหน่งทรัพยากร (Uniform Resource Locator)',
+        'URS': 'ข้อกำหนดความต้องการของผู้ใช้ (User Requirements Specification)',
+        'UTC': 'เวลาสากลเชิงพิกัด (Coordinated Universal Time)',
+        'vCore': 'คอร์เสมือน (Virtual Core)',
+        'VPC': 'คลาวด์ส่วนตัวเสมือน (Virtual Private Cloud)'
+    },
+    labels: {
+        // Specification sections (CONFIG.documentSections and fetcher defaults)
+        'Web Server Specification': 'ข้อกำหนดเว็บเซิร์ฟเวอร์',
+        'SQL Azure Database Specification': 'ข้อกำหนดฐานข้อมูล SQL Azure',
+        'Redis Cache Specification': 'ข้อกำหนด Redis Cache',
+        'Azure Storage Specification': 'ข้อกำหนด Azure Storage',
+        'Performance Monitoring': 'การตรวจสอบประสิทธิภาพ',
+
+        // Sections within a specification table
+        'Advanced settings': 'การตั้งค่าขั้นสูง',
+        'Configuration': 'การกำหนดค่า',
+        'Container': 'คอนเทนเนอร์',
+        'Data Management': 'การจัดการข้อมูล',
+        'Default Configuration': 'การกำหนดค่าเริ่มต้น',
+        'General settings': 'การตั้งค่าทั่วไป',
+        'General': 'ทั่วไป',
+        'Incoming client certificates': 'ใบรับรองไคลเอนต์ขาเข้า',
+        'Monitoring': 'การตรวจสอบ',
+        'Platform settings': 'การตั้งค่าแพลตฟอร์ม',
+        'Resource Groups': 'กลุ่มทรัพยากร',
+        'Security': 'ความปลอดภัย',
+        'Services': 'บริการ',
+
+        // Specification titles
+        'Access Keys': 'คีย์การเข้าถึง',
+        'Access Tier': 'ระดับการเข้าถึง',
+        'Account Kind': 'ประเภทบัญชี',
+        'Allow Blob public access': 'อนุญาตการเข้าถึง Blob แบบสาธารณะ',
+        'Allow access only via SSL': 'อนุญาตการเข้าถึงผ่าน SSL เท่านั้น',
+        'Always on': 'เปิดตลอดเวลา',
+        'Application Logs': 'บันทึกของแอปพลิเคชัน',
+        'Backup schedule': 'กำหนดการสำรองข้อมูล',
+        'Change access level': 'เปลี่ยนระดับการเข้าถึง',
+        'Client certificate mode': 'โหมดใบรับรองไคลเอนต์',
+        'Connections': 'การเชื่อมต่อ',
+        'Cross-Resource-Group Setup': 'การตั้งค่าข้ามกลุ่มทรัพยากร',
+        'Custom domain': 'โดเมนแบบกำหนดเอง',
+        'Data backup': 'การสำรองข้อมูล',
+        'Destination details': 'รายละเอียดปลายทาง',
+        'Diagnostic settings': 'การตั้งค่าการวินิจฉัย',
+        'Encryption in transit': 'การเข้ารหัสระหว่างการส่งข้อมูล',
+        'Encryption type': 'ประเภทการเข้ารหัส',
+        'FTP state': 'สถานะ FTP',
+        'Geo-Replication': 'การจำลองข้อมูลข้ามภูมิภาค',
+        'Geographical Location': 'ตำแหน่งทางภูมิศาสตร์',
+        'HTTP version': 'เวอร์ชัน HTTP',
+        'HTTPS Only': 'HTTPS เท่านั้น',
+        'Large file shares': 'การแชร์ไฟล์ขนาดใหญ่',
+        'Local replica': 'สำเนาภายในตำแหน่ง',
+        'Location': 'ตำแหน่งที่ตั้ง',
+        'Maxmemory policy': 'นโยบาย Maxmemory',
+        'Memory': 'หน่วยความจำ',
+        'Minimum TLS Version': 'เวอร์ชัน TLS ขั้นต่ำ',
+        'Minimum TLS version': 'เวอร์ชัน TLS ขั้นต่ำ',
+        'Non-SSL Port': 'พอร์ตที่ไม่ใช้ SSL',
+        'Number of Azure Compute Units': 'จำนวน Azure Compute Units',
+        'Number of DTUs': 'จำนวน DTU',
+        'Performance': 'ประสิทธิภาพ',
+        'Platform': 'แพลตฟอร์ม',
+        'Pricing Tier': 'ระดับราคา',
+        'Primary Resource Group': 'กลุ่มทรัพยากรหลัก',
+        'Redis Resource Group': 'กลุ่มทรัพยากร Redis',
+        'Redis Version': 'เวอร์ชัน Redis',
+        'Replicas': 'สำเนา',
+        'Replication': 'การจำลองข้อมูล',
+        'SQL Resource Group': 'กลุ่มทรัพยากร SQL',
+        'SQL Server - Firewall': 'SQL Server - ไฟร์วอลล์',
+        'SQL Server – Auditing logs': 'SQL Server – บันทึกการตรวจสอบ',
+        'SSL Port': 'พอร์ต SSL',
+        'Scale out': 'การขยายขนาดออก',
+        'Secure transfer required': 'ต้องใช้การถ่ายโอนที่ปลอดภัย',
+        'Stack and version': 'สแตกและเวอร์ชัน',
+        'Transparent data encryption': 'การเข้ารหัสข้อมูลแบบโปร่งใส',
+        'Web App Resource Group': 'กลุ่มทรัพยากร Web App',
+        'Web server logging': 'การบันทึกของเว็บเซิร์ฟเวอร์'
+    }
+};
@@ -0,0 +1,191 @@
+// src/import/spreadsheet-import.ts
+// Convert manually maintained CSV/XLSX files into specification data files (output/*-data.json)
+import * as fs from 'fs';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { ImportSource, ImportColumnMapping, Specification, SpecificationData, SpecificationStatus, SPECIFICATION_STATUSES } from '../types';
+import { CONFIG } from '../config';
+import { SpecificationStore, getSpecificationStore, saveSpecificationData } from '../persistence/specification-store';
+import { deriveSectionTitle } from '../data-fetchers/registry';
+
+// Column headers used when a source does not map a field (the same headers the Excel export writes)
+export const DEFAULT_IMPORT_COLUMNS: Required<ImportColumnMapping> = {
+    section: 'Section',
+    title: 'Specification',
+    value: 'Value',
+    expected: 'Expected',
+    status: 'Status',
+    source: 'Source',
+    note: 'Note',
+    unit: 'Unit'
+};
+
+const OPTIONAL_FIELDS = ['expected', 'source', 'note', 'unit'] as const;
+
+// --- READING ---
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields may contain delimiters, quotes as "" and line breaks)
+ * @param delimiter Field delimiter (default: ';' when the first line contains one, otherwise ',')
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+    const content = text.replace(/^\uFEFF/, '');
+    const separator = delimiter || (content.split(/\r?\n/, 1)[0].includes(';') ? ';' : ',');
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === separator) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            rows.push([...row, field]);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) rows.push([...row, field]);
+    return rows;
+}
+
+/**
+ * Rows of an .xlsx worksheet as displayed text (merged cells repeat their value)
+ */
+async function readWorkbookRows(filePath: string, sheetName?: string): Promise<string[][]> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(filePath);
+
+    const sheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+    if (!sheet) {
+        throw new Error(`Worksheet not found in ${filePath}: ${sheetName} (available: ${workbook.worksheets.map(ws => ws.name).join(', ')})`);
+    }
+
+    const rows: string[][] = [];
+    for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber++) {
+        const row = sheet.getRow(rowNumber);
+        rows.push(Array.from({ length: sheet.columnCount }, (_, index) => row.getCell(index + 1).text));
+    }
+    return rows;
+}
+
+/**
+ * Read the rows (header row first) of a .csv or .xlsx import file
+ */
+export async function readImportRows(source: ImportSource): Promise<string[][]> {
+    if (!fs.existsSync(source.file)) {
+        throw new Error(`Import file not found: ${source.file}`);
+    }
+
+    switch (path.extname(source.file).toLowerCase()) {
+        case '.csv':
+            return parseCsv(fs.readFileSync(source.file, 'utf8'), source.delimiter);
+        case '.xlsx':
+            return readWorkbookRows(source.file, source.sheet);
+        default:
+            throw new Error(`Unsupported import file: ${source.file} (use .csv or .xlsx)`);
+    }
+}
+
+// --- MAPPING ---
+
+/**
+ * Convert rows to specification entries using the source's column mapping.
+ * A blank section repeats the section above (as in spreadsheets with merged section cells);
+ * rows without a title or value are reported and left out.
+ */
+export function mapImportRows(rows: string[][], source: ImportSource): SpecificationData {
+    const [header = [], ...body] = rows;
+    const columns = { ...DEFAULT_IMPORT_COLUMNS, ...source.columns };
+    const headerIndex = new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+    const columnIndex = (field: keyof Specification) => headerIndex.get(columns[field].trim().toLowerCase());
+
+    const required: (keyof Specification)[] = source.section ? ['title', 'value'] : ['section', 'title', 'value'];
+    const missing = required.filter(field => columnIndex(field) === undefined);
+    if (missing.length > 0) {
+        throw new Error(`Missing column in ${source.file}: ${missing.map(field => `"${columns[field]}" (${field})`).join(', ')}`);
+    }
+
+    const data: SpecificationData = [];
+    let currentSection = source.section || '';
+
+    body.forEach((cells, index) => {
+        const cell = (field: keyof Specification) => {
+            const column = columnIndex(field);
+            return column === undefined ? '' : (cells[column] ?? '').trim();
+        };
+        if (cells.every(text => !text.trim())) return;
+
+        const rowNumber = index + 2;
+        currentSection = cell('section') || currentSection;
+        const item: Specification = { section: currentSection, title: cell('title'), value: cell('value') };
+
+        if (!item.section || !item.title || !item.value) {
+            console.warn(`   ⚠️  Skipped row ${rowNumber} of ${source.file}: section, title and value are required`);
+            return;
+        }
+
+        OPTIONAL_FIELDS.forEach(field => {
+            if (cell(field)) item[field] = cell(field);
+        });
+
+        const status = cell('status').toLowerCase();
+        if (SPECIFICATION_STATUSES.includes(status as SpecificationStatus)) {
+            item.status = status as SpecificationStatus;
+        } else if (status) {
+            console.warn(`   ⚠️  Ignored status "${cell('status')}" in row ${rowNumber} of ${source.file} (use ${SPECIFICATION_STATUSES.join(', ')})`);
+        }
+
+        data.push(item);
+    });
+
+    return data;
+}
+
+// --- IMPORT ---
+
+/**
+ * Section title of an imported file, e.g. "On Prem Specification" for on-prem-data.json
+ */
+export function getImportTitle(source: ImportSource): string {
+    return source.title || deriveSectionTitle(source.outputFilename);
+}
+
+/**
+ * Import one CSV/XLSX file and save it as a specification data file
+ */
+export async function importSpreadsheet(source: ImportSource, store: SpecificationStore = getSpecificationStore()): Promise<SpecificationData> {
+    if (!source.outputFilename.endsWith('-data.json')) {
+        throw new Error(`Import outputFilename must end with -data.json: ${source.outputFilename}`);
+    }
+
+    const data = mapImportRows(await readImportRows(source), source);
+    saveSpecificationData(source.outputFilename, data, store);
+    console.log(`📥 Imported ${source.file} → ${source.outputFilename} (${data.length} entries)`);
+    return data;
+}
+
+/**
+ * Import every file listed under CONFIG.imports
+ */
+export async function importConfiguredSpreadsheets(store: SpecificationStore = getSpecificationStore()): Promise<void> {
+    for (const source of CONFIG.imports || []) {
+        await importSpreadsheet(source, store);
+    }
+}
@@ -1,19 +1,74 @@
 // ENHANCED FILE: src/main.ts - Enhanced main entry point with cross-resource-group support
 import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
 dotenv.config();
 
-// Import data fetchers from azure cloud providers
-import { fetchAndSaveWebServerDetails } from './data-fetchers/azure/00-web-server';
-import { fetchAndSaveSqlDatabaseDetails } from './data-fetchers/azure/01-database';
-import { fetchAndSaveStorageDetails } from './data-fetchers/azure/02-storage';
-import { fetchAndSaveRedisDetails } from './data-fetchers/azure/03-redis';
-import { fetchAndSaveAlertDetails } from './data-fetchers/azure/04-alert';
+// Import the data fetcher registry (fetcher modules register themselves)
+import { getRegisteredFetchers, createFetcherContext } from './data-fetchers/registry';
+import { saveSpecificationData, getSpecificationStore } from './persistence/specification-store';
+import { SpecificationData, DocumentLocale, OutputFormat, OUTPUT_FORMATS } from './types';
 
 // Import document generator
 import { generateDocument } from './doc-generators/document-generator';
+import { generateIatDocument } from './doc-generators/iat-document-generator';
 
 // Import enhanced configuration
-import { getResourceNames, getResourceGroup, displayCurrentConfig, CONFIG } from './config';
+import { getResourceNames, getResourceGroup, displayCurrentConfig, getIatOutputFilename, CONFIG } from './config';
+import { loadProjectConfig } from './config-file';
+import { resolveBatchTargets, runBatch, displayBatchSummary } from './batch';
+import { DOCUMENT_LOCALES } from './i18n/catalogs';
+
+// Import IDS baseline compliance checking
+import { getConfiguredBaseline, applyComplianceBaseline, summarizeCompliance } from './compliance/compliance-engine';
+
+// Import snapshot comparison
+import { loadSpecificationSnapshot, diffSnapshots, formatSpecificationChange, summarizeSpecificationChanges } from './diff/specification-diff';
+
+// Import CSV/XLSX specification files and SQL query sections
+import { importConfiguredSpreadsheets } from './import/spreadsheet-import';
+import { runSqlQuerySections } from './data-fetchers/database/02-sql-query-sections';
+
+// Import specification data validation
+import { validateSpecificationJson, formatSpecificationIssue } from './validation/specification-validator';
+
+/**
+ * Run every registered data fetcher and save the results to the active specification store
+ */
+export async function fetchAllData(): Promise<void> {
+    console.log('📡 Fetching Azure resource data with cross-resource-group support...');
+    
+    // Get enhanced resource configuration
+    const resources = getResourceNames();
+    
+    console.log('🎯 Resource Mapping:');
+    console.log(`   Web App: ${resources.webAppName} → RG: ${getResourceGroup('webapp')}`);
+    console.log(`   App Service Plan: ${resources.legacyPlanName} → RG: ${getResourceGroup('plan')}`);
+    console.log(`   SQL Server: ${resources.sqlServerName} → RG: ${getResourceGroup('sql')}`);
+    console.log(`   SQL Database: ${resources.sqlDatabaseName}`);
+    console.log(`   Redis Cache: ${resources.redisCacheName} → RG: ${getResourceGroup('redis')}`);
+    console.log(`   Storage Account: ${resources.storageAccountName} → RG: ${getResourceGroup('storage')}`);
+    console.log('');
+    
+    // Run all registered data fetchers in parallel with cross-resource-group support
+    const fetchers = getRegisteredFetchers();
+    const baseline = getConfiguredBaseline();
+    
+    console.log(`📦 Registered data fetchers: ${fetchers.map(fetcher => fetcher.id).join(', ')}`);
+    await Promise.all(fetchers.map(async fetcher => {
+        const fetched = await fetcher.fetch(createFetcherContext(fetcher, resources));
+        const data = baseline ? applyComplianceBaseline(fetcher.outputFilename, fetched, baseline) : fetched;
+        saveSpecificationData(fetcher.outputFilename, data);
+        console.log(`💾 Saved ${fetcher.outputFilename} (${data.length} entries)`);
+    }));
+    
+    // Application-level sections from the SQL database (feature flags, tenant settings, ...)
+    await runSqlQuerySections();
+    
+    // Manually maintained specifications (on-premises components, partner systems, ...)
+    await importConfiguredSpreadsheets();
+    console.log(`📁 Specification data stored in: ${getSpecificationStore().location}`);
+}
 
 async function main() {
     try {
@@ -23,62 +78,14 @@ async function main() {
         // Display current configuration
         displayCurrentConfig();
         
-        console.log('📡 Fetching Azure resource data with cross-resource-group support...');
-        
-        // Get enhanced resource configuration
-        const resources = getResourceNames();
-        
-        console.log('🎯 Resource Mapping:');
-        console.log(`   Web App: ${resources.webAppName} → RG: ${getResourceGroup('webapp')}`);
-        console.log(`   App Service Plan: ${resources.legacyPlanName} → RG: ${getResourceGroup('plan')}`);
-        console.log(`   SQL Server: ${resources.sqlServerName} → RG: ${getResourceGroup('sql')}`);
-        console.log(`   SQL Database: ${resources.sqlDatabaseName}`);
-        console.log(`   Redis Cache: ${resources.redisCacheName} → RG: ${getResourceGroup('redis')}`);
-        console.log(`   Storage Account: ${resources.storageAccountName} → RG: ${getResourceGroup('storage')}`);
-        console.log('');
-        
-        // Run all data fetching operations in parallel with cross-resource-group support
-        await Promise.all([
-            fetchAndSaveWebServerDetails(
-                getResourceGroup('webapp'),    // Web app resource group
-                resources.webAppName, 
-                resources.legacyPlanName,
-                getResourceGroup('plan')       // App Service Plan resource group
-            ),
-            fetchAndSaveSqlDatabaseDetails(
-                getResourceGroup('sql'),       // SQL resource group
-                resources.sqlServerName, 
-                resources.sqlDatabaseName
-            ),
-            fetchAndSaveRedisDetails(
-                getResourceGroup('redis'),     // Redis resource group
-                resources.redisCacheName
-            ),
-            fetchAndSaveStorageDetails(
-                getResourceGroup('storage'),   // Storage resource group
-                resources.storageAccountName
-            ),
-            fetchAndSaveAlertDetails(
-                resources.resourceGroupName,   // Primary resource group for alerts
-                resources.webAppName, 
-                resources.sqlServerName, 
-                resources.sqlDatabaseName,
-                resources.redisCacheName,
-                {
-                    webAppResourceGroup: getResourceGroup('webapp'),
-                    sqlResourceGroup: getResourceGroup('sql'),
-                    redisResourceGroup: getResourceGroup('redis')
-                }
-            )
-            // 🆕 Add new data fetchers here
-        ]);
+        await fetchAllData();
         
         console.log('✅ Data fetching completed successfully!');
         console.log('');
         console.log('📄 Generating Word document...');
         
         // Generate the document
-        generateDocument();
+        await generateDocument();
         
         console.log('');
         console.log('🎉 Process completed successfully!');
@@ -106,7 +113,7 @@ async function main() {
 export async function regenerateDocumentOnly() {
     try {
         console.log('📄 Regenerating document from existing data...');
-        generateDocument();
+        await generateDocument();
         console.log(`✅ Document regenerated: ${CONFIG.outputFilename}`);
     } catch (error) {
         console.error('❌ Error regenerating document:', error);
@@ -114,6 +121,170 @@ export async function regenerateDocumentOnly() {
     }
 }
 
+/**
+ * Generate the Infrastructure Acceptance Test document from existing data
+ */
+export async function generateIatOnly() {
+    try {
+        console.log('🧪 Generating IAT test scripts from existing data...');
+        await generateIatDocument();
+        console.log(`✅ IAT document generated: ${getIatOutputFilename()}`);
+    } catch (error) {
+        console.error('❌ Error generating IAT document:', error);
+        throw error;
+    }
+}
+
+/**
+ * Import the CSV/XLSX files listed under `imports` without fetching Azure data
+ */
+export async function importSpreadsheetsOnly() {
+    if (!CONFIG.imports || CONFIG.imports.length === 0) {
+        console.warn('⚠️  No imports configured: add an imports list to the config file');
+        return;
+    }
+    
+    console.log(`📥 Importing ${CONFIG.imports.length} spreadsheet file(s)...`);
+    await importConfiguredSpreadsheets();
+    console.log(`📁 Specification data stored in: ${getSpecificationStore().location}`);
+}
+
+/**
+ * Run the SQL queries listed under `sqlQueries` without fetching Azure data
+ */
+export async function runSqlQueriesOnly() {
+    if (!CONFIG.sqlQueries || CONFIG.sqlQueries.length === 0) {
+        console.warn('⚠️  No SQL queries configured: add a sqlQueries list to the config file');
+        return;
+    }
+    
+    console.log(`🗄️ Running ${CONFIG.sqlQueries.length} SQL query section(s)...`);
+    await runSqlQuerySections();
+    console.log(`📁 Specification data stored in: ${getSpecificationStore().location}`);
+}
+
+/**
+ * Generate one document per environment/site, each with its own output directory
+ */
+export async function generateBatch(environments: string[] = [], sites: string[] = []) {
+    const targets = resolveBatchTargets(environments, sites);
+    if (targets.length === 0) {
+        console.error('❌ No batch targets: pass --environments test,staging,production (and optionally --sites) or set batchTargets in the config file');
+        process.exit(1);
+    }
+    
+    console.log(`🚀 Starting batch generation for ${targets.length} target(s)`);
+    
+    const results = await runBatch(targets, async documentPath => {
+        displayCurrentConfig();
+        await fetchAllData();
+        await generateDocument(undefined, documentPath);
+    });
+    
+    displayBatchSummary(results);
+    if (results.some(result => !result.success)) {
+        process.exit(1);
+    }
+}
+
+/**
+ * Validate specification data files without generating a document
+ * @param files Files to check (default: every *-data.json file in the specification store)
+ * @returns true when every file is valid
+ */
+export function validateDataFiles(files: string[] = []): boolean {
+    const store = getSpecificationStore();
+    const targets = files.length > 0
+        ? files.map(file => ({ filename: file, contents: fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined }))
+        : store.list()
+            .filter(file => file.endsWith('-data.json'))
+            .map(file => ({ filename: file, contents: store.load(file) }));
+    
+    console.log(`🔎 Validating ${targets.length} specification data file(s)${files.length > 0 ? '' : ` in ${store.location}`}...`);
+    
+    let valid = true;
+    targets.forEach(({ filename, contents }) => {
+        if (contents === undefined) {
+            console.error(`   ❌ ${filename}: file not found`);
+            valid = false;
+            return;
+        }
+        
+        const result = validateSpecificationJson(path.basename(filename), contents);
+        if (result.issues.length === 0) {
+            console.log(`   ✅ ${filename} (${result.data!.length} entries)`);
+            return;
+        }
+        
+        valid = false;
+        console.error(`   ❌ ${filename}: ${result.issues.length} issue(s)`);
+        result.issues.forEach(issue => console.error(`      - ${formatSpecificationIssue(issue)}`));
+    });
+    
+    console.log(valid ? '✅ All specification data files are valid' : '❌ Validation failed');
+    return valid;
+}
+
+/**
+ * Check the data files in the specification store against the IDS baseline and save the annotated files
+ * @returns true when every checked specification passes
+ */
+export function checkCompliance(): boolean {
+    const baseline = getConfiguredBaseline();
+    if (!baseline) {
+        console.error('❌ No compliance baseline: pass --baseline <file> or set complianceBaseline in the config file');
+        return false;
+    }
+    
+    const store = getSpecificationStore();
+    const files = store.list().filter(file => file.endsWith('-data.json'));
+    console.log(`📏 Checking ${files.length} data file(s) in ${store.location} against ${CONFIG.complianceBaseline}...`);
+    
+    const checked: { filename: string; data: SpecificationData }[] = [];
+    files.forEach(filename => {
+        const result = validateSpecificationJson(filename, store.load(filename)!);
+        if (!result.data) {
+            console.warn(`   ⚠️  Skipped ${filename}: ${result.issues.map(formatSpecificationIssue).join('; ')}`);
+            return;
+        }
+        
+        const data = applyComplianceBaseline(filename, result.data, baseline);
+        saveSpecificationData(filename, data);
+        checked.push({ filename, data });
+    });
+    
+    const summary = summarizeCompliance(checked);
+    summary.forEach(row => {
+        const symbol = row.fail + row.missing === 0 ? '✅' : '❌';
+        console.log(`   ${symbol} ${row.title}: ${row.pass} pass, ${row.fail} fail, ${row.missing} missing`);
+    });
+    checked.forEach(({ filename, data }) => data
+        .filter(item => item.status === 'fail' || item.status === 'missing')
+        .forEach(item => console.log(`      - ${filename}: ${item.section} / ${item.title}: expected "${item.expected}", got "${item.value}" (${item.status})`)));
+    
+    return summary.every(row => row.fail + row.missing === 0);
+}
+
+/**
+ * Compare two snapshots of specification data and print the added/removed/changed rows
+ * @param beforeDir Earlier snapshot (e.g. the run the approved IDS was generated from)
+ * @param afterDir Later snapshot (default: the specification store directory)
+ * @returns true when nothing changed
+ */
+export function diffDataSnapshots(beforeDir: string, afterDir: string = getSpecificationStore().location): boolean {
+    console.log(`🔀 Comparing ${beforeDir} → ${afterDir}...`);
+    
+    const changes = diffSnapshots(loadSpecificationSnapshot(beforeDir), loadSpecificationSnapshot(afterDir));
+    if (changes.length === 0) {
+        console.log('✅ No specification changes');
+        return true;
+    }
+    
+    changes.forEach(change => console.log(`   ${formatSpecificationChange(change)}`));
+    console.log(`📋 ${summarizeSpecificationChanges(changes)}`);
+    return false;
+}
+
 /**
  * Display configuration without running the main process
  */
@@ -156,9 +327,108 @@ export function testDiscovery() {
     console.log('✅ Discovery test completed!');
 }
 
+// Command line options that take a value (their value is not a command)
+const VALUE_OPTIONS = ['--config', '--fixtures', '--environments', '--sites', '--baseline', '--since', '--locale', '--format'];
+
+/**
+ * Parsed command line
+ */
+export interface CommandLine {
+    command?: string;
+    args: string[];          // Positional arguments after the command
+    configPath?: string;
+    baselinePath?: string;
+    changesSince?: string;
+    locale?: string;
+    formats: string[];
+    redline: boolean;
+    noArchive: boolean;
+    updateToc: boolean;
+    strict: boolean;
+    environments: string[];
+    sites: string[];
+}
+
+/**
+ * Split the command line into the command and its options
+ */
+export function parseCommandLine(argv: string[]): CommandLine {
+    const positional: string[] = [];
+    const options: Record<string, string> = {};
+    
+    for (let i = 0; i < argv.length; i++) {
+        if (VALUE_OPTIONS.includes(argv[i])) {
+            options[argv[i]] = argv[i + 1];
+            i++;
+        } else if (!argv[i].startsWith('--')) {
+            positional.push(argv[i]);
+        }
+    }
+    
+    const splitList = (value?: string) => (value || '').split(',').map(item => item.trim()).filter(Boolean);
+    
+    return {
+        command: positional[0],
+        args: positional.slice(1),
+        configPath: options['--config'] || process.env.config_file,
+        baselinePath: options['--baseline'],
+        changesSince: options['--since'],
+        locale: options['--locale'],
+        formats: splitList(options['--format']),
+        redline: argv.includes('--redline'),
+        noArchive: argv.includes('--no-archive'),
+        updateToc: argv.includes('--update-toc'),
+        strict: argv.includes('--strict'),
+        environments: splitList(options['--environments']),
+        sites: splitList(options['--sites'])
+    };
+}
+
 // Run main function if this file is executed directly
 if (require.main === module) {
-    const command = process.argv[2];
+    const { command, args, configPath, baselinePath, changesSince, locale, formats, redline, noArchive, updateToc, strict, environments, sites } = parseCommandLine(process.argv.slice(2));
+    
+    if (configPath) {
+        try {
+            loadProjectConfig(configPath);
+        } catch (error) {
+            console.error(`❌ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    }
+    if (strict) {
+        CONFIG.strictValidation = true;
+    }
+    if (baselinePath) {
+        CONFIG.complianceBaseline = baselinePath;
+    }
+    if (changesSince) {
+        CONFIG.changesSince = changesSince;
+    }
+    if (locale) {
+        if (!DOCUMENT_LOCALES.includes(locale as DocumentLocale)) {
+            console.error(`❌ Unknown locale: ${locale} (use ${DOCUMENT_LOCALES.join(', ')})`);
+            process.exit(1);
+        }
+        CONFIG.locale = locale as DocumentLocale;
+    }
+    if (formats.length > 0) {
+        const unknown = formats.filter(format => !OUTPUT_FORMATS.includes(format as OutputFormat));
+        if (unknown.length > 0) {
+            console.error(`❌ Unknown output format: ${unknown.join(', ')} (use ${OUTPUT_FORMATS.join(', ')})`);
+            process.exit(1);
+        }
+        CONFIG.outputFormats = formats as OutputFormat[];
+    }
+    if (redline) {
+        CONFIG.changeMarkup = 'redline';
+    }
+    if (noArchive) {
+        CONFIG.archiveRuns = false;
+    }
+    if (updateToc) {
+        CONFIG.documentCustomization.updateTableOfContents = true;
+    }
     
     switch (command) {
         case 'config':
@@ -167,12 +437,57 @@ if (require.main === module) {
             break;
         case 'doc-only':
         case 'document-only':
-            regenerateDocumentOnly();
+            regenerateDocumentOnly().catch(error => {
+                console.error(`❌ ${error instanceof Error ? error.message : error}`);
+                process.exit(1);
+            });
+            break;
+        case 'iat':
+            generateIatOnly().catch(error => {
+                console.error(`❌ ${error instanceof Error ? error.message : error}`);
+                process.exit(1);
+            });
             break;
         case 'test-discovery':
         case 'discovery':
             testDiscovery();
             break;
+        case 'batch':
+            generateBatch(environments, sites).catch(error => {
+                console.error(`❌ ${error instanceof Error ? error.message : error}`);
+                process.exit(1);
+            });
+            break;
+        case 'import':
+            importSpreadsheetsOnly().catch(error => {
+                console.error(`❌ ${error instanceof Error ? error.message : error}`);
+                process.exit(1);
+            });
+            break;
+        case 'sql':
+            runSqlQueriesOnly().catch(error => {
+                console.error(`❌ ${error instanceof Error ? error.message : error}`);
+                process.exit(1);
+            });
+            break;
+        case 'validate':
+            if (!validateDataFiles(args)) process.exit(1);
+            break;
+        case 'compliance':
+            if (!checkCompliance()) process.exit(1);
+            break;
+        case 'diff':
+            if (!args[0]) {
+                console.error('❌ Usage: diff <before-dir> [after-dir]');
+                process.exit(1);
+            }
+            try {
+                if (!diffDataSnapshots(args[0], args[1])) process.exit(1);
+            } catch (error) {
+                console.error(`❌ ${error instanceof Error ? error.message : error}`);
+                process.exit(1);
+            }
+            break;
         default:
             main();
     }
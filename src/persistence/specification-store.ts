@@ -0,0 +1,110 @@
+// src/persistence/specification-store.ts
+// Shared persistence layer for specification data files (output/*.json)
+import * as fs from 'fs';
+import * as path from 'path';
+import { SpecificationData } from '../types';
+
+/**
+ * Storage backend for the JSON files produced by data fetchers
+ */
+export interface SpecificationStore {
+    readonly location: string; // Human-readable location, used in log output
+    save(filename: string, contents: string): void;
+    load(filename: string): string | undefined;
+    exists(filename: string): boolean;
+    list(): string[];
+}
+
+/**
+ * Stores files in a directory on disk (default: ./output)
+ */
+export class FileSpecificationStore implements SpecificationStore {
+    readonly location: string;
+
+    constructor(outputDir: string = path.join(process.cwd(), 'output')) {
+        this.location = outputDir;
+    }
+
+    save(filename: string, contents: string): void {
+        if (!fs.existsSync(this.location)) {
+            fs.mkdirSync(this.location, { recursive: true });
+        }
+        fs.writeFileSync(path.join(this.location, filename), contents);
+    }
+
+    load(filename: string): string | undefined {
+        const filePath = path.join(this.location, filename);
+        return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+    }
+
+    exists(filename: string): boolean {
+        return fs.existsSync(path.join(this.location, filename));
+    }
+
+    list(): string[] {
+        if (!fs.existsSync(this.location)) return [];
+        return fs.readdirSync(this.location).sort();
+    }
+}
+
+/**
+ * Keeps files in memory - useful for tests and for generating a document without touching disk
+ */
+export class MemorySpecificationStore implements SpecificationStore {
+    readonly location = 'memory';
+    private files = new Map<string, string>();
+
+    save(filename: string, contents: string): void {
+        this.files.set(filename, contents);
+    }
+
+    load(filename: string): string | undefined {
+        return this.files.get(filename);
+    }
+
+    exists(filename: string): boolean {
+        return this.files.has(filename);
+    }
+
+    list(): string[] {
+        return Array.from(this.files.keys()).sort();
+    }
+}
+
+let activeStore: SpecificationStore = new FileSpecificationStore();
+
+/**
+ * Get the store used by fetchers and the document generator
+ */
+export function getSpecificationStore(): SpecificationStore {
+    return activeStore;
+}
+
+/**
+ * Replace the active store (e.g. with a MemorySpecificationStore)
+ */
+export function setSpecificationStore(store: SpecificationStore): void {
+    activeStore = store;
+}
+
+/**
+ * Save any JSON-serializable value
+ */
+export function saveJson(filename: string, data: unknown, store: SpecificationStore = activeStore): void {
+    store.save(filename, JSON.stringify(data, null, 2));
+}
+
+/**
+ * Save a specification data file
+ */
+export function saveSpecificationData(filename: string, data: SpecificationData, store: SpecificationStore = activeStore): void {
+    saveJson(filename, data, store);
+}
+
+/**
+ * Load and parse a JSON file, or undefined if it does not exist
+ */
+export function loadJson<T = unknown>(filename: string, store: SpecificationStore = activeStore): T | undefined {
+    const contents = store.load(filename);
+    return contents === undefined ? undefined : JSON.parse(contents) as T;
+}
@@ -1,13 +1,29 @@
 // MODIFIED FILE: src/types.ts
 // Enhanced types with document customization support
 
+// Compliance status of a specification entry
+export type SpecificationStatus = 'pass' | 'fail' | 'missing' | 'info';
+
+export const SPECIFICATION_STATUSES: SpecificationStatus[] = ['pass', 'fail', 'missing', 'info'];
+
 // A generic type for a single specification entry
 export type Specification = {
     section: string;
     title: string;
     value: string;
+    
+    // Optional details (older three-field files simply leave these out)
+    expected?: string;              // Value required by the approved IDS, e.g. '1.2'
+    status?: SpecificationStatus;   // Whether the actual value complies with the expected value
+    source?: string;                // Where the value came from, e.g. ARM property path 'properties.minimumTlsVersion'
+    note?: string;                  // Rendered as a footnote below the table
+    unit?: string;                  // Appended to the value when rendered, e.g. 'GB'
 };
 
+// Sign-in to the application database: 'sql' = SQL login (db_user/db_password),
+// 'entra' = Entra ID access token from DefaultAzureCredential (service principal, managed identity, Azure CLI)
+export type DatabaseAuthentication = 'sql' | 'entra';
+
 // A generic type for a set of specification data
 export type SpecificationData = Specification[];
 
@@ -19,6 +35,35 @@ export interface DocumentCustomization {
     includeReferences: boolean; // Whether to include references section
     customGlossaryItems: GlossaryItem[]; // Additional glossary items
     customReferences: ReferenceItem[]; // Additional references
+    includeSourceReferences?: boolean; // Whether to list each value's source (ARM property path) as a footnote
+    updateTableOfContents?: boolean; // Whether to pre-populate the table of contents with LibreOffice (headless)
+    chapters?: MarkdownChapter[]; // Narrative chapters authored in Markdown (default: introduction and overview)
+}
+
+// A document chapter authored as Markdown ({{productName}}-style placeholders are filled in)
+export interface MarkdownChapter {
+    id: string;       // Outline id, e.g. 'overview' (other chapters refer to it as {{section.overview}})
+    path: string;     // Markdown file, relative to the working directory
+    enabled?: boolean;
+    before?: string;  // Outline id of the chapter to insert before (default: the technical specifications)
+    after?: string;
+}
+
+// Document control metadata shown in the page header, on the title page and in the approval block
+export interface DocumentControl {
+    documentNumber?: string; // e.g. 'IDS-UNI-0042'
+    revision?: string;       // Defaults to the run archive revision when archiving is enabled
+    effectiveDate?: string;  // e.g. '2025-01-31'
+    author?: string;
+    reviewer?: string;
+    approver?: string;
+}
+
+// One row of the revision history table on the title page
+export interface RevisionHistoryEntry {
+    revision: string;
+    date: string;        // e.g. '2025-01-31'
+    description: string;
 }
 
 // Glossary item structure
@@ -35,6 +80,15 @@ export interface ReferenceItem {
 }
 
 // Enhanced project configuration
+// Languages the documents can be generated in (see src/i18n)
+export type DocumentLocale = 'en' | 'de' | 'th';
+
+// Formats a document is written in - the .docx is always written; pdf is exported from it,
+// html, md and xlsx are rendered from the same specification data (IDS only)
+export type OutputFormat = 'docx' | 'pdf' | 'html' | 'md' | 'xlsx';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['docx', 'pdf', 'html', 'md', 'xlsx'];
+
 export interface ProjectConfig {
     // Product Information
     productName: string;
@@ -50,20 +104,104 @@ export interface ProjectConfig {
     // Document Settings
     documentType: string;
     outputFilename: string;
+    locale?: DocumentLocale; // Language of the generated documents (default: 'en')
+    outputFormats?: OutputFormat[]; // e.g. ['docx', 'pdf', 'html'] to also write a PDF and an HTML report next to the .docx (default: ['docx'])
     useAutoDiscovery: boolean; // true = auto-discover all JSON files, false = use manual sections
+    strictValidation?: boolean; // true = invalid data files fail document generation instead of being skipped
+    complianceBaseline?: string; // Path to the IDS baseline (YAML/JSON) that fetched values are checked against
+    changesSince?: string; // Directory with an earlier snapshot of *-data.json files to report changes against
+    changeMarkup?: 'section' | 'redline'; // 'section' = "Changes Since Revision" subsection, 'redline' = marked up specification tables
+    archiveRuns?: boolean; // true = copy every run's data files, document and manifest to the run archive
+    archiveDir?: string; // Root of the run archive (default: archive/)
+    databaseAuthentication?: DatabaseAuthentication; // How DatabaseConnectionManager signs in to Azure SQL (default: 'sql')
     
     // Manual sections (only used if useAutoDiscovery = false)
     documentSections: DocumentSection[];
     
     // Document customization options
     documentCustomization: DocumentCustomization;
+    
+    // Document number, revision, effective date and signatories
+    documentControl?: DocumentControl;
+    
+    // Wording: overrides of the default text templates, extra {{variables}} and environment descriptions
+    templates?: Record<string, string>;
+    templateVariables?: Record<string, string>;
+    environments?: Record<string, EnvironmentConfig>;
+    
+    // Explicit resource names/groups (optional, override environment variables and generated names)
+    resources?: Partial<ResourceConfiguration>;
+    
+    // Manually maintained specifications imported from CSV/XLSX files (optional)
+    imports?: ImportSource[];
+    
+    // Application-level sections read from the SQL database with named queries (optional)
+    sqlQueries?: SqlQuerySection[];
+    
+    // Environments/sites produced by the batch command (optional)
+    batchTargets?: BatchTarget[];
+}
+
+// One environment/site in a batch run - any project setting can be overridden per target
+export type BatchTarget = Partial<Omit<ProjectConfig, 'batchTargets'>>;
+
+// Azure resource names with cross-resource-group support
+export interface ResourceConfiguration {
+    // Primary resource group (fallback for resources that don't specify their own)
+    resourceGroupName: string;
+    
+    // Web App resources (might be in different resource groups)
+    webAppName: string;
+    webAppResourceGroup?: string;
+    legacyPlanName: string;
+    appServicePlanResourceGroup?: string;
+    
+    // SQL resources (might be in different resource groups)
+    sqlServerName: string;
+    sqlServerResourceGroup?: string;
+    sqlDatabaseName: string;
+    
+    // Redis resources (might be in different resource groups)
+    redisCacheName: string;
+    redisCacheResourceGroup?: string;
+    
+    // Storage resources (might be in different resource groups)
+    storageAccountName: string;
+    storageAccountResourceGroup?: string;
+}
+
+// CSV/XLSX file converted into a specification data file, e.g. on-premises components or partner systems
+export interface ImportSource {
+    file: string;                   // Path to the .csv or .xlsx file
+    outputFilename: string;         // Specification data file written to output/, e.g. 'on-prem-data.json'
+    title?: string;                 // Section title in the document (default: derived from outputFilename)
+    sheet?: string;                 // Worksheet of an .xlsx file (default: the first one)
+    delimiter?: string;             // CSV delimiter (default: ';' when the header row contains one, otherwise ',')
+    columns?: ImportColumnMapping;  // Column header per field (default: Section, Specification, Value, Expected, Status, Source, Note, Unit)
+    section?: string;               // Section for every row when the file has no section column
 }
 
+// Column header (case-insensitive) that holds each Specification field
+export type ImportColumnMapping = Partial<Record<keyof Specification, string>>;
+
+// Named SQL query whose result rows become a specification data file, e.g. feature flags or tenant settings
+export interface SqlQuerySection {
+    name: string;                   // Shown in the log, e.g. 'feature-flags'
+    query: string;                  // SQL text; parameters are referenced as @name
+    parameters?: Record<string, string>; // Values of the @name parameters (sent as text)
+    outputFilename: string;         // Specification data file written to output/, e.g. 'feature-flags-data.json'
+    title?: string;                 // Section title in the document (default: derived from outputFilename)
+    section?: string;               // Section for every row (instead of mapping.section)
+    mapping: SqlColumnMapping;
+}
+
+// Result column per field - or a template such as "{{Description}}: {{DefaultValue}}" combining columns
+export type SqlColumnMapping = Partial<Record<keyof Specification, string>> & { title: string; value: string };
+
 // Document section configuration
 export interface DocumentSection {
     filename: string;
     title: string;
-    sectionNumber: string;
     enabled: boolean;
 }
 
@@ -0,0 +1,106 @@
+// src/validation/json-locations.ts
+// Map JSON paths and parser offsets back to line/column numbers for error reports
+import { formatIssuePath } from './schema';
+
+/**
+ * 1-based position in a text file
+ */
+export interface TextLocation {
+    line: number;
+    column: number;
+}
+
+/**
+ * Convert a character offset to a line/column position
+ */
+export function offsetToLocation(text: string, offset: number): TextLocation {
+    const before = text.substring(0, Math.max(0, offset));
+    const lines = before.split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Extract the error location from a JSON.parse error ("... in JSON at position 42")
+ */
+export function getJsonParseErrorLocation(text: string, error: unknown): TextLocation | undefined {
+    const match = /position (\d+)/.exec(error instanceof Error ? error.message : String(error));
+    return match ? offsetToLocation(text, Number(match[1])) : undefined;
+}
+
+/**
+ * Index the start offset of every value in a (valid) JSON document by its formatted path,
+ * e.g. "[3].value" → offset of the value of the 4th element's "value" property.
+ * Object properties are indexed at their key so reports point at the line a reader looks for.
+ */
+export function indexJsonPaths(text: string): Map<string, number> {
+    const offsets = new Map<string, number>();
+    let position = 0;
+
+    const skipWhitespace = () => {
+        while (position < text.length && /\s/.test(text[position])) position++;
+    };
+
+    const readString = (): string => {
+        const start = position;
+        position++; // opening quote
+        while (position < text.length && text[position] !== '"') {
+            position += text[position] === '\\' ? 2 : 1;
+        }
+        position++; // closing quote
+        return JSON.parse(text.substring(start, position));
+    };
+
+    const readValue = (valuePath: (string | number)[], recordAt?: number): void => {
+        skipWhitespace();
+        offsets.set(formatIssuePath(valuePath), recordAt ?? position);
+
+        const char = text[position];
+        if (char === '{') {
+            position++;
+            skipWhitespace();
+            while (text[position] !== '}' && position < text.length) {
+                skipWhitespace();
+                const keyOffset = position;
+                const key = readString();
+                skipWhitespace();
+                position++; // colon
+                readValue([...valuePath, key], keyOffset);
+                skipWhitespace();
+                if (text[position] === ',') position++;
+                skipWhitespace();
+            }
+            position++;
+        } else if (char === '[') {
+            position++;
+            skipWhitespace();
+            let index = 0;
+            while (text[position] !== ']' && position < text.length) {
+                readValue([...valuePath, index++]);
+                skipWhitespace();
+                if (text[position] === ',') position++;
+                skipWhitespace();
+            }
+            position++;
+        } else if (char === '"') {
+            readString();
+        } else {
+            // number, true, false or null
+            while (position < text.length && !/[\s,\]}]/.test(text[position])) position++;
+        }
+    };
+
+    readValue([]);
+    return offsets;
+}
+
+/**
+ * Find the location of a path, falling back to the closest parent that exists
+ * (a missing property is reported at the object that should contain it)
+ */
+export function locateJsonPath(text: string, valuePath: (string | number)[], index: Map<string, number> = indexJsonPaths(text)): TextLocation | undefined {
+    for (let length = valuePath.length; length >= 0; length--) {
+        const offset = index.get(formatIssuePath(valuePath.slice(0, length)));
+        if (offset !== undefined) return offsetToLocation(text, offset);
+    }
+    return undefined;
+}
@@ -0,0 +1,91 @@
+// src/validation/schema.ts
+// Minimal declarative schema validation for configuration and data files
+
+/**
+ * Schema description for a single value
+ */
+export type Schema =
+    | { type: 'string'; optional?: boolean; enum?: string[] }
+    | { type: 'number' | 'boolean'; optional?: boolean }
+    | { type: 'array'; items: Schema; optional?: boolean }
+    | { type: 'object'; properties: Record<string, Schema>; optional?: boolean; allowUnknown?: boolean }
+    | { type: 'record'; values: Schema; optional?: boolean }; // Object with arbitrary keys, e.g. template overrides
+
+/**
+ * A single validation problem
+ */
+export interface SchemaIssue {
+    path: (string | number)[]; // e.g. ['documentSections', 2, 'title']
+    message: string;
+}
+
+/**
+ * Format an issue path as "documentSections[2].title"
+ */
+export function formatIssuePath(issuePath: (string | number)[]): string {
+    return issuePath.reduce<string>((result, segment) => {
+        if (typeof segment === 'number') return `${result}[${segment}]`;
+        return result ? `${result}.${segment}` : segment;
+    }, '') || '(root)';
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/**
+ * Validate a value against a schema and return every issue found
+ */
+export function validateSchema(value: unknown, schema: Schema, issuePath: (string | number)[] = []): SchemaIssue[] {
+    if (value === undefined) {
+        return schema.optional ? [] : [{ path: issuePath, message: 'is required' }];
+    }
+
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') {
+                return [{ path: issuePath, message: `must be a string (got ${describe(value)})` }];
+            }
+            if (schema.enum && !schema.enum.includes(value)) {
+                return [{ path: issuePath, message: `must be one of ${schema.enum.join(', ')} (got "${value}")` }];
+            }
+            return [];
+
+        case 'number':
+        case 'boolean':
+            return typeof value === schema.type
+                ? []
+                : [{ path: issuePath, message: `must be a ${schema.type} (got ${describe(value)})` }];
+
+        case 'array':
+            if (!Array.isArray(value)) {
+                return [{ path: issuePath, message: `must be an array (got ${describe(value)})` }];
+            }
+            return value.flatMap((item, index) => validateSchema(item, schema.items, [...issuePath, index]));
+
+        case 'object': {
+            if (describe(value) !== 'object') {
+                return [{ path: issuePath, message: `must be an object (got ${describe(value)})` }];
+            }
+            const objectValue = value as Record<string, unknown>;
+            const issues = Object.entries(schema.properties)
+                .flatMap(([key, propertySchema]) => validateSchema(objectValue[key], propertySchema, [...issuePath, key]));
+
+            if (!schema.allowUnknown) {
+                Object.keys(objectValue)
+                    .filter(key => !(key in schema.properties))
+                    .forEach(key => issues.push({ path: [...issuePath, key], message: 'is not a known property' }));
+            }
+            return issues;
+        }
+
+        case 'record':
+            if (describe(value) !== 'object') {
+                return [{ path: issuePath, message: `must be an object (got ${describe(value)})` }];
+            }
+            return Object.entries(value as Record<string, unknown>)
+                .flatMap(([key, item]) => validateSchema(item, schema.values, [...issuePath, key]));
+    }
+}
@@ -0,0 +1,106 @@
+// src/validation/specification-validator.ts
+// Runtime validation of specification data files (output/*-data.json)
+import { SpecificationData, SPECIFICATION_STATUSES } from '../types';
+import { Schema, validateSchema, formatIssuePath } from './schema';
+import { getJsonParseErrorLocation, indexJsonPaths, locateJsonPath } from './json-locations';
+
+/**
+ * Schema for a single Specification entry
+ */
+export const SPECIFICATION_SCHEMA: Schema = {
+    type: 'object',
+    properties: {
+        section: { type: 'string' },
+        title: { type: 'string' },
+        value: { type: 'string' },
+        expected: { type: 'string', optional: true },
+        status: { type: 'string', optional: true, enum: SPECIFICATION_STATUSES },
+        source: { type: 'string', optional: true },
+        note: { type: 'string', optional: true },
+        unit: { type: 'string', optional: true }
+    }
+};
+
+/**
+ * Schema for a complete specification data file
+ */
+export const SPECIFICATION_DATA_SCHEMA: Schema = { type: 'array', items: SPECIFICATION_SCHEMA };
+
+/**
+ * A problem found in a specification data file
+ */
+export interface SpecificationIssue {
+    filename: string;
+    line?: number;
+    column?: number;
+    path: string;    // e.g. "[3].value"
+    message: string;
+}
+
+/**
+ * Result of validating one file. `data` holds the valid entries (undefined if nothing was usable).
+ */
+export interface SpecificationValidationResult {
+    filename: string;
+    data?: SpecificationData;
+    issues: SpecificationIssue[];
+}
+
+/**
+ * Thrown when strict validation finds problems in any specification data file
+ */
+export class SpecificationValidationError extends Error {
+    constructor(public readonly issues: SpecificationIssue[]) {
+        super(`Specification data validation failed with ${issues.length} issue(s):\n` +
+            issues.map(issue => `   - ${formatSpecificationIssue(issue)}`).join('\n'));
+        this.name = 'SpecificationValidationError';
+    }
+}
+
+/**
+ * Format an issue as "redis-data.json:12:5 [3].value must be a string (got number)"
+ */
+export function formatSpecificationIssue(issue: SpecificationIssue): string {
+    const location = issue.line !== undefined ? `:${issue.line}:${issue.column}` : '';
+    return `${issue.filename}${location} ${issue.path} ${issue.message}`;
+}
+
+/**
+ * Parse and validate the contents of a specification data file
+ */
+export function validateSpecificationJson(filename: string, contents: string): SpecificationValidationResult {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(contents);
+    } catch (error) {
+        const location = getJsonParseErrorLocation(contents, error);
+        return {
+            filename,
+            issues: [{
+                filename,
+                ...location,
+                path: '(root)',
+                message: `is not valid JSON: ${error instanceof Error ? error.message : error}`
+            }]
+        };
+    }
+
+    const schemaIssues = validateSchema(parsed, SPECIFICATION_DATA_SCHEMA);
+    const pathIndex = indexJsonPaths(contents);
+    const issues: SpecificationIssue[] = schemaIssues.map(issue => ({
+        filename,
+        ...locateJsonPath(contents, issue.path, pathIndex),
+        path: formatIssuePath(issue.path),
+        message: issue.message
+    }));
+
+    if (!Array.isArray(parsed)) {
+        return { filename, issues };
+    }
+
+    // Keep the entries that passed validation so a single bad row does not drop the whole section
+    const invalidIndexes = new Set(schemaIssues.map(issue => issue.path[0]));
+    const data = (parsed as SpecificationData).filter((_, index) => !invalidIndexes.has(index));
+
+    return { filename, data, issues };
+}
@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    archiveRun,
+    createRunManifest,
+    hashConfig,
+    listArchivedRuns,
+    toRevisionHistory
+} from '../../src/archive/run-archive';
+import { getSnapshotLabel } from '../../src/diff/specification-diff';
+import { MemorySpecificationStore, saveJson, saveSpecificationData } from '../../src/persistence/specification-store';
+import { buildDocument } from '../../src/doc-generators/document-generator';
+import { CONFIG } from '../../src/config';
+import { getDocumentXml, splitSections, toReadableText } from '../helpers/docx';
+
+describe('run archive', () => {
+    let rootDir: string;
+    let store: MemorySpecificationStore;
+    let documentPath: string;
+
+    beforeEach(() => {
+        rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-'));
+        store = new MemorySpecificationStore();
+        saveSpecificationData('redis-data.json', [{ section: 'General', title: 'Memory', value: '1 GB' }], store);
+        documentPath = path.join(rootDir, 'report.docx');
+        fs.writeFileSync(documentPath, 'docx');
+    });
+
+    afterEach(() => {
+        fs.rmSync(rootDir, { recursive: true, force: true });
+    });
+
+    it('archives data files, document and manifest under a revision directory', () => {
+        const archiveRoot = path.join(rootDir, 'archive');
+        const manifest = createRunManifest([], store, new Date('2025-01-31T09:30:00Z'));
+        const directory = archiveRun(manifest, documentPath, store, archiveRoot);
+
+        assert.strictEqual(path.basename(directory), 'rev-001_2025-01-31T09-30-00-000Z');
+        assert.deepStrictEqual(fs.readdirSync(directory).sort(), ['manifest.json', 'redis-data.json', 'report.docx']);
+
+        const archived = JSON.parse(fs.readFileSync(path.join(directory, 'manifest.json'), 'utf8'));
+        assert.strictEqual(archived.revision, 1);
+        assert.strictEqual(archived.changes, 'Initial revision');
+        assert.strictEqual(archived.documentFilename, 'report.docx');
+        assert.strictEqual(archived.configHash, hashConfig());
+        assert.strictEqual(archived.subscriptionId, '00000000-0000-0000-0000-000000000000');
+        assert.ok(archived.resourceIds.some((id: string) => id.endsWith('/providers/Microsoft.Cache/Redis/unison-orbia-test')));
+        assert.match(archived.toolVersion, /^\d+\.\d+\.\d+$/);
+    });
+
+    it('archives the raw JSON the document needs besides the data files', () => {
+        saveJson('default-config-raw.json', [{ configkeyNo: 'Session.Timeout', desc: 'Idle timeout in minutes', value: '20' }], store);
+        const manifest = createRunManifest([], store, new Date('2025-01-31T09:30:00Z'));
+        const directory = archiveRun(manifest, documentPath, store, path.join(rootDir, 'archive'));
+
+        assert.deepStrictEqual(manifest.dataFiles, ['default-config-raw.json', 'redis-data.json']);
+        assert.strictEqual(fs.readFileSync(path.join(directory, 'default-config-raw.json'), 'utf8'), store.load('default-config-raw.json'));
+    });
+
+    it('numbers later runs and summarizes their changes', () => {
+        const archiveRoot = path.join(rootDir, 'archive');
+        archiveRun(createRunManifest([], store, new Date('2025-01-31T09:30:00Z')), documentPath, store, archiveRoot);
+
+        saveSpecificationData('redis-data.json', [{ section: 'General', title: 'Memory', value: '2.5 GB' }], store);
+        const runs = listArchivedRuns(archiveRoot);
+        const manifest = createRunManifest(runs, store, new Date('2025-03-01T08:00:00Z'));
+        const pdfPath = path.join(rootDir, 'report.pdf');
+        fs.writeFileSync(pdfPath, 'pdf');
+        const directory = archiveRun(manifest, [documentPath, pdfPath], store, archiveRoot);
+
+        assert.strictEqual(manifest.revision, 2);
+        assert.deepStrictEqual(JSON.parse(fs.readFileSync(path.join(directory, 'manifest.json'), 'utf8')).exportFilenames, ['report.pdf']);
+        assert.ok(fs.existsSync(path.join(directory, 'report.pdf')));
+        assert.strictEqual(manifest.changes, '1 changed, 0 added, 0 removed');
+        assert.strictEqual(getSnapshotLabel(directory), '2');
+        assert.deepStrictEqual(toRevisionHistory(listArchivedRuns(archiveRoot).map(run => run.manifest)), [
+            { revision: '1', date: '2025-01-31', description: 'Initial revision' },
+            { revision: '2', date: '2025-03-01', description: '1 changed, 0 added, 0 removed' }
+        ]);
+    });
+
+    it('keeps the hash stable regardless of key order', () => {
+        const reordered = Object.fromEntries(Object.entries(CONFIG).reverse()) as typeof CONFIG;
+        assert.strictEqual(hashConfig(reordered), hashConfig(CONFIG));
+        assert.notStrictEqual(hashConfig({ ...CONFIG, environment: 'production' }), hashConfig(CONFIG));
+    });
+
+    it('renders the revision history on the title page', async () => {
+        const loadedData = [{ filename: 'redis-data.json', title: 'Redis Cache Specification', data: [] }];
+        const history = [
+            { revision: '1', date: '2025-01-31', description: 'Initial revision' },
+            { revision: '2', date: '2025-03-01', description: '1 changed, 0 added, 0 removed' }
+        ];
+
+        const titlePage = toReadableText(splitSections(await getDocumentXml(buildDocument(loadedData, history)))[0]);
+        assert.match(titlePage, /Revision History\nRevision \| Date \| Description\n1 \| 31 Jan 2025 \| Initial revision\n2 \| 01 Mar 2025 \| 1 changed/);
+    });
+});
@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CONFIG, getResourceNames } from '../src/config';
+import { resolveBatchTargets, runBatch, withBatchTarget } from '../src/batch';
+import { getSpecificationStore, saveSpecificationData } from '../src/persistence/specification-store';
+import { DatabaseConnectionManager } from '../src/data-fetchers/database/00-connect-db';
+import { runSqlQuerySections } from '../src/data-fetchers/database/02-sql-query-sections';
+
+describe('batch', () => {
+    let rootDir: string;
+
+    beforeEach(() => {
+        rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(rootDir, { recursive: true, force: true });
+        delete CONFIG.batchTargets;
+    });
+
+    describe('resolveBatchTargets', () => {
+        it('combines every site with every environment', () => {
+            assert.deepStrictEqual(resolveBatchTargets(['test', 'production'], ['Orbia', 'Acme']), [
+                { siteName: 'Orbia', environment: 'test' },
+                { siteName: 'Orbia', environment: 'production' },
+                { siteName: 'Acme', environment: 'test' },
+                { siteName: 'Acme', environment: 'production' }
+            ]);
+        });
+
+        it('uses the configured site when only environments are given', () => {
+            assert.deepStrictEqual(resolveBatchTargets(['staging']), [{ siteName: 'Orbia', environment: 'staging' }]);
+        });
+
+        it('falls back to batchTargets from the config', () => {
+            CONFIG.batchTargets = [{ environment: 'production' }];
+            assert.deepStrictEqual(resolveBatchTargets(), [{ environment: 'production' }]);
+        });
+    });
+
+    describe('withBatchTarget', () => {
+        it('applies the target naming and an isolated store, then restores both', async () => {
+            const originalStore = getSpecificationStore();
+
+            await withBatchTarget({ environment: 'production', resources: { redisCacheName: 'prod-redis' } }, async (config, store) => {
+                assert.strictEqual(config.baseResourceName, 'unison-orbia-production');
+                assert.strictEqual(getResourceNames().sqlServerName, 'unison-orbia-production');
+                assert.strictEqual(getResourceNames().redisCacheName, 'prod-redis');
+                assert.strictEqual(store.location, path.join(rootDir, 'unison-orbia-production'));
+                assert.strictEqual(getSpecificationStore(), store);
+            }, rootDir);
+
+            assert.strictEqual(CONFIG.environment, 'test');
+            assert.strictEqual(CONFIG.baseResourceName, 'unison-orbia-test');
+            assert.strictEqual(CONFIG.resources, undefined);
+            assert.strictEqual(getSpecificationStore(), originalStore);
+        });
+
+        it('keeps top-level resources out of targets in another environment', async () => {
+            CONFIG.resources = { sqlServerName: 'sql-test-legacy', redisCacheName: 'redis-test' };
+            const originalWarn = console.warn;
+            const warnings: string[] = [];
+            console.warn = (message: string) => warnings.push(message);
+
+            try {
+                await withBatchTarget({ environment: 'test' }, async () => {
+                    assert.strictEqual(getResourceNames().sqlServerName, 'sql-test-legacy');
+                }, rootDir);
+                await withBatchTarget({ environment: 'production', resources: { redisCacheName: 'redis-prod' } }, async () => {
+                    assert.strictEqual(getResourceNames().sqlServerName, 'unison-orbia-production');
+                    assert.strictEqual(getResourceNames().redisCacheName, 'redis-prod');
+                }, rootDir);
+            } finally {
+                console.warn = originalWarn;
+                delete CONFIG.resources;
+            }
+
+            assert.deepStrictEqual(warnings, [
+                "⚠️  Top-level resources (sqlServerName) are not applied to Orbia / production; set them under the batch target's resources if they apply"
+            ]);
+        });
+    });
+
+    describe('runBatch', () => {
+        it('writes each target to its own directory and keeps going after a failure', async () => {
+            const results = await runBatch(
+                [{ environment: 'test' }, { environment: 'staging' }, { environment: 'production' }],
+                async documentPath => {
+                    if (CONFIG.environment === 'staging') throw new Error('subscription not found');
+                    saveSpecificationData('redis-data.json', [{ section: 'General', title: 'Name', value: CONFIG.baseResourceName }]);
+                    fs.writeFileSync(documentPath, 'docx');
+                },
+                rootDir
+            );
+
+            assert.deepStrictEqual(results.map(result => [result.label, result.success]), [
+                ['Orbia / test', true],
+                ['Orbia / staging', false],
+                ['Orbia / production', true]
+            ]);
+            assert.strictEqual(results[1].error, 'subscription not found');
+
+            const productionDir = path.join(rootDir, 'unison-orbia-production');
+            assert.ok(fs.existsSync(path.join(productionDir, 'unison-orbia-production-infrastructure-design-specification-report.docx')));
+            assert.match(fs.readFileSync(path.join(productionDir, 'redis-data.json'), 'utf8'), /unison-orbia-production/);
+        });
+
+        it('connects each target to its own SQL server', async () => {
+            const prototype = DatabaseConnectionManager.prototype;
+            const original = { connect: prototype.connect, disconnect: prototype.disconnect, executeParameterizedQuery: prototype.executeParameterizedQuery };
+            const savedUser = process.env.db_user;
+            const savedPassword = process.env.db_password;
+            process.env.db_user = 'reporter';
+            process.env.db_password = 'secret';
+
+            // Answer every query with the server the manager was created for
+            prototype.connect = async () => {};
+            prototype.disconnect = async () => {};
+            prototype.executeParameterizedQuery = async function <T>(this: DatabaseConnectionManager) {
+                return [{ Name: 'Server', Value: this.getConnectionInfo().server }] as T[];
+            };
+
+            try {
+                CONFIG.sqlQueries = [{
+                    name: 'server',
+                    query: 'SELECT @@SERVERNAME',
+                    outputFilename: 'server-data.json',
+                    section: 'General',
+                    mapping: { title: 'Name', value: 'Value' }
+                }];
+
+                const results = await runBatch(
+                    [{ environment: 'staging', resources: { sqlServerName: 'staging-sql' } }, { environment: 'production', resources: { sqlServerName: 'prod-sql' } }],
+                    async () => { await runSqlQuerySections(); },
+                    rootDir
+                );
+
+                assert.ok(results.every(result => result.success));
+                assert.deepStrictEqual(results.map(result => JSON.parse(fs.readFileSync(path.join(result.outputDir, 'server-data.json'), 'utf8'))), [
+                    [{ section: 'General', title: 'Server', value: 'staging-sql' }],
+                    [{ section: 'General', title: 'Server', value: 'prod-sql' }]
+                ]);
+            } finally {
+                Object.assign(prototype, original);
+                delete CONFIG.sqlQueries;
+                process.env.db_user = savedUser;
+                process.env.db_password = savedPassword;
+                if (savedUser === undefined) delete process.env.db_user;
+                if (savedPassword === undefined) delete process.env.db_password;
+            }
+        });
+    });
+});
@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+    applyComplianceBaseline,
+    isCompliant,
+    loadComplianceBaseline,
+    parseComplianceBaseline,
+    summarizeCompliance
+} from '../../src/compliance/compliance-engine';
+import { buildDocument } from '../../src/doc-generators/document-generator';
+import { SchemaIssue, formatIssuePath } from '../../src/validation/schema';
+import { getDocumentXml, splitSections, toReadableText } from '../helpers/docx';
+
+const BASELINE = parseComplianceBaseline({
+    redis: {
+        'Advanced settings': {
+            'Non-SSL Port': 'Disabled',
+            'Minimum TLS version': { expected: '1.2', match: 'min' },
+            'Maxmemory policy': 'allkeys-lru'
+        }
+    }
+});
+
+const REDIS_DATA = [
+    { section: 'General', title: 'Memory', value: '1 GB' },
+    { section: 'Advanced settings', title: 'Non-SSL Port', value: 'disabled' },
+    { section: 'Advanced settings', title: 'Minimum TLS version', value: '1.0' }
+];
+
+describe('compliance engine', () => {
+    describe('isCompliant', () => {
+        it('compares text ignoring case and whitespace', () => {
+            assert.ok(isCompliant(' Enabled ', 'enabled'));
+            assert.ok(!isCompliant('Enabled', 'Disabled'));
+        });
+
+        it('supports contains and minimum version matches', () => {
+            assert.ok(isCompliant('SSL TLS1.2, SSL port 6380', 'TLS1.2', 'contains'));
+            assert.ok(isCompliant('TLS1_2', '1.2', 'min'));
+            assert.ok(isCompliant('1.3', '1.2', 'min'));
+            assert.ok(isCompliant('Daily, Retention 14 Days', '7', 'min'));
+            assert.ok(!isCompliant('1.0', '1.2', 'min'));
+            assert.ok(!isCompliant('-', '1.2', 'min'));
+        });
+    });
+
+    describe('parseComplianceBaseline', () => {
+        it('resolves fetcher ids to data files', () => {
+            assert.deepStrictEqual(BASELINE[1], {
+                filename: 'redis-data.json',
+                section: 'Advanced settings',
+                title: 'Minimum TLS version',
+                expected: '1.2',
+                match: 'min',
+                note: undefined
+            });
+        });
+
+        it('reports unknown fetchers and malformed requirements', () => {
+            const issues: SchemaIssue[] = [];
+            parseComplianceBaseline({
+                sendgrid: { General: { Plan: 'Pro' } },
+                redis: { General: { Memory: { expected: '1 GB', match: 'approximately' } } }
+            }, issues);
+
+            assert.deepStrictEqual(issues.map(issue => `${formatIssuePath(issue.path)} ${issue.message}`), [
+                'sendgrid is not a registered fetcher id or a *.json data file',
+                'redis.General.Memory.match must be one of equals, contains, min (got "approximately")'
+            ]);
+        });
+
+        it('loads the example baseline', () => {
+            const requirements = loadComplianceBaseline(path.join(__dirname, '../../baselines/example-ids-baseline.yaml'));
+            assert.ok(requirements.some(requirement => requirement.filename === 'database-data.json'));
+        });
+    });
+
+    describe('applyComplianceBaseline', () => {
+        it('marks rows as pass, fail or missing', () => {
+            const annotated = applyComplianceBaseline('redis-data.json', REDIS_DATA, BASELINE);
+
+            assert.deepStrictEqual(annotated.map(item => [item.title, item.expected, item.status]), [
+                ['Memory', undefined, undefined],
+                ['Non-SSL Port', 'Disabled', 'pass'],
+                ['Minimum TLS version', '1.2', 'fail'],
+                ['Maxmemory policy', 'allkeys-lru', 'missing']
+            ]);
+        });
+
+        it('compares values with a unit including and excluding the unit', () => {
+            const baseline = parseComplianceBaseline({ redis: { General: { Memory: '6 GB', 'Max size': '250' } } });
+            const annotated = applyComplianceBaseline('redis-data.json', [
+                { section: 'General', title: 'Memory', value: '6', unit: 'GB' },
+                { section: 'General', title: 'Max size', value: '250', unit: 'GB' }
+            ], baseline);
+
+            assert.deepStrictEqual(annotated.map(item => item.status), ['pass', 'pass']);
+        });
+
+        it('gives the same result when applied twice', () => {
+            const once = applyComplianceBaseline('redis-data.json', REDIS_DATA, BASELINE);
+            assert.deepStrictEqual(applyComplianceBaseline('redis-data.json', once, BASELINE), once);
+        });
+
+        it('leaves files without requirements untouched', () => {
+            assert.strictEqual(applyComplianceBaseline('storage-data.json', REDIS_DATA, BASELINE), REDIS_DATA);
+        });
+    });
+
+    it('summarizes and renders the compliance summary section', async () => {
+        const loadedData = [{
+            filename: 'redis-data.json',
+            title: 'Redis Cache Specification',
+            data: applyComplianceBaseline('redis-data.json', REDIS_DATA, BASELINE)
+        }];
+
+        assert.deepStrictEqual(summarizeCompliance(loadedData), [{ title: 'Redis Cache Specification', pass: 1, fail: 1, missing: 1 }]);
+
+        const sections = splitSections(await getDocumentXml(buildDocument(loadedData)));
+        const text = toReadableText(sections[5]);
+
+        assert.match(text, /3\.3 Compliance Summary/);
+        assert.match(text, /Redis Cache Specification \| 1 \| 1 \| 1 \| Not compliant/);
+        assert.match(text, /Redis Cache Specification \| Advanced settings – Minimum TLS version \| 1\.2 \| 1\.0 \| Fail/);
+    });
+});
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CONFIG, getResourceNames } from '../src/config';
+import { interpolateEnvironment, mergeProjectConfig, readProjectConfigFile } from '../src/config-file';
+import { SchemaIssue } from '../src/validation/schema';
+import { ProjectConfig } from '../src/types';
+
+describe('config-file', () => {
+    let tempDir: string;
+
+    const writeConfig = (filename: string, contents: string): string => {
+        const filePath = path.join(tempDir, filename);
+        fs.writeFileSync(filePath, contents);
+        return filePath;
+    };
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-file-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    describe('interpolateEnvironment', () => {
+        it('replaces ${VAR} and ${VAR:-default} in nested strings', () => {
+            const env = { site: 'Orbia' };
+            const result = interpolateEnvironment({ siteName: '${site}', list: ['${missing:-fallback}'], enabled: true }, env);
+
+            assert.deepStrictEqual(result, { siteName: 'Orbia', list: ['fallback'], enabled: true });
+        });
+
+        it('reports variables that are not set and have no default', () => {
+            const issues: SchemaIssue[] = [];
+            interpolateEnvironment({ resources: { webAppName: '${web_app}' } }, {}, issues);
+
+            assert.deepStrictEqual(issues, [{
+                path: ['resources', 'webAppName'],
+                message: 'references environment variable web_app, which is not set'
+            }]);
+        });
+    });
+
+    describe('readProjectConfigFile', () => {
+        it('reads YAML and JSON files', () => {
+            const yamlPath = writeConfig('site.yaml', 'siteName: ${site_name}\nuseAutoDiscovery: true\n');
+            const jsonPath = writeConfig('site.json', JSON.stringify({ environment: 'production' }));
+
+            assert.deepStrictEqual(readProjectConfigFile(yamlPath), { siteName: 'Orbia', useAutoDiscovery: true });
+            assert.deepStrictEqual(readProjectConfigFile(jsonPath), { environment: 'production' });
+        });
+
+        it('treats an empty file as "use all defaults"', () => {
+            assert.deepStrictEqual(readProjectConfigFile(writeConfig('empty.yaml', '')), {});
+        });
+
+        it('lists every schema problem with its path', () => {
+            const filePath = writeConfig('bad.yaml', [
+                'siteName: 42',
+                'documentSections:',
+                '  - { filename: redis-data.json, title: Redis, sectionNumber: "3.1", enabled: "yes" }',
+                'colour: blue'
+            ].join('\n'));
+
+            assert.throws(() => readProjectConfigFile(filePath), (error: Error) => {
+                assert.match(error.message, /siteName must be a string \(got number\)/);
+                assert.match(error.message, /documentSections\[0\]\.enabled must be a boolean \(got string\)/);
+                assert.match(error.message, /colour is not a known property/);
+                return true;
+            });
+        });
+
+        it('reports missing files', () => {
+            assert.throws(() => readProjectConfigFile(path.join(tempDir, 'missing.yaml')), /Config file not found/);
+        });
+    });
+
+    describe('mergeProjectConfig', () => {
+        const base = (): ProjectConfig => JSON.parse(JSON.stringify(CONFIG));
+
+        it('re-derives the base resource name and output filename from a new site', () => {
+            const merged = mergeProjectConfig(base(), { siteName: 'Acme', environment: 'prod' });
+
+            assert.strictEqual(merged.baseResourceName, 'unison-acme-prod');
+            assert.strictEqual(merged.outputFilename, 'unison-acme-prod-infrastructure-design-specification-report.docx');
+        });
+
+        it('keeps explicitly configured names', () => {
+            const merged = mergeProjectConfig(base(), { siteName: 'Acme', baseResourceName: 'acme-shared' });
+
+            assert.strictEqual(merged.baseResourceName, 'acme-shared');
+        });
+
+        it('merges nested objects per key and replaces arrays', () => {
+            const merged = mergeProjectConfig(base(), {
+                documentCustomization: { includeGlossary: false } as ProjectConfig['documentCustomization'],
+                documentSections: [{ filename: 'redis-data.json', title: 'Redis', enabled: true }]
+            });
+
+            assert.strictEqual(merged.documentCustomization.includeGlossary, false);
+            assert.strictEqual(merged.documentCustomization.includeReferences, CONFIG.documentCustomization.includeReferences);
+            assert.strictEqual(merged.documentSections.length, 1);
+        });
+    });
+
+    it('lets configured resources override generated names', () => {
+        const original = CONFIG.resources;
+        try {
+            CONFIG.resources = { redisCacheName: 'shared-redis' };
+            assert.strictEqual(getResourceNames().redisCacheName, 'shared-redis');
+            assert.strictEqual(getResourceNames().sqlServerName, 'unison-orbia-test');
+        } finally {
+            CONFIG.resources = original;
+        }
+    });
+});
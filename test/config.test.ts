@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { sanitizeForFilename, CONFIG } from '../src/config';
+
+describe('config', () => {
+    describe('sanitizeForFilename', () => {
+        it('replaces whitespace with single hyphens', () => {
+            assert.strictEqual(sanitizeForFilename('Infrastructure  Design Specification'), 'Infrastructure-Design-Specification');
+        });
+
+        it('removes brackets and invalid filename characters', () => {
+            assert.strictEqual(sanitizeForFilename('Unison (EU) [v2] {beta}'), 'Unison-EU-v2-beta');
+            assert.strictEqual(sanitizeForFilename('a<b>c:d"e/f\\g|h?i*j'), 'abcdefghij');
+        });
+
+        it('collapses and trims hyphens', () => {
+            assert.strictEqual(sanitizeForFilename('--orbia---test--'), 'orbia-test');
+        });
+
+        it('treats empty input as an empty string', () => {
+            assert.strictEqual(sanitizeForFilename(''), '');
+            assert.strictEqual(sanitizeForFilename(undefined as unknown as string), '');
+        });
+    });
+
+    it('derives the base resource name and output filename from the environment', () => {
+        assert.strictEqual(CONFIG.baseResourceName, 'unison-orbia-test');
+        assert.strictEqual(CONFIG.outputFilename, 'unison-orbia-test-infrastructure-design-specification-report.docx');
+    });
+});
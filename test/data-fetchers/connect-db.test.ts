@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { AccessToken, TokenCredential } from '@azure/identity';
+import { DatabaseConnectionManager, AZURE_SQL_TOKEN_SCOPE } from '../../src/data-fetchers/database/00-connect-db';
+import { CONFIG } from '../../src/config';
+
+/**
+ * Credential that records the requested scopes and returns a fixed token
+ */
+function createCredential(): TokenCredential & { scopes: string[] } {
+    const scopes: string[] = [];
+    return {
+        scopes,
+        getToken: async (scope: string | string[]): Promise<AccessToken> => {
+            scopes.push(...([] as string[]).concat(scope));
+            return { token: 'entra-token', expiresOnTimestamp: Date.now() + 60 * 60 * 1000 };
+        }
+    };
+}
+
+describe('DatabaseConnectionManager sign-in', () => {
+    const savedUser = process.env.db_user;
+    const savedPassword = process.env.db_password;
+
+    beforeEach(() => {
+        delete process.env.db_user;
+        delete process.env.db_password;
+    });
+
+    afterEach(() => {
+        CONFIG.databaseAuthentication = 'sql';
+        process.env.db_user = savedUser;
+        process.env.db_password = savedPassword;
+        if (savedUser === undefined) delete process.env.db_user;
+        if (savedPassword === undefined) delete process.env.db_password;
+    });
+
+    it('requires db_user and db_password for a SQL login', async () => {
+        assert.throws(() => new DatabaseConnectionManager(), /Missing required environment variables: DB_USER, DB_PASSWORD/);
+
+        process.env.db_user = 'reporter';
+        process.env.db_password = 'secret';
+        const config = await new DatabaseConnectionManager().getConnectionConfig();
+
+        assert.strictEqual(config.user, 'reporter');
+        assert.strictEqual(config.password, 'secret');
+        assert.strictEqual(config.authentication, undefined);
+    });
+
+    it('signs in with an Entra ID access token instead of a SQL login', async () => {
+        CONFIG.databaseAuthentication = 'entra';
+        const credential = createCredential();
+        const manager = new DatabaseConnectionManager(credential);
+
+        const config = await manager.getConnectionConfig();
+
+        assert.deepStrictEqual(credential.scopes, [AZURE_SQL_TOKEN_SCOPE]);
+        assert.deepStrictEqual(config.authentication, { type: 'azure-active-directory-access-token', options: { token: 'entra-token' } });
+        assert.strictEqual(config.user, undefined);
+        assert.strictEqual(config.server, manager.getConnectionInfo().server);
+        assert.strictEqual(manager.getConnectionInfo().user, 'Entra ID token');
+    });
+
+    it('reports a credential that returns no token', async () => {
+        CONFIG.databaseAuthentication = 'entra';
+        const manager = new DatabaseConnectionManager({ getToken: async () => null });
+
+        await assert.rejects(manager.getConnectionConfig(), /Could not get an Entra ID access token/);
+    });
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHttpHeaders, createPipelineRequest, HttpClient } from '@azure/core-rest-pipeline';
+import { RecordingHttpClient, ReplayHttpClient, normalizeRecordedUrl } from '../../src/data-fetchers/recording/recorded-http-client';
+import { fetchRedisDetails } from '../../src/data-fetchers/azure/03-redis';
+
+const REDIS_URL = 'https://management.azure.com/subscriptions/1111-2222/resourceGroups/rg-test/providers/Microsoft.Cache/redis/cache-test?api-version=2024-11-01';
+
+const REDIS_RESPONSE = {
+    id: '/subscriptions/1111-2222/resourceGroups/rg-test/providers/Microsoft.Cache/redis/cache-test',
+    location: 'southeastasia',
+    properties: {
+        sku: { name: 'Standard', family: 'C', capacity: 1 },
+        sslPort: 6380,
+        enableNonSslPort: false,
+        minimumTlsVersion: '1.2',
+        redisVersion: '6.0'
+    }
+};
+
+describe('record/replay HTTP clients', () => {
+    let fixturesDir: string;
+
+    beforeEach(() => {
+        fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-'));
+        process.env.azure_fixtures_dir = fixturesDir;
+    });
+
+    afterEach(() => {
+        delete process.env.azure_fixtures_dir;
+        fs.rmSync(fixturesDir, { recursive: true, force: true });
+    });
+
+    it('normalizes the subscription ID in recorded URLs', () => {
+        assert.strictEqual(
+            normalizeRecordedUrl(REDIS_URL),
+            'https://management.azure.com/subscriptions/{subscriptionId}/resourceGroups/rg-test/providers/Microsoft.Cache/redis/cache-test?api-version=2024-11-01'
+        );
+    });
+
+    it('replays a recorded response without sensitive headers', async () => {
+        const live: HttpClient = {
+            sendRequest: async (request) => ({
+                request,
+                status: 200,
+                headers: createHttpHeaders({ 'content-type': 'application/json', 'set-cookie': 'secret' }),
+                bodyAsText: JSON.stringify(REDIS_RESPONSE)
+            })
+        };
+
+        await new RecordingHttpClient(fixturesDir, live).sendRequest(createPipelineRequest({ url: REDIS_URL, method: 'GET' }));
+
+        const [fixture] = fs.readdirSync(fixturesDir);
+        assert.ok(fixture.startsWith('GET-cache-test-'));
+        assert.deepStrictEqual(JSON.parse(fs.readFileSync(path.join(fixturesDir, fixture), 'utf8')).response.headers, { 'content-type': 'application/json' });
+
+        const otherSubscriptionUrl = REDIS_URL.replace('1111-2222', '3333-4444');
+        const replayed = await new ReplayHttpClient(fixturesDir).sendRequest(createPipelineRequest({ url: otherSubscriptionUrl, method: 'GET' }));
+        assert.strictEqual(replayed.status, 200);
+        assert.deepStrictEqual(JSON.parse(replayed.bodyAsText!), REDIS_RESPONSE);
+    });
+
+    it('answers unrecorded requests with a 404', async () => {
+        const response = await new ReplayHttpClient(fixturesDir).sendRequest(createPipelineRequest({ url: REDIS_URL, method: 'GET' }));
+        assert.strictEqual(response.status, 404);
+    });
+
+    it('regenerates fetcher output from recordings', async () => {
+        const live: HttpClient = {
+            sendRequest: async (request) => ({
+                request,
+                status: 200,
+                headers: createHttpHeaders({ 'content-type': 'application/json' }),
+                bodyAsText: JSON.stringify(REDIS_RESPONSE)
+            })
+        };
+        await new RecordingHttpClient(fixturesDir, live).sendRequest(createPipelineRequest({ url: REDIS_URL, method: 'GET' }));
+
+        const data = await fetchRedisDetails('rg-test', 'cache-test');
+
+        assert.deepStrictEqual(data.find(item => item.title === 'Memory'), { section: 'General', title: 'Memory', value: '1', unit: 'GB' });
+        assert.deepStrictEqual(data.find(item => item.title === 'Location'), { section: 'General', title: 'Location', value: 'southeastasia', source: 'redis: location' });
+        assert.deepStrictEqual(data.find(item => item.title === 'Diagnostic settings'), { section: 'Monitoring', title: 'Diagnostic settings', value: 'Disabled' });
+    });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { getSkuDetails, getSLA } from '../../src/data-fetchers/azure/03-redis';
+import { splitQuantity } from '../../src/data-fetchers/registry';
+
+describe('Redis fetcher', () => {
+    describe('getSkuDetails', () => {
+        it('maps Basic and Standard C-family capacities', () => {
+            assert.deepStrictEqual(getSkuDetails('Basic', 'C', 0), { memory: '250 MB', connections: 'Up to 256' });
+            assert.deepStrictEqual(getSkuDetails('Standard', 'C', 1), { memory: '1 GB', connections: 'Up to 1,000' });
+            assert.deepStrictEqual(getSkuDetails('Standard', 'C', 6), { memory: '53 GB', connections: 'Up to 20,000' });
+        });
+
+        it('maps Premium P-family capacities', () => {
+            assert.deepStrictEqual(getSkuDetails('Premium', 'P', 1), { memory: '6 GB', connections: 'Up to 7,500' });
+            assert.deepStrictEqual(getSkuDetails('Premium', 'P', 5), { memory: '120 GB', connections: 'Up to 40,000' });
+        });
+
+        it('returns dashes when the SKU is incomplete', () => {
+            assert.deepStrictEqual(getSkuDetails(undefined, 'C', 1), { memory: '-', connections: '-' });
+            assert.deepStrictEqual(getSkuDetails('Standard', undefined, 1), { memory: '-', connections: '-' });
+            assert.deepStrictEqual(getSkuDetails('Standard', 'C', undefined), { memory: '-', connections: '-' });
+        });
+
+        it('falls back to the raw SKU for unknown combinations', () => {
+            assert.deepStrictEqual(getSkuDetails('Premium', 'P', 0), { memory: 'Premium P0', connections: '-' });
+            assert.deepStrictEqual(getSkuDetails('Enterprise', 'E', 10), { memory: 'Enterprise E10', connections: '-' });
+        });
+    });
+
+    describe('getSLA', () => {
+        it('returns the SLA per tier, case-insensitively', () => {
+            assert.strictEqual(getSLA('Basic'), '99.9%');
+            assert.strictEqual(getSLA('standard'), '99.9%');
+            assert.strictEqual(getSLA('PREMIUM'), '99.95%');
+        });
+
+        it('handles missing and unknown tiers', () => {
+            assert.strictEqual(getSLA(undefined), '-');
+            assert.strictEqual(getSLA('Enterprise'), 'At least 99.9%');
+        });
+    });
+
+    describe('splitQuantity', () => {
+        it('splits the memory size into value and unit', () => {
+            assert.deepStrictEqual(splitQuantity('2.5 GB'), { value: '2.5', unit: 'GB' });
+            assert.deepStrictEqual(splitQuantity('250 MB'), { value: '250', unit: 'MB' });
+        });
+
+        it('keeps other text as the value', () => {
+            assert.deepStrictEqual(splitQuantity('Premium P0'), { value: 'Premium P0' });
+            assert.deepStrictEqual(splitQuantity('-'), { value: '-' });
+        });
+    });
+});
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { DataFetcher, createFetcherContext, getRegisteredFetchers } from '../../src/data-fetchers/registry';
+import { CONFIG } from '../../src/config';
+
+const NEW_FETCHER: DataFetcher = {
+    id: 'new-resource',
+    outputFilename: 'new-resource-data.json',
+    defaultSectionTitle: 'New Resource Specification',
+    resourceType: 'newresource',
+    fetch: async ctx => [{ section: 'General', title: 'Resource group', value: ctx.resourceGroup }]
+};
+
+describe('fetcher registry', () => {
+    afterEach(() => {
+        delete process.env.newresource_resource_group;
+        delete CONFIG.resources;
+    });
+
+    it('gives each fetcher the resource group of its resourceType', () => {
+        CONFIG.resources = { redisCacheResourceGroup: 'rg-cache' };
+        const redis = getRegisteredFetchers().find(fetcher => fetcher.id === 'redis')!;
+
+        assert.strictEqual(createFetcherContext(redis).resourceGroup, 'rg-cache');
+        assert.strictEqual(createFetcherContext(redis).getResourceGroup('sql'), 'unison-orbia-test');
+    });
+
+    it('resolves new resource types without changes to getResourceGroup', async () => {
+        assert.strictEqual(createFetcherContext(NEW_FETCHER).resourceGroup, 'unison-orbia-test');
+
+        process.env.newresource_resource_group = 'rg-shared';
+        const data = await NEW_FETCHER.fetch(createFetcherContext(NEW_FETCHER));
+
+        assert.strictEqual(data[0].value, 'rg-shared');
+    });
+});
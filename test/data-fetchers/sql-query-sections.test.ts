@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { mapQueryRows, runSqlQuerySections, SqlQueryRunner } from '../../src/data-fetchers/database/02-sql-query-sections';
+import { resolveDocumentSections } from '../../src/doc-generators/utils/data-loader';
+import { MemorySpecificationStore, loadJson } from '../../src/persistence/specification-store';
+import { SqlQuerySection } from '../../src/types';
+import { CONFIG } from '../../src/config';
+
+const FEATURE_FLAGS: SqlQuerySection = {
+    name: 'feature-flags',
+    query: 'SELECT Area, FlagName, Enabled, Description FROM FeatureFlags WHERE TenantId = @tenant',
+    parameters: { tenant: 'orbia' },
+    outputFilename: 'feature-flags-data.json',
+    mapping: { section: 'Area', title: 'FlagName', value: 'enabled', note: '{{Description}}' }
+};
+
+/**
+ * Stand-in for DatabaseConnectionManager that records the calls
+ */
+function createRunner(rows: Record<string, unknown>[]): SqlQueryRunner & { calls: string[] } {
+    const calls: string[] = [];
+    return {
+        calls,
+        connect: async () => { calls.push('connect'); },
+        disconnect: async () => { calls.push('disconnect'); },
+        executeParameterizedQuery: async <T>(query: string, parameters: Record<string, unknown>, description?: string) => {
+            calls.push(`${description}: ${query} ${JSON.stringify(parameters)}`);
+            return rows as T[];
+        }
+    };
+}
+
+describe('SQL query sections', () => {
+    afterEach(() => {
+        delete CONFIG.sqlQueries;
+    });
+
+    it('maps result columns and templates to specification fields', () => {
+        const data = mapQueryRows([
+            { Area: 'Billing', FlagName: 'NewInvoices', Enabled: true, Description: 'Invoice layout v2' },
+            { Area: 'Billing', FlagName: null, Enabled: false, Description: '' },
+            { Area: 'Reports', FlagName: 'Export', Enabled: null, Description: null }
+        ], FEATURE_FLAGS);
+
+        assert.deepStrictEqual(data, [
+            { section: 'Billing', title: 'NewInvoices', value: 'true', note: 'Invoice layout v2' },
+            { section: 'Reports', title: 'Export', value: '-' }
+        ]);
+        assert.deepStrictEqual(mapQueryRows([{ ConfigKey: 'Timeout', Description: 'Session timeout', DefaultValue: 30 }], {
+            name: 'default-config',
+            query: 'SELECT * FROM Configuration',
+            outputFilename: 'default-config-data.json',
+            section: 'Default Configuration',
+            mapping: { title: 'ConfigKey', value: '{{Description}}: {{DefaultValue}}' }
+        }), [{ section: 'Default Configuration', title: 'Timeout', value: 'Session timeout: 30' }]);
+    });
+
+    it('reports unknown columns and a missing section', () => {
+        assert.throws(() => mapQueryRows([{ Area: 'Billing' }], FEATURE_FLAGS), /Column "FlagName" not returned by SQL query "feature-flags" \(columns: Area\)/);
+        assert.throws(() => mapQueryRows([], { ...FEATURE_FLAGS, mapping: { title: 'FlagName', value: 'Enabled' } }), /needs a section or a mapping\.section column/);
+    });
+
+    it('runs every query over one connection and saves the data files', async () => {
+        const runner = createRunner([{ Area: 'Billing', FlagName: 'NewInvoices', Enabled: 1, Description: null }]);
+        const store = new MemorySpecificationStore();
+        const tenantSettings = { ...FEATURE_FLAGS, name: 'tenant-settings', outputFilename: 'tenant-settings-data.json' };
+
+        await runSqlQuerySections([FEATURE_FLAGS, tenantSettings], runner, store);
+
+        assert.deepStrictEqual(runner.calls, [
+            'connect',
+            `feature-flags: ${FEATURE_FLAGS.query} {"tenant":"orbia"}`,
+            `tenant-settings: ${FEATURE_FLAGS.query} {"tenant":"orbia"}`,
+            'disconnect'
+        ]);
+        assert.deepStrictEqual(loadJson('tenant-settings-data.json', store), [{ section: 'Billing', title: 'NewInvoices', value: '1' }]);
+    });
+
+    it('needs no database connection without queries', async () => {
+        assert.deepStrictEqual(await runSqlQuerySections([]), {});
+        await assert.rejects(runSqlQuerySections([{ ...FEATURE_FLAGS, outputFilename: 'flags.json' }], createRunner([])), /outputFilename must end with -data\.json/);
+    });
+
+    it('adds query sections to the document sections', () => {
+        CONFIG.sqlQueries = [{ ...FEATURE_FLAGS, title: 'Feature Flags' }];
+        assert.deepStrictEqual(resolveDocumentSections().slice(-1), [{ filename: 'feature-flags-data.json', title: 'Feature Flags', enabled: true }]);
+    });
+});
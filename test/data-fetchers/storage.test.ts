@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { getReplicationDetails, getStorageSLA, getEncryptionType } from '../../src/data-fetchers/azure/02-storage';
+
+describe('Storage fetcher', () => {
+    describe('getReplicationDetails', () => {
+        it('describes locally and zone redundant storage', () => {
+            assert.deepStrictEqual(getReplicationDetails('Standard_LRS'), { replicas: '3 local replicas', locations: 'Single region' });
+            assert.deepStrictEqual(getReplicationDetails('Standard_ZRS'), { replicas: '3 zone replicas', locations: 'Single region (zone-redundant)' });
+        });
+
+        it('describes geo-redundant storage with and without a secondary location', () => {
+            assert.deepStrictEqual(getReplicationDetails('Standard_GRS'), { replicas: 'At least 6 replicas', locations: 'Geo-redundant' });
+            assert.strictEqual(getReplicationDetails('Standard_RAGRS', 'westus').locations, 'Primary – \nSecondary – westus');
+            assert.deepStrictEqual(getReplicationDetails('Standard_GZRS'), { replicas: 'At least 6 replicas (zone + geo)', locations: 'Zone + Geo redundant' });
+            assert.strictEqual(getReplicationDetails('Standard_RAGZRS', 'westus').locations, 'Primary – \nSecondary – westus');
+        });
+
+        it('handles missing and unknown SKUs', () => {
+            assert.deepStrictEqual(getReplicationDetails(undefined), { replicas: '-', locations: '-' });
+            assert.deepStrictEqual(getReplicationDetails('Premium_LRS'), { replicas: 'At least 1', locations: '-' });
+        });
+    });
+
+    describe('getStorageSLA', () => {
+        it('uses the access tier when present', () => {
+            assert.strictEqual(getStorageSLA('Standard_GRS', 'Hot'), '99.9%');
+            assert.strictEqual(getStorageSLA('Standard_LRS', 'Hot'), '99.9%');
+            assert.strictEqual(getStorageSLA('Standard_LRS', 'Cool'), '99.0%');
+        });
+
+        it('falls back to the standard range', () => {
+            assert.strictEqual(getStorageSLA('Standard_LRS'), '99.5% - 99.9%');
+            assert.strictEqual(getStorageSLA('Premium_LRS'), '99.5% - 99.9%');
+            assert.strictEqual(getStorageSLA(undefined, 'Hot'), '-');
+        });
+    });
+
+    describe('getEncryptionType', () => {
+        it('detects customer-managed keys', () => {
+            assert.strictEqual(getEncryptionType({ keySource: 'Microsoft.Keyvault' }), 'Customer-managed keys');
+        });
+
+        it('defaults to Microsoft-managed keys', () => {
+            assert.strictEqual(getEncryptionType(undefined), 'Microsoft-managed keys');
+            assert.strictEqual(getEncryptionType({ keySource: 'Microsoft.Storage' }), 'Microsoft-managed keys');
+        });
+    });
+});
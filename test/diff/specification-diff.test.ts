@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    diffSnapshots,
+    diffSpecificationData,
+    findSpecificationChange,
+    formatSpecificationChange,
+    loadSpecificationSnapshot
+} from '../../src/diff/specification-diff';
+import { buildDocument, prepareDocumentData } from '../../src/doc-generators/document-generator';
+import { LoadedData } from '../../src/doc-generators/utils/data-loader';
+import { CONFIG } from '../../src/config';
+import { getDocumentXml, splitSections, toReadableText } from '../helpers/docx';
+
+const BEFORE = [
+    { section: 'General', title: 'Memory', value: '1', unit: 'GB' },
+    { section: 'Advanced settings', title: 'Non-SSL Port', value: 'Disabled' },
+    { section: 'Advanced settings', title: 'Maxmemory policy', value: 'volatile-lru' }
+];
+
+const AFTER = [
+    { section: 'General', title: 'Memory', value: '2.5', unit: 'GB' },
+    { section: 'Advanced settings', title: 'Non-SSL Port', value: 'Disabled', expected: 'Disabled', status: 'pass' as const },
+    { section: 'Advanced settings', title: 'Minimum TLS version', value: '1.2' }
+];
+
+describe('specification diff', () => {
+    it('reports changed, added and removed rows keyed by section and title', () => {
+        const changes = diffSpecificationData('redis-data.json', BEFORE, AFTER);
+
+        assert.deepStrictEqual(changes.map(change => [change.type, change.title]), [
+            ['changed', 'Memory'],
+            ['added', 'Minimum TLS version'],
+            ['removed', 'Maxmemory policy']
+        ]);
+        assert.strictEqual(formatSpecificationChange(changes[0]), '~ redis-data.json: General / Memory: "1 GB" → "2.5 GB"');
+        assert.strictEqual(formatSpecificationChange(changes[1]), '+ redis-data.json: Advanced settings / Minimum TLS version: "1.2"');
+    });
+
+    it('does not report a value that was split into value and unit', () => {
+        const before = [{ section: 'General', title: 'Memory', value: '1 GB' }];
+        assert.deepStrictEqual(diffSpecificationData('redis-data.json', before, [BEFORE[0]]), []);
+    });
+
+    it('matches repeated titles within a section by their order', () => {
+        const before = [
+            { section: 'Alerts', title: 'Metric Alert', value: 'CPU > 80%' },
+            { section: 'Alerts', title: 'Metric Alert', value: 'Memory > 80%' }
+        ];
+        const after = [before[0], { section: 'Alerts', title: 'Metric Alert', value: 'Memory > 90%' }];
+
+        const changes = diffSpecificationData('alert-data.json', before, after);
+        assert.strictEqual(changes.length, 1);
+        assert.strictEqual(changes[0].before!.value, 'Memory > 80%');
+
+        // The redlined table marks the second row, not the first one with the same title
+        assert.strictEqual(findSpecificationChange(changes, after[0], after), undefined);
+        assert.strictEqual(findSpecificationChange(changes, after[1], after), changes[0]);
+    });
+
+    it('compares snapshot directories, including files that only exist on one side', () => {
+        const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-'));
+        try {
+            fs.mkdirSync(path.join(rootDir, 'rev1'));
+            fs.mkdirSync(path.join(rootDir, 'rev2'));
+            fs.writeFileSync(path.join(rootDir, 'rev1', 'redis-data.json'), JSON.stringify(BEFORE));
+            fs.writeFileSync(path.join(rootDir, 'rev2', 'redis-data.json'), JSON.stringify(BEFORE));
+            fs.writeFileSync(path.join(rootDir, 'rev2', 'storage-data.json'), JSON.stringify([{ section: 'General', title: 'Kind', value: 'StorageV2' }]));
+
+            const changes = diffSnapshots(loadSpecificationSnapshot(path.join(rootDir, 'rev1')), loadSpecificationSnapshot(path.join(rootDir, 'rev2')));
+            assert.deepStrictEqual(changes.map(change => `${change.type} ${change.filename}`), ['added storage-data.json']);
+
+            assert.throws(() => loadSpecificationSnapshot(path.join(rootDir, 'rev3')), /Snapshot directory not found/);
+        } finally {
+            fs.rmSync(rootDir, { recursive: true, force: true });
+        }
+    });
+
+    describe('in the generated document', () => {
+        const originalConfig = { ...CONFIG };
+        let rootDir: string;
+        let loadedData: LoadedData[];
+
+        before(() => {
+            rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-doc-'));
+            fs.mkdirSync(path.join(rootDir, 'rev1'));
+            fs.writeFileSync(path.join(rootDir, 'rev1', 'redis-data.json'), JSON.stringify(BEFORE));
+            CONFIG.changesSince = path.join(rootDir, 'rev1');
+            CONFIG.complianceBaseline = undefined;
+
+            loadedData = prepareDocumentData([{ filename: 'redis-data.json', title: 'Redis Cache Specification', data: AFTER }]);
+        });
+
+        after(() => {
+            Object.assign(CONFIG, originalConfig);
+            fs.rmSync(rootDir, { recursive: true, force: true });
+        });
+
+        it('adds a "Changes Since Revision" subsection after the compliance summary', async () => {
+            const sections = splitSections(await getDocumentXml(buildDocument(loadedData)));
+            const text = toReadableText(sections[5]);
+
+            assert.match(text, /3\.4 Changes Since Revision rev1/);
+            assert.match(text, /1 changed, 1 added and 1 removed/);
+            assert.match(text, /Redis Cache Specification \| General – Memory \| Changed \| 1 GB \| 2\.5 GB/);
+            assert.match(text, /Redis Cache Specification \| Advanced settings – Maxmemory policy \| Removed \| volatile-lru \| -/);
+        });
+
+        it('redlines the specification tables instead when configured', async () => {
+            CONFIG.changeMarkup = 'redline';
+            const sections = splitSections(await getDocumentXml(buildDocument(loadedData)));
+            const text = toReadableText(sections[5]);
+
+            assert.doesNotMatch(text, /Changes Since Revision/);
+            assert.match(text, /Memory \| 1 GB 2\.5 GB/);
+            assert.match(text, /Maxmemory policy \| volatile-lru/);
+            assert.match(sections[5], /<w:strike\/>/);
+        });
+    });
+});
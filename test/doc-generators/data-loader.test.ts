@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { loadDataFiles } from '../../src/doc-generators/utils/data-loader';
+import { MemorySpecificationStore, saveSpecificationData } from '../../src/persistence/specification-store';
+import { CONFIG } from '../../src/config';
+import { SpecificationValidationError } from '../../src/validation/specification-validator';
+
+describe('loadDataFiles', () => {
+    let store: MemorySpecificationStore;
+
+    beforeEach(() => {
+        store = new MemorySpecificationStore();
+    });
+
+    afterEach(() => {
+        CONFIG.useAutoDiscovery = false;
+        CONFIG.strictValidation = false;
+    });
+
+    it('loads configured sections that exist and skips missing files', () => {
+        saveSpecificationData('redis-data.json', [{ section: 'General', title: 'Memory', value: '1 GB' }], store);
+        saveSpecificationData('web-server-data.json', [{ section: 'General', title: 'Custom domain', value: '-' }], store);
+
+        const loaded = loadDataFiles(store);
+
+        assert.deepStrictEqual(loaded.map(item => item.filename), ['web-server-data.json', 'redis-data.json']);
+        assert.deepStrictEqual(loaded.map(item => item.title), ['Web Server Specification', 'Redis Cache Specification']);
+        assert.deepStrictEqual(loaded[1].data, [{ section: 'General', title: 'Memory', value: '1 GB' }]);
+    });
+
+    it('skips files that are not valid JSON', () => {
+        store.save('database-data.json', '{ not json');
+        saveSpecificationData('alert-data.json', [], store);
+
+        assert.deepStrictEqual(loadDataFiles(store).map(item => item.filename), ['alert-data.json']);
+    });
+
+    it('drops invalid entries but keeps the rest of the file', () => {
+        store.save('redis-data.json', JSON.stringify([
+            { section: 'General', title: 'Memory', value: '1 GB' },
+            { section: 'General', title: 'Port', value: 6380 }
+        ]));
+
+        const loaded = loadDataFiles(store);
+
+        assert.deepStrictEqual(loaded[0].data, [{ section: 'General', title: 'Memory', value: '1 GB' }]);
+    });
+
+    it('fails on any invalid file in strict mode', () => {
+        CONFIG.strictValidation = true;
+        store.save('database-data.json', '{ not json');
+        store.save('redis-data.json', JSON.stringify([{ section: 'General', title: 'Port', value: 6380 }]));
+
+        assert.throws(() => loadDataFiles(store), (error: SpecificationValidationError) => {
+            assert.ok(error instanceof SpecificationValidationError);
+            assert.deepStrictEqual(error.issues.map(issue => issue.filename), ['database-data.json', 'redis-data.json']);
+            return true;
+        });
+    });
+
+    it('auto-discovers *-data.json files and derives titles', () => {
+        CONFIG.useAutoDiscovery = true;
+        saveSpecificationData('redis-data.json', [], store);
+        saveSpecificationData('sendgrid-email-data.json', [], store);
+        store.save('default-config-raw.json', '[]');
+
+        const loaded = loadDataFiles(store);
+
+        assert.deepStrictEqual(loaded.map(item => item.title), ['Redis Cache Specification', 'Sendgrid Email Specification']);
+    });
+
+    it('returns nothing when the store is empty', () => {
+        CONFIG.useAutoDiscovery = true;
+        assert.deepStrictEqual(loadDataFiles(store), []);
+    });
+});
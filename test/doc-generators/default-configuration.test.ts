@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import { Document } from 'docx';
+import {
+    generateDefaultConfiguration,
+    getConfigurationGroups,
+    isDefaultConfigurationData
+} from '../../src/doc-generators/sections/14-default-configuration';
+import { LoadedData } from '../../src/doc-generators/utils/data-loader';
+import {
+    RawConfigurationItem,
+    getConfigurationKeyGroup,
+    toDefaultConfigurationSpecification
+} from '../../src/data-fetchers/database/01-query-default-config';
+import { generateTechnicalSpecifications } from '../../src/doc-generators/sections/04-technical-specifications';
+import { createDocumentOutline } from '../../src/doc-generators/document-generator';
+import { MemorySpecificationStore, saveJson, getSpecificationStore, setSpecificationStore } from '../../src/persistence/specification-store';
+import { CONFIG } from '../../src/config';
+import { getDocumentXml, toReadableText } from '../helpers/docx';
+
+const RAW_ITEMS: RawConfigurationItem[] = [
+    { configkeyNo: 'Session.Timeout', desc: 'Idle timeout in minutes', value: '20' },
+    { configkeyNo: 'Security.PasswordLength', desc: 'Minimum password length', value: '8' },
+    { configkeyNo: 'MaintenanceMode', desc: 'Block user logins', value: 'false' },
+    { configkeyNo: 'Security.LockoutAttempts', desc: 'Failed logins before lockout', value: '5' }
+];
+
+const CONFIG_SECTION: LoadedData = {
+    filename: 'default-config-data.json',
+    title: 'Default Config Specification',
+    data: toDefaultConfigurationSpecification(RAW_ITEMS)
+};
+
+async function render(store: MemorySpecificationStore): Promise<string> {
+    const doc = new Document({ sections: [{ children: generateDefaultConfiguration(CONFIG_SECTION, store) }] });
+    return toReadableText(await getDocumentXml(doc));
+}
+
+describe('default configuration section', () => {
+    let store: MemorySpecificationStore;
+
+    beforeEach(() => {
+        store = new MemorySpecificationStore();
+    });
+
+    afterEach(() => {
+        CONFIG.locale = 'en';
+        CONFIG.changeMarkup = 'section';
+    });
+
+    it('groups keys by prefix and keeps the default value separate from the description', () => {
+        assert.strictEqual(getConfigurationKeyGroup('Security.PasswordLength'), 'Security');
+        assert.strictEqual(getConfigurationKeyGroup('Smtp:Host'), 'Smtp');
+        assert.strictEqual(getConfigurationKeyGroup('MaintenanceMode'), 'General');
+        assert.deepStrictEqual(CONFIG_SECTION.data[1], { section: 'Security', title: 'Security.PasswordLength', value: '8' });
+        assert.ok(isDefaultConfigurationData(CONFIG_SECTION));
+    });
+
+    it('sorts groups and keys alphabetically', () => {
+        const groups = getConfigurationGroups(RAW_ITEMS);
+
+        assert.deepStrictEqual(groups.map(group => group.name), ['General', 'Security', 'Session']);
+        assert.deepStrictEqual(groups[1].items.map(item => item.key), ['Security.LockoutAttempts', 'Security.PasswordLength']);
+    });
+
+    it('renders a Key / Description / Default Value table from the raw file', async () => {
+        saveJson('default-config-raw.json', RAW_ITEMS, store);
+
+        assert.deepStrictEqual((await render(store)).trim().split('\n'), [
+            'Key | Description | Default Value',
+            'General',
+            'MaintenanceMode | Block user logins | false',
+            'Security',
+            'Security.LockoutAttempts | Failed logins before lockout | 5',
+            'Security.PasswordLength | Minimum password length | 8',
+            'Session',
+            'Session.Timeout | Idle timeout in minutes | 20'
+        ]);
+    });
+
+    it('compares current values against the defaults', async () => {
+        saveJson('default-config-raw.json', [
+            { ...RAW_ITEMS[0], current: '30' },
+            { ...RAW_ITEMS[1], current: '8' }
+        ], store);
+
+        const lines = (await render(store)).trim().split('\n');
+
+        assert.strictEqual(lines[0], '1 of 2 configuration settings differ from their default value (highlighted).');
+        assert.strictEqual(lines[1], 'Key | Description | Default Value | Current Value');
+        assert.ok(lines.includes('Session.Timeout | Idle timeout in minutes | 20 | 30'));
+    });
+
+    it('keeps the configuration table when the document is redlined', async () => {
+        const originalStore = getSpecificationStore();
+        saveJson('default-config-raw.json', RAW_ITEMS, store);
+        setSpecificationStore(store);
+        CONFIG.changeMarkup = 'redline';
+
+        const loadedData: LoadedData[] = [{
+            ...CONFIG_SECTION,
+            changes: [
+                { filename: 'default-config-data.json', section: 'Session', title: 'Session.Timeout', type: 'changed', before: { section: 'Session', title: 'Session.Timeout', value: '15' }, after: CONFIG_SECTION.data[0] },
+                { filename: 'default-config-data.json', section: 'Security', title: 'Security.LegacyHashing', type: 'removed', before: { section: 'Security', title: 'Security.LegacyHashing', value: 'true' } }
+            ]
+        }];
+
+        try {
+            const doc = new Document({ sections: [{ children: generateTechnicalSpecifications(loadedData, createDocumentOutline(loadedData)) }] });
+            const xml = await getDocumentXml(doc);
+            const lines = toReadableText(xml).split('\n');
+
+            assert.ok(lines.includes('Key | Description | Default Value'));
+            assert.ok(lines.includes('Security.LegacyHashing | - | true'));
+            assert.ok(lines.includes('Session.Timeout | Idle timeout in minutes | 15 20'));
+            assert.match(xml, /<w:strike\/>/);
+        } finally {
+            setSpecificationStore(originalStore);
+        }
+    });
+
+    it('falls back to the specification entries without the raw file', async () => {
+        CONFIG.locale = 'de';
+        const lines = (await render(store)).trim().split('\n');
+
+        assert.strictEqual(lines[0], 'Schlüssel | Beschreibung | Standardwert');
+        assert.deepStrictEqual(lines.slice(1, 3), ['Allgemein', 'MaintenanceMode | - | false']);
+    });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import JSZip from 'jszip';
+import { Packer } from 'docx';
+import { buildDocument } from '../../src/doc-generators/document-generator';
+import { mergeProjectConfig } from '../../src/config-file';
+import { CONFIG } from '../../src/config';
+import { LoadedData } from '../../src/doc-generators/utils/data-loader';
+import { DocumentControl } from '../../src/types';
+import { getDocumentXml, splitSections, toReadableText } from '../helpers/docx';
+
+const SAMPLE_DATA: LoadedData[] = [
+    {
+        filename: 'redis-data.json',
+        title: 'Redis Cache Specification',
+        data: [{ section: 'General', title: 'Memory', value: '1 GB' }]
+    }
+];
+
+const DOCUMENT_CONTROL: DocumentControl = {
+    documentNumber: 'IDS-UNI-0042',
+    revision: '3',
+    effectiveDate: '2025-01-31',
+    author: 'A. Author',
+    reviewer: 'R. Reviewer',
+    approver: 'P. Approver'
+};
+
+describe('document control', () => {
+    it('shows the document control fields on the title page', async () => {
+        const titlePage = toReadableText(splitSections(await getDocumentXml(buildDocument(SAMPLE_DATA, [], DOCUMENT_CONTROL)))[0]);
+
+        assert.match(titlePage, /Document Number \| IDS-UNI-0042\nRevision \| 3\nEffective Date \| 31 Jan 2025\nAuthor \| A\. Author/);
+    });
+
+    it('pre-fills the signatories in the approval block', async () => {
+        const approval = toReadableText(splitSections(await getDocumentXml(buildDocument(SAMPLE_DATA, [], DOCUMENT_CONTROL)))[1]);
+
+        assert.match(approval, /^DOCUMENT APPROVAL\n/);
+        assert.match(approval, /reviewed revision 3 of this document/);
+        assert.match(approval, /Role \| Name \| Signature \| Date\nAuthor \| A\. Author \|  \| \nReviewer \| R\. Reviewer \|  \| \nApprover \| P\. Approver \|  \| /);
+    });
+
+    it('puts document number, revision and effective date in the page header', async () => {
+        const zip = await JSZip.loadAsync(await Packer.toBuffer(buildDocument(SAMPLE_DATA, [], DOCUMENT_CONTROL)));
+        const headerFile = Object.keys(zip.files).find(name => /^word\/header\d+\.xml$/.test(name))!;
+        const header = await zip.file(headerFile)!.async('string');
+
+        assert.match(header, /Doc\. No\.: IDS-UNI-0042/);
+        assert.match(header, /Revision: 3/);
+        assert.match(header, /Effective Date: 31 Jan 2025/);
+    });
+
+    it('refers to the cover sheet when nothing is set', async () => {
+        const zip = await JSZip.loadAsync(await Packer.toBuffer(buildDocument(SAMPLE_DATA, [], {})));
+        const headerFile = Object.keys(zip.files).find(name => /^word\/header\d+\.xml$/.test(name))!;
+
+        assert.match(await zip.file(headerFile)!.async('string'), /Doc\. No\.: &lt;see Cover Sheet&gt;/);
+    });
+
+    it('merges document control fields from a config file per key', () => {
+        const merged = mergeProjectConfig({ ...CONFIG, documentControl: { documentNumber: 'IDS-1', author: 'A. Author' } }, { documentControl: { revision: '2' } });
+        assert.deepStrictEqual(merged.documentControl, { documentNumber: 'IDS-1', author: 'A. Author', revision: '2' });
+    });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { buildDocument } from '../../src/doc-generators/document-generator';
+import { LoadedData } from '../../src/doc-generators/utils/data-loader';
+import { getDocumentXml, splitSections, toReadableText, assertMatchesGolden } from '../helpers/docx';
+
+const SAMPLE_DATA: LoadedData[] = [
+    {
+        filename: 'web-server-data.json',
+        title: 'Web Server Specification',
+        data: [
+            { section: 'General', title: 'Number of Azure Compute Units', value: 'P0v3' },
+            { section: 'General', title: 'Custom domain', value: 'SNI SSL' },
+            { section: 'Platform settings', title: 'HTTPS Only', value: 'On' },
+            { section: 'Platform settings', title: 'Minimum TLS Version', value: '1.2' }
+        ]
+    },
+    {
+        filename: 'redis-data.json',
+        title: 'Redis Cache Specification',
+        data: [
+            { section: 'General', title: 'Memory', value: '1 GB' },
+            { section: 'Advanced settings', title: 'Non-SSL Port', value: 'Disabled' }
+        ]
+    }
+];
+
+describe('generated document (golden files)', () => {
+    let sections: string[];
+
+    before(async () => {
+        sections = splitSections(await getDocumentXml(buildDocument(SAMPLE_DATA)));
+    });
+
+    it('contains one docx section per chapter', () => {
+        assert.strictEqual(sections.length, 8);
+    });
+
+    it('renders the title page', () => {
+        assertMatchesGolden('title-page.txt', toReadableText(sections[0]));
+    });
+
+    it('renders the table of contents', () => {
+        assertMatchesGolden('table-of-contents.txt', toReadableText(sections[2]));
+    });
+
+    it('builds the table of contents from the chapter and subsection headings', () => {
+        assert.match(sections[2], /<w:instrText[^>]*>TOC \\h \\o &quot;1-2&quot;<\/w:instrText>/);
+        assert.match(sections[5], /<w:pStyle w:val="Heading2"\/><w:spacing[^>]*\/><\/w:pPr><w:r><w:t xml:space="preserve">3\.1 Web Server Specification/);
+    });
+
+    it('renders the specification tables', () => {
+        assertMatchesGolden('technical-specifications.txt', toReadableText(sections[5]));
+    });
+
+    it('merges section cells vertically across their rows', () => {
+        const restarts = sections[5].match(/<w:vMerge w:val="restart"\/>/g) || [];
+        // Only multi-row sections are merged: web server General + Platform settings
+        assert.strictEqual(restarts.length, 2);
+    });
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { Document } from 'docx';
+import { DocumentOutline } from '../../src/doc-generators/utils/document-outline';
+import { buildDocument, createDocumentOutline } from '../../src/doc-generators/document-generator';
+import { LoadedData } from '../../src/doc-generators/utils/data-loader';
+import { CONFIG } from '../../src/config';
+import { getDocumentXml, splitSections, toReadableText } from '../helpers/docx';
+
+const SAMPLE_DATA: LoadedData[] = [
+    { filename: 'web-server-data.json', title: 'Web Server Specification', data: [] },
+    { filename: 'redis-data.json', title: 'Redis Cache Specification', data: [] }
+];
+
+describe('document outline', () => {
+    const render = () => [];
+
+    it('numbers enabled chapters and subsections in order', () => {
+        const outline = new DocumentOutline()
+            .addChapter({ id: 'intro', title: 'INTRODUCTION', render })
+            .addChapter({ id: 'specs', title: 'SPECIFICATIONS', subsections: [{ id: 'a', title: 'A' }, { id: 'b', title: 'B' }], render });
+
+        assert.deepStrictEqual(outline.getEntries().map(entry => `${entry.number} ${entry.title}`),
+            ['1 INTRODUCTION', '2 SPECIFICATIONS', '2.1 A', '2.2 B']);
+        assert.strictEqual(outline.getHeading('specs'), '2. SPECIFICATIONS');
+        assert.strictEqual(outline.getHeading('b'), '2.2 B');
+    });
+
+    it('renumbers when an entry is disabled or a chapter is inserted', () => {
+        const outline = new DocumentOutline()
+            .addChapter({ id: 'intro', title: 'INTRODUCTION', render })
+            .addChapter({ id: 'specs', title: 'SPECIFICATIONS', subsections: [{ id: 'a', title: 'A' }, { id: 'b', title: 'B' }], render })
+            .setEnabled('a', false)
+            .addChapter({ id: 'scope', title: 'SCOPE', render }, { after: 'intro' });
+
+        assert.strictEqual(outline.getNumber('specs'), '3');
+        assert.strictEqual(outline.getNumber('b'), '3.1');
+        assert.strictEqual(outline.isEnabled('a'), false);
+        assert.throws(() => outline.getNumber('a'), /unknown or disabled: a/);
+
+        outline.setEnabled('specs', false);
+        assert.strictEqual(outline.isEnabled('b'), false);
+    });
+
+    it('rejects duplicate ids and unknown anchors', () => {
+        const outline = new DocumentOutline().addChapter({ id: 'intro', title: 'INTRODUCTION', render });
+
+        assert.throws(() => outline.addChapter({ id: 'intro', title: 'AGAIN', render }), /Duplicate outline id: intro/);
+        assert.throws(() => outline.addChapter({ id: 'x', title: 'X', render }, { before: 'missing' }), /Unknown outline chapter: missing/);
+    });
+
+    it('keeps the IDS numbering consistent when a section is left out', async () => {
+        const original = CONFIG.documentCustomization;
+        try {
+            CONFIG.documentCustomization = { ...original, includeGlossary: false };
+            const outline = createDocumentOutline(SAMPLE_DATA.slice(1));
+
+            assert.strictEqual(outline.getHeading('redis-data.json'), '3.1 Redis Cache Specification');
+            assert.strictEqual(outline.getHeading('client-requirements'), '3.2 Client Specification Requirements');
+            assert.strictEqual(outline.getHeading('references'), '4. REFERENCES');
+
+            // Title, approval and TOC pages, followed by introduction, overview, specifications and references
+            const sections = splitSections(await getDocumentXml(buildDocument(SAMPLE_DATA)));
+            assert.strictEqual(sections.length, 7);
+            assert.ok(toReadableText(sections[6]).startsWith('4. REFERENCES'));
+        } finally {
+            CONFIG.documentCustomization = original;
+        }
+    });
+
+    it('uses the outline numbers for cross-references in the text', async () => {
+        const outline = createDocumentOutline(SAMPLE_DATA)
+            .addChapter({ id: 'scope', title: 'SCOPE', render }, { before: 'overview' });
+        const introductionPage = new Document({ sections: [{ children: outline.getChapters()[0].render(outline) }] });
+        const introduction = toReadableText(splitSections(await getDocumentXml(introductionPage))[0]);
+
+        assert.ok(introduction.includes('Section 3 provides an overview'));
+        assert.ok(introduction.includes('Section 4 provides specifications'));
+    });
+});
+
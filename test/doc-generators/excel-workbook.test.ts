@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import ExcelJS from 'exceljs';
+import { buildSpecificationWorkbook } from '../../src/doc-generators/excel-workbook';
+import { LoadedData } from '../../src/doc-generators/utils/data-loader';
+
+const SAMPLE_DATA: LoadedData[] = [
+    {
+        filename: 'redis-data.json',
+        title: 'Redis Cache Specification',
+        data: [
+            { section: 'Security', title: 'Minimum TLS version', value: '1.0', expected: '1.2', status: 'fail' },
+            { section: 'Security', title: 'Non-SSL Port', value: 'Disabled', expected: 'Disabled', status: 'pass' },
+            { section: 'General', title: 'Memory', value: '6', unit: 'GB' }
+        ]
+    },
+    {
+        filename: 'storage-data.json',
+        title: 'Storage Account: Blob/File Specification (Primary)',
+        data: [{ section: 'General', title: 'Replication', value: 'LRS' }]
+    },
+    {
+        filename: 'storage-2-data.json',
+        title: 'Storage Account: Blob/File Specification (Primary)',
+        data: []
+    }
+];
+
+/**
+ * Round-trip through .xlsx so the assertions see what Excel would open
+ */
+async function loadWorkbook(data: LoadedData[]): Promise<ExcelJS.Workbook> {
+    const buffer = await buildSpecificationWorkbook(data, new Date('2025-01-31T09:30:00Z')).xlsx.writeBuffer();
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as ArrayBuffer);
+    return workbook;
+}
+
+const rowValues = (sheet: ExcelJS.Worksheet, row: number) => (sheet.getRow(row).values as ExcelJS.CellValue[]).slice(1);
+
+describe('Excel workbook', () => {
+    it('writes a summary sheet with the resources and the run timestamp', async () => {
+        const summary = (await loadWorkbook(SAMPLE_DATA)).getWorksheet('Summary')!;
+
+        assert.deepStrictEqual(rowValues(summary, 1), ['Product', 'Unison 2.1.0']);
+        assert.deepStrictEqual(rowValues(summary, 4), ['Generated', '2025-01-31T09:30:00.000Z']);
+        assert.deepStrictEqual(rowValues(summary, 6), ['Resource', 'Name', 'Resource Group']);
+        assert.deepStrictEqual(rowValues(summary, 11), ['Redis Cache', 'unison-orbia-test', 'unison-orbia-test']);
+    });
+
+    it('writes one sheet per data file with merged section cells', async () => {
+        const workbook = await loadWorkbook(SAMPLE_DATA);
+        assert.deepStrictEqual(workbook.worksheets.map(sheet => sheet.name),
+            ['Summary', 'Redis Cache Specification', 'Storage Account Blob File Speci', 'Storage Account Blob File S (2)']);
+
+        const redis = workbook.getWorksheet('Redis Cache Specification')!;
+        assert.deepStrictEqual(rowValues(redis, 1), ['Section', 'Specification', 'Value', 'Expected', 'Status']);
+        assert.deepStrictEqual(rowValues(redis, 2), ['Security', 'Minimum TLS version', '1.0', '1.2', 'Fail']);
+        assert.deepStrictEqual(rowValues(redis, 4), ['General', 'Memory', '6 GB', '-', '-']);
+        assert.strictEqual(redis.getCell('A3').isMerged, true);
+        assert.strictEqual(redis.getCell('A3').master.address, 'A2');
+        assert.strictEqual(redis.getCell('A4').isMerged, false);
+        assert.strictEqual((redis.getCell('E2').fill as ExcelJS.FillPattern).fgColor?.argb, 'FFFFC7CE');
+
+        assert.deepStrictEqual(rowValues(workbook.worksheets[3], 2), ['Data not available']);
+    });
+});
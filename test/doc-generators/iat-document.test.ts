@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { buildIatDocument } from '../../src/doc-generators/iat-document-generator';
+import { LoadedData } from '../../src/doc-generators/utils/data-loader';
+import { CONFIG, getIatOutputFilename } from '../../src/config';
+import { getDocumentXml, splitSections, toReadableText, assertMatchesGolden } from '../helpers/docx';
+
+const SAMPLE_DATA: LoadedData[] = [
+    {
+        filename: 'web-server-data.json',
+        title: 'Web Server Specification',
+        data: [
+            { section: 'General', title: 'Number of Azure Compute Units', value: 'P0v3' },
+            { section: 'Platform settings', title: 'Minimum TLS Version', value: '1.2', expected: '1.2', status: 'pass', source: 'webApp: siteConfig.minTlsVersion' }
+        ]
+    },
+    {
+        filename: 'redis-data.json',
+        title: 'Redis Cache Specification',
+        data: [
+            { section: 'General', title: 'Memory', value: '1', unit: 'GB' },
+            { section: 'Advanced settings', title: 'Non-SSL Port', value: 'Enabled', expected: 'Disabled', status: 'fail' }
+        ]
+    }
+];
+
+describe('IAT document', () => {
+    let sections: string[];
+
+    before(async () => {
+        sections = splitSections(await getDocumentXml(buildIatDocument(SAMPLE_DATA)));
+    });
+
+    it('contains title page, introduction, test scripts and sign-off', () => {
+        assert.strictEqual(sections.length, 4);
+        assert.ok(toReadableText(sections[0]).includes('INFRASTRUCTURE ACCEPTANCE TEST'));
+    });
+
+    it('renders one test step per specification row', () => {
+        assertMatchesGolden('iat-test-scripts.txt', toReadableText(sections[2]));
+    });
+
+    it('counts the pre-filled results in the summary', () => {
+        const signOff = toReadableText(sections[3]);
+        assert.ok(signOff.includes('4 test steps in 2 test scripts'));
+        assert.ok(signOff.includes('1 steps were pre-filled as passed and 1 as failed'));
+        assert.ok(signOff.includes('Approved by |  |  | '));
+    });
+
+    it('derives the IAT filename from the IDS filename', () => {
+        const original = CONFIG.outputFilename;
+        try {
+            CONFIG.outputFilename = 'unison-orbia-test-specification-report.docx';
+            assert.strictEqual(getIatOutputFilename(), 'unison-orbia-test-specification-report-iat.docx');
+        } finally {
+            CONFIG.outputFilename = original;
+        }
+    });
+});
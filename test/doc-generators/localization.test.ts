@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import JSZip from 'jszip';
+import { Packer } from 'docx';
+import { buildDocument, createDocumentOutline } from '../../src/doc-generators/document-generator';
+import { createIatOutline } from '../../src/doc-generators/iat-document-generator';
+import { getTemplate } from '../../src/doc-generators/utils/templates';
+import { CATALOGS, getCatalog, translateLabel, formatDate } from '../../src/i18n/catalogs';
+import { EN } from '../../src/i18n/en';
+import { CONFIG } from '../../src/config';
+import { LoadedData } from '../../src/doc-generators/utils/data-loader';
+import { getDocumentXml, splitSections, toReadableText } from '../helpers/docx';
+
+const SAMPLE_DATA: LoadedData[] = [
+    {
+        filename: 'redis-data.json',
+        title: 'Redis Cache Specification',
+        data: [{ section: 'General', title: 'Memory', value: '1 GB', expected: '1 GB', status: 'pass' }]
+    }
+];
+
+describe('localization', () => {
+    afterEach(() => {
+        delete CONFIG.templates;
+        CONFIG.locale = 'en';
+    });
+
+    it('only translates keys and glossary terms that exist in English', () => {
+        Object.entries(CATALOGS).forEach(([locale, catalog]) => {
+            assert.deepStrictEqual(Object.keys(catalog.messages).filter(key => !(key in EN.messages)), [], `${locale} messages`);
+            assert.deepStrictEqual(Object.keys(catalog.glossary).filter(term => !(term in EN.glossary)), [], `${locale} glossary`);
+        });
+    });
+
+    it('renders headings, tables, fetcher labels and dates in German', async () => {
+        CONFIG.locale = 'de';
+        const sections = splitSections(await getDocumentXml(buildDocument(SAMPLE_DATA, [], { effectiveDate: '2025-01-31' })));
+        const specifications = toReadableText(sections[5]);
+
+        assert.match(specifications, /^3\. HARDWARE-, SOFTWARE- UND ANWENDUNGSDESIGN-SPEZIFIKATIONEN\n/);
+        assert.match(specifications, /3\.1 Redis Cache-Spezifikation\nAbschnitt \| Spezifikation \| Wert \| Soll \| Status\nAllgemein \| Arbeitsspeicher \| 1 GB \| 1 GB \| Bestanden/);
+        assert.match(toReadableText(sections[6]), /Begriff \| Definition\nAPI \| Programmierschnittstelle \(Application Programming Interface\)\nARM \| Azure Resource Manager/);
+        assert.match(toReadableText(sections[3]), /^1\. EINLEITUNG\n1\.1 Zweck und Geltungsbereich dieses Dokuments/);
+
+        const zip = await JSZip.loadAsync(await Packer.toBuffer(buildDocument(SAMPLE_DATA, [], { effectiveDate: '2025-01-31' })));
+        const headerFile = Object.keys(zip.files).find(name => /^word\/header\d+\.xml$/.test(name))!;
+        const header = await zip.file(headerFile)!.async('string');
+        assert.match(header, /Gültig ab: 31\. Jan\. 2025/);
+        assert.match(header, /Dok\.-Nr\.: &lt;siehe Deckblatt&gt;/);
+    });
+
+    it('numbers Thai chapters and IAT scripts with translated titles', () => {
+        CONFIG.locale = 'th';
+
+        assert.deepStrictEqual(createDocumentOutline(SAMPLE_DATA).getEntries().slice(0, 3).map(entry => `${entry.number} ${entry.title}`),
+            ['1 บทนำ', '1.1 วัตถุประสงค์และขอบเขตของเอกสาร', '2 ภาพรวม']);
+        assert.strictEqual(createIatOutline(SAMPLE_DATA).getHeading('redis-data.json'), '2.1 ข้อกำหนด Redis Cache');
+        assert.strictEqual(formatDate('2025-01-31'), '31 ม.ค. 2568');
+    });
+
+    it('prefers project templates and falls back to English', () => {
+        CONFIG.locale = 'de';
+        CONFIG.templates = { 'table.value': 'Istwert' };
+
+        assert.strictEqual(getTemplate('table.value'), 'Istwert');
+        assert.strictEqual(getTemplate('clientRequirements.browsers'), EN.messages['clientRequirements.browsers']);
+        assert.strictEqual(translateLabel('Custom Setting'), 'Custom Setting');
+        assert.strictEqual(formatDate('<see Cover Sheet>'), '<see Cover Sheet>');
+        assert.strictEqual(formatDate('2025-02-30'), '2025-02-30');
+        assert.throws(() => getCatalog('fr' as never), /Unknown locale: fr \(use en, de, th\)/);
+    });
+});
@@ -0,0 +1,180 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Document } from 'docx';
+import { renderMarkdown } from '../../src/doc-generators/utils/markdown-renderer';
+import { renderTemplate } from '../../src/doc-generators/utils/templates';
+import { createDocumentOutline } from '../../src/doc-generators/document-generator';
+import { CONFIG } from '../../src/config';
+import { getDocumentXml, splitSections, toReadableText } from '../helpers/docx';
+
+async function renderXml(markdown: string): Promise<string> {
+    const doc = new Document({ sections: [{ children: renderMarkdown(markdown) }] });
+    return splitSections(await getDocumentXml(doc))[0];
+}
+
+describe('Markdown chapters', () => {
+    describe('renderer', () => {
+        it('converts headings, inline formatting and lists', async () => {
+            const xml = await renderXml([
+                '### Notes',
+                '',
+                'Use **HTTPS** only, see `minTlsVersion` & R&D.',
+                '',
+                '- first',
+                '- second',
+                '',
+                '3. third',
+                '4. fourth'
+            ].join('\n'));
+
+            assert.match(xml, /<w:pStyle w:val="Heading3"\/>/);
+            assert.match(xml, /<w:b\/>[\s\S]*?<w:t[^>]*>HTTPS<\/w:t>/);
+            assert.match(xml, /Courier New[\s\S]*?<w:t[^>]*>minTlsVersion<\/w:t>/);
+            assert.match(xml, /<w:numPr>/);
+            assert.deepStrictEqual(toReadableText(xml).trim().split('\n'), [
+                'Notes',
+                'Use HTTPS only, see minTlsVersion & R&D.',
+                'first',
+                'second',
+                '3. third',
+                '4. fourth'
+            ]);
+        });
+
+        it('converts tables and image figures', async () => {
+            const xml = await renderXml([
+                '| Role | Responsibility |',
+                '| --- | --- |',
+                '| Owner | *Approves* changes |',
+                '',
+                '![Figure 1. Topology](src/assets/images/overview_bl.png)'
+            ].join('\n'));
+
+            assert.deepStrictEqual(toReadableText(xml).trim().split('\n'), [
+                'Role | Responsibility',
+                'Owner | Approves changes',
+                'Figure 1. Topology'
+            ]);
+            // 618x474 PNG scaled to 500 pixels wide (EMU = pixels * 9525)
+            assert.ok(xml.includes(`cx="${500 * 9525}" cy="${Math.round(500 * 474 / 618) * 9525}"`));
+        });
+    });
+
+    describe('placeholders', () => {
+        it('fills known names and reports unknown ones', () => {
+            const unknown: string[] = [];
+            const text = renderTemplate('{{productName}} in {{ environment }} ({{client}})', { productName: 'Unison', environment: 'test' }, name => unknown.push(name));
+
+            assert.strictEqual(text, 'Unison in test ({{client}})');
+            assert.deepStrictEqual(unknown, ['client']);
+        });
+    });
+
+    describe('outline registration', () => {
+        const originalCustomization = CONFIG.documentCustomization;
+        const originalProductName = CONFIG.productName;
+        let tempDir: string;
+
+        beforeEach(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chapters-'));
+            CONFIG.productName = 'Unison';
+        });
+
+        afterEach(() => {
+            CONFIG.documentCustomization = originalCustomization;
+            CONFIG.productName = originalProductName;
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        it('numbers a project chapter inserted after the overview', async () => {
+            const securityPath = path.join(tempDir, 'security.md');
+            fs.writeFileSync(securityPath, [
+                '# Security',
+                '## Access Control',
+                'Only {{siteName}} administrators can sign in to {{productName}}.',
+                '## Data Protection',
+                'See Section {{section.specifications}} and {{section.security.access-control}}.'
+            ].join('\n\n'));
+            CONFIG.documentCustomization = {
+                ...originalCustomization,
+                chapters: [...(originalCustomization.chapters || []), { id: 'security', path: securityPath, after: 'overview' }]
+            };
+
+            const outline = createDocumentOutline([]);
+            assert.deepStrictEqual(outline.getEntries().filter(entry => entry.level === 1).map(entry => `${entry.number}. ${entry.title}`).slice(0, 4),
+                ['1. INTRODUCTION', '2. OVERVIEW', '3. SECURITY', '4. HARDWARE, SOFTWARE AND APPLICATIONS DESIGN SPECIFICATIONS']);
+
+            const security = outline.getChapters()[2];
+            const text = toReadableText(splitSections(await getDocumentXml(new Document({ sections: [{ children: security.render(outline) }] })))[0]);
+            assert.deepStrictEqual(text.trim().split('\n'), [
+                '3. SECURITY',
+                '3.1 Access Control',
+                `Only ${CONFIG.siteName} administrators can sign in to Unison.`,
+                '3.2 Data Protection',
+                'See Section 4 and 3.1.'
+            ]);
+        });
+
+        it('leaves headings excluded by a conditional out of the outline', async () => {
+            const securityPath = path.join(tempDir, 'security.md');
+            fs.writeFileSync(securityPath, [
+                '# Security',
+                "{{#if environment == 'production'}}\n\n## Prod Only\n\nProduction hardening.\n\n{{/if}}",
+                '## Access Control',
+                'See Section {{section.security.access-control}}.'
+            ].join('\n\n'));
+            CONFIG.documentCustomization = { ...originalCustomization, chapters: [{ id: 'security', path: securityPath }] };
+
+            const outline = createDocumentOutline([]);
+            assert.deepStrictEqual(outline.getEntries().filter(entry => entry.id.startsWith('security.')).map(entry => `${entry.number} ${entry.title}`),
+                ['1.1 Access Control']);
+
+            const text = toReadableText(splitSections(await getDocumentXml(new Document({ sections: [{ children: outline.getChapters()[0].render(outline) }] })))[0]);
+            assert.deepStrictEqual(text.trim().split('\n'), ['1. SECURITY', '1.1 Access Control', 'See Section 1.1.']);
+        });
+
+        it('numbers repeated headings instead of reusing their id', async () => {
+            const securityPath = path.join(tempDir, 'security.md');
+            fs.writeFileSync(securityPath, [
+                '# Security',
+                '## Notes',
+                '## Access Control',
+                '## Notes',
+                'See Section {{section.security.notes}} and {{section.security.notes-2}}.'
+            ].join('\n\n'));
+            CONFIG.documentCustomization = { ...originalCustomization, chapters: [{ id: 'security', path: securityPath }] };
+
+            const outline = createDocumentOutline([]);
+            assert.deepStrictEqual(outline.getEntries().filter(entry => entry.id.startsWith('security.')).map(entry => entry.id),
+                ['security.notes', 'security.access-control', 'security.notes-2']);
+
+            const text = toReadableText(splitSections(await getDocumentXml(new Document({ sections: [{ children: outline.getChapters()[0].render(outline) }] })))[0]);
+            assert.deepStrictEqual(text.trim().split('\n'), ['1. SECURITY', '1.1 Notes', '1.2 Access Control', '1.3 Notes', 'See Section 1.1 and 1.3.']);
+        });
+
+        it('drops the reference to a disabled overview from the introduction', async () => {
+            CONFIG.documentCustomization = {
+                ...originalCustomization,
+                chapters: (originalCustomization.chapters || []).map(chapter => chapter.id === 'overview' ? { ...chapter, enabled: false } : chapter)
+            };
+
+            const outline = createDocumentOutline([]);
+            const introduction = outline.getChapters().find(chapter => chapter.id === 'introduction')!;
+            const text = toReadableText(splitSections(await getDocumentXml(new Document({ sections: [{ children: introduction.render(outline) }] })))[0]);
+
+            assert.ok(!text.includes('{{'));
+            assert.ok(!text.includes('provides an overview'));
+            assert.match(text, /Section 2 provides specifications/);
+        });
+
+        it('skips disabled chapters and reports missing files', () => {
+            CONFIG.documentCustomization = { ...originalCustomization, chapters: [{ id: 'overview', path: 'missing.md', enabled: false }] };
+            assert.strictEqual(createDocumentOutline([]).getNumber('specifications'), '1');
+
+            CONFIG.documentCustomization = { ...originalCustomization, chapters: [{ id: 'overview', path: path.join(tempDir, 'missing.md') }] };
+            assert.throws(() => createDocumentOutline([]), /Chapter file not found: .*missing\.md \(chapter "overview"\)/);
+        });
+    });
+});
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { updateTableOfContents, convertToPdf } from '../../src/doc-generators/utils/office-converter';
+
+describe('office converter', () => {
+    const originalPath = process.env.libreoffice_path;
+    let tempDir: string;
+    let documentPath: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'office-'));
+        documentPath = path.join(tempDir, 'report.docx');
+        fs.writeFileSync(documentPath, 'docx');
+        fs.utimesSync(documentPath, new Date(2020, 0, 1), new Date(2020, 0, 1));
+    });
+
+    afterEach(() => {
+        process.env.libreoffice_path = originalPath;
+        if (originalPath === undefined) delete process.env.libreoffice_path;
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('runs the UpdateIndexes macro from a temporary profile', () => {
+        // Stand-in for soffice: record the arguments and the macro it was given, then touch the document
+        const logPath = path.join(tempDir, 'args.log');
+        const fakeOffice = path.join(tempDir, 'soffice');
+        fs.writeFileSync(fakeOffice, [
+            '#!/bin/sh',
+            `printf '%s\\n' "$@" > "${logPath}"`,
+            'profile=$(echo "$1" | sed "s|-env:UserInstallation=file://||")',
+            `cat "$profile/user/basic/Standard/Module1.xba" >> "${logPath}"`,
+            `touch "${documentPath}"`
+        ].join('\n'), { mode: 0o755 });
+        process.env.libreoffice_path = fakeOffice;
+
+        assert.strictEqual(updateTableOfContents(documentPath), true);
+
+        const log = fs.readFileSync(logPath, 'utf8');
+        assert.match(log, /^-env:UserInstallation=file:\/\//);
+        assert.ok(log.includes('--headless'));
+        assert.ok(log.includes(`macro:///Standard.Module1.UpdateIndexes("${documentPath}")`));
+        assert.ok(log.includes('indexes.getByIndex(i).update()'));
+    });
+
+    it('reports a missing LibreOffice and leaves the document alone', () => {
+        process.env.libreoffice_path = path.join(tempDir, 'does-not-exist');
+        assert.strictEqual(updateTableOfContents(documentPath), false);
+        assert.strictEqual(fs.readFileSync(documentPath, 'utf8'), 'docx');
+    });
+
+    it('exports a PDF with embedded fonts and heading bookmarks', () => {
+        const logPath = path.join(tempDir, 'args.log');
+        const pdfPath = path.join(tempDir, 'report.pdf');
+        const fakeOffice = path.join(tempDir, 'soffice');
+        fs.writeFileSync(fakeOffice, [
+            '#!/bin/sh',
+            `printf '%s\\n' "$@" > "${logPath}"`,
+            'profile=$(echo "$1" | sed "s|-env:UserInstallation=file://||")',
+            `cat "$profile/user/basic/Standard/Module1.xba" >> "${logPath}"`,
+            `echo pdf > "${pdfPath}"`
+        ].join('\n'), { mode: 0o755 });
+        process.env.libreoffice_path = fakeOffice;
+
+        assert.strictEqual(convertToPdf(documentPath), pdfPath);
+
+        const log = fs.readFileSync(logPath, 'utf8');
+        assert.ok(log.includes(`macro:///Standard.Module1.ExportPdf("${documentPath}","${pdfPath}")`));
+        assert.ok(log.includes('writer_pdf_Export'));
+        assert.ok(log.includes('&quot;ExportBookmarks&quot;'));
+        assert.ok(log.includes('&quot;EmbedStandardFonts&quot;'));
+    });
+
+    it('fails the PDF export when LibreOffice is missing or writes nothing', () => {
+        process.env.libreoffice_path = path.join(tempDir, 'does-not-exist');
+        assert.throws(() => convertToPdf(documentPath), /Could not convert .*report\.docx to PDF/);
+
+        process.env.libreoffice_path = 'true';
+        assert.throws(() => convertToPdf(documentPath), /true did not write .*report\.pdf/);
+    });
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { renderHtmlReport } from '../../src/doc-generators/html-report';
+import { renderMarkdownReport, getMarkdownAnchor } from '../../src/doc-generators/markdown-report';
+import { exportOutputFormats } from '../../src/doc-generators/document-generator';
+import { LoadedData } from '../../src/doc-generators/utils/data-loader';
+import { CONFIG } from '../../src/config';
+
+const SAMPLE_DATA: LoadedData[] = [
+    {
+        filename: 'redis-data.json',
+        title: 'Redis Cache Specification',
+        data: [
+            { section: 'Security', title: 'Minimum TLS version', value: '1.0', expected: '1.2', status: 'fail' },
+            { section: 'Security', title: 'Non-SSL Port', value: 'Disabled', expected: 'Disabled', status: 'pass', note: 'Checked against IDS v3' },
+            { section: 'General', title: 'Memory', value: '6', unit: 'GB' }
+        ]
+    },
+    {
+        filename: 'storage-data.json',
+        title: 'Storage <Account>',
+        data: [{ section: 'General', title: 'Replication | Tier', value: 'LRS' }]
+    }
+];
+
+describe('HTML and Markdown reports', () => {
+    afterEach(() => {
+        CONFIG.outputFormats = ['docx'];
+        CONFIG.locale = 'en';
+    });
+
+    it('renders a standalone HTML page with navigation and grouped tables', () => {
+        const html = renderHtmlReport(SAMPLE_DATA);
+
+        assert.match(html, /^<!DOCTYPE html>\n<html lang="en">/);
+        assert.ok(html.includes('<title>Infrastructure Design Specification for Unison Version 2.1.0</title>'));
+        assert.ok(html.includes('<li><a href="#redis-data">3.1 Redis Cache Specification</a></li>'));
+        assert.ok(html.includes('<section id="storage-data">\n<h3>3.2 Storage &lt;Account&gt;</h3>'));
+        assert.ok(html.includes('<td class="section" rowspan="2">Security</td><td>Minimum TLS version</td><td>1.0</td><td>1.2</td><td style="background: #FFC7CE">Fail</td>'));
+        assert.ok(html.includes('<td>Non-SSL Port<span class="note">Checked against IDS v3</span></td>'));
+        assert.ok(html.includes('<td class="section" rowspan="1">General</td><td>Memory</td><td>6 GB</td><td>-</td><td>-</td>'));
+    });
+
+    it('exports Markdown tables with contents links and footnotes', () => {
+        const markdown = renderMarkdownReport(SAMPLE_DATA);
+
+        assert.match(markdown, /^# Infrastructure Design Specification for Unison Version 2\.1\.0\n\nOrbia - Test Environment\n/);
+        assert.ok(markdown.includes('- [3.1 Redis Cache Specification](#31-redis-cache-specification)'));
+        assert.ok(markdown.includes([
+            '### 3.1 Redis Cache Specification',
+            '',
+            '| Section | Specification | Value | Expected | Status |',
+            '| --- | --- | --- | --- | --- |',
+            '| **Security** | Minimum TLS version | 1.0 | 1.2 | Fail |',
+            '|  | Non-SSL Port[^1] | Disabled | Disabled | Pass |',
+            '| **General** | Memory | 6 GB | - | - |'
+        ].join('\n')));
+        assert.ok(markdown.includes('| **General** | Replication \\| Tier | LRS |'));
+        assert.match(markdown, /\n\[\^1\]: Checked against IDS v3\n$/);
+        assert.strictEqual(getMarkdownAnchor('3.2 Storage <Account>'), '32-storage-account');
+    });
+
+    it('translates the reports with the document language', () => {
+        CONFIG.locale = 'de';
+        assert.ok(renderHtmlReport(SAMPLE_DATA).includes('<html lang="de">'));
+        assert.ok(renderMarkdownReport(SAMPLE_DATA).includes('| Abschnitt | Spezifikation | Wert | Soll | Status |'));
+    });
+
+    it('writes the configured formats next to the document', async () => {
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reports-'));
+        try {
+            CONFIG.outputFormats = ['docx', 'html', 'md'];
+            const documentPath = path.join(tempDir, 'report.docx');
+
+            assert.deepStrictEqual(await exportOutputFormats(documentPath, SAMPLE_DATA), [path.join(tempDir, 'report.html'), path.join(tempDir, 'report.md')]);
+            assert.ok(fs.readFileSync(path.join(tempDir, 'report.md'), 'utf8').startsWith('# Infrastructure Design Specification'));
+            assert.deepStrictEqual(await exportOutputFormats(documentPath), []);
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import JSZip from 'jszip';
+import { Document, Packer } from 'docx';
+import {
+    groupBySection,
+    formatSpecificationValue,
+    generateSpecificationTable,
+    SpecificationTableOptions
+} from '../../src/doc-generators/utils/table-generators';
+import { FootnoteCollector } from '../../src/doc-generators/utils/footnotes';
+import { SpecificationData } from '../../src/types';
+import { getDocumentXml, toReadableText } from '../helpers/docx';
+
+const RICH_DATA: SpecificationData = [
+    { section: 'Security', title: 'Minimum TLS version', value: '1.0', expected: '1.2', status: 'fail', source: 'redis: properties.minimumTlsVersion' },
+    { section: 'Security', title: 'Non-SSL Port', value: 'Disabled', expected: 'Disabled', status: 'pass', note: 'Checked against IDS v3' },
+    { section: 'General', title: 'Memory', value: '6', unit: 'GB' }
+];
+
+async function renderTable(data: SpecificationData, options: SpecificationTableOptions = {}): Promise<string> {
+    const doc = new Document({
+        footnotes: options.footnotes?.toDocumentFootnotes(),
+        sections: [{ children: [generateSpecificationTable(data, options)] }]
+    });
+    return toReadableText(await getDocumentXml(doc));
+}
+
+describe('table generators', () => {
+    describe('groupBySection', () => {
+        it('groups rows by section in first-seen order', () => {
+            const grouped = groupBySection([
+                { section: 'General', title: 'CPU Cores', value: '4' },
+                { section: 'Network', title: 'Bandwidth', value: '1 Gbps' },
+                { section: 'General', title: 'RAM', value: '16 GB' }
+            ]);
+
+            assert.deepStrictEqual(Object.keys(grouped), ['General', 'Network']);
+            assert.deepStrictEqual(grouped.General.map(item => item.title), ['CPU Cores', 'RAM']);
+            assert.deepStrictEqual(grouped.Network.map(item => item.title), ['Bandwidth']);
+        });
+
+        it('returns an empty object for no data', () => {
+            assert.deepStrictEqual(groupBySection([]), {});
+        });
+    });
+
+    describe('formatSpecificationValue', () => {
+        it('appends the unit unless the value is empty or already has it', () => {
+            assert.strictEqual(formatSpecificationValue({ section: 'A', title: 'B', value: '16', unit: 'GB' }), '16 GB');
+            assert.strictEqual(formatSpecificationValue({ section: 'A', title: 'B', value: '16 GB', unit: 'GB' }), '16 GB');
+            assert.strictEqual(formatSpecificationValue({ section: 'A', title: 'B', value: '-', unit: 'GB' }), '-');
+            assert.strictEqual(formatSpecificationValue({ section: 'A', title: 'B', value: '16' }), '16');
+        });
+    });
+
+    describe('generateSpecificationTable', () => {
+        it('keeps the three-column layout for three-field data', async () => {
+            const text = await renderTable([{ section: 'General', title: 'Memory', value: '1 GB' }]);
+
+            assert.strictEqual(text, 'Section | Specification | Value\nGeneral | Memory | 1 GB\n');
+        });
+
+        it('adds Expected and Status columns when rows use them', async () => {
+            const text = await renderTable(RICH_DATA);
+
+            assert.deepStrictEqual(text.trim().split('\n'), [
+                'Section | Specification | Value | Expected | Status',
+                'Security | Minimum TLS version | 1.0 | 1.2 | Fail',
+                ' | Non-SSL Port / Checked against IDS v3 | Disabled | Disabled | Pass',
+                'General | Memory | 6 GB | - | -'
+            ]);
+        });
+
+        it('turns notes and sources into footnotes', async () => {
+            const footnotes = new FootnoteCollector();
+            const doc = new Document({
+                sections: [{ children: [generateSpecificationTable(RICH_DATA, { footnotes, includeSources: true })] }],
+                footnotes: footnotes.toDocumentFootnotes()
+            });
+            const zip = await JSZip.loadAsync(await Packer.toBuffer(doc));
+            const footnotesXml = await zip.file('word/footnotes.xml')!.async('string');
+
+            assert.strictEqual(footnotes.count, 2);
+            assert.match(footnotesXml, /Source: redis: properties\.minimumTlsVersion/);
+            assert.match(footnotesXml, /Checked against IDS v3/);
+            assert.strictEqual((toReadableText(await getDocumentXml(doc)).match(/Checked against/g) || []).length, 0);
+        });
+    });
+});
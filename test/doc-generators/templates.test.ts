@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { renderTemplate, getTemplate, getTemplateVariables } from '../../src/doc-generators/utils/templates';
+import { generateTitlePage } from '../../src/doc-generators/sections/00-title-page';
+import { CONFIG, getDocumentPurpose, getEnvironmentConfig } from '../../src/config';
+import { mergeProjectConfig, PROJECT_CONFIG_FILE_SCHEMA } from '../../src/config-file';
+import { validateSchema, formatIssuePath } from '../../src/validation/schema';
+import { ENVIRONMENTS, ProjectConfig } from '../../src/types';
+import { Document } from 'docx';
+import { getDocumentXml, toReadableText } from '../helpers/docx';
+
+describe('templates', () => {
+    const original = { ...CONFIG };
+
+    afterEach(() => {
+        delete CONFIG.templates;
+        delete CONFIG.templateVariables;
+        delete CONFIG.environments;
+        Object.assign(CONFIG, original);
+    });
+
+    describe('renderTemplate', () => {
+        const variables = { environment: 'production', productName: 'Unison', validated: 'false' };
+
+        it('keeps the branch matching the environment', () => {
+            const template = 'Used for {{#if environment == "production"}}live operation{{else}}qualification{{/if}} of {{productName}}.';
+
+            assert.strictEqual(renderTemplate(template, variables), 'Used for live operation of Unison.');
+            assert.strictEqual(renderTemplate(template, { ...variables, environment: 'test' }), 'Used for qualification of Unison.');
+        });
+
+        it('supports nested blocks, != and truthiness checks', () => {
+            const template = "{{#if environment != test}}A{{#if validated}}B{{else}}C{{/if}}{{/if}}{{#if missing}}D{{/if}}";
+            assert.strictEqual(renderTemplate(template, variables), 'AC');
+        });
+
+        it('rejects unbalanced blocks', () => {
+            assert.throws(() => renderTemplate('{{#if productName}}open', variables), /\{\{#if\}\} without \{\{\/if\}\}/);
+            assert.throws(() => renderTemplate('text{{/if}}', variables), /\{\{\/if\}\} without \{\{#if\}\}/);
+            assert.throws(() => renderTemplate('{{#if a b}}x{{/if}}', variables), /Invalid template condition/);
+        });
+    });
+
+    describe('getTemplate', () => {
+        it('uses project overrides and extra variables', () => {
+            CONFIG.productName = 'Unison';
+            CONFIG.templates = { 'clientRequirements.browsers': 'Microsoft Edge only' };
+            CONFIG.templateVariables = { qualificationPlanId: 'QP-7' };
+
+            assert.strictEqual(getTemplate('clientRequirements.browsers'), 'Microsoft Edge only');
+            assert.strictEqual(getTemplate('header.title', { documentType: 'IAT' }), `IAT for Unison Version ${CONFIG.version}`);
+            assert.strictEqual(getTemplateVariables().qualificationPlanId, 'QP-7');
+            assert.throws(() => getTemplate('no.such.template'), /Unknown template: no.such.template/);
+        });
+
+        it('feeds the title page wording', async () => {
+            CONFIG.siteName = 'Orbia';
+            CONFIG.environment = 'uat';
+            CONFIG.templates = { 'titlePage.environment': '{{siteName}} {{#if environment == "uat"}}User Acceptance{{else}}{{environmentName}}{{/if}}' };
+
+            const doc = new Document({ sections: [{ children: generateTitlePage() }] });
+            assert.ok(toReadableText(await getDocumentXml(doc)).includes('Orbia User Acceptance'));
+        });
+    });
+
+    describe('environments', () => {
+        it('defines the environment purpose once, with project overrides', () => {
+            CONFIG.environment = 'staging';
+            assert.strictEqual(getDocumentPurpose(), ENVIRONMENTS.staging.purpose);
+            assert.strictEqual(getTemplateVariables().environmentPurpose, ENVIRONMENTS.staging.purpose);
+
+            CONFIG.environments = { staging: { name: 'Pre-Production', description: 'Pre-Production Environment', purpose: 'release rehearsals' } };
+            assert.strictEqual(getTemplateVariables().environmentName, 'Pre-Production');
+            assert.strictEqual(getDocumentPurpose(), 'release rehearsals');
+        });
+
+        it('falls back to the development purpose for unknown environments', () => {
+            assert.deepStrictEqual(getEnvironmentConfig('uat'), { name: 'Uat', description: 'Uat Environment', purpose: ENVIRONMENTS.development.purpose });
+        });
+
+        it('validates and merges the template settings of a config file', () => {
+            const overrides = { templates: { 'iat.precondition': 'Run all steps.' }, environments: { uat: { name: 'UAT' } } };
+            assert.deepStrictEqual(validateSchema(overrides, PROJECT_CONFIG_FILE_SCHEMA).map(issue => formatIssuePath(issue.path)), ['environments.uat.description', 'environments.uat.purpose']);
+
+            const merged = mergeProjectConfig({ ...CONFIG, templates: { 'iat.purpose': 'Verify.' } }, { templates: overrides.templates } as Partial<ProjectConfig>);
+            assert.deepStrictEqual(merged.templates, { 'iat.purpose': 'Verify.', 'iat.precondition': 'Run all steps.' });
+        });
+    });
+});
@@ -0,0 +1,80 @@
+// test/helpers/docx.ts
+// Helpers for unpacking generated .docx files in golden-file tests
+import * as fs from 'fs';
+import * as path from 'path';
+import * as assert from 'assert';
+import JSZip from 'jszip';
+import { Document, Packer } from 'docx';
+
+const GOLDEN_DIR = path.join(__dirname, '..', 'golden');
+
+/**
+ * Pack a document and return the XML of word/document.xml
+ */
+export async function getDocumentXml(doc: Document): Promise<string> {
+    const zip = await JSZip.loadAsync(await Packer.toBuffer(doc));
+    return zip.file('word/document.xml')!.async('string');
+}
+
+/**
+ * Split the document body into the XML of each docx section (one per SectionType.NEXT_PAGE block)
+ */
+export function splitSections(documentXml: string): string[] {
+    const body = documentXml.substring(documentXml.indexOf('<w:body>') + '<w:body>'.length);
+    return body
+        .split(/<w:sectPr[\s\S]*?<\/w:sectPr>/)
+        .filter(chunk => chunk.includes('<w:p'));
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+function paragraphText(paragraphXml: string): string {
+    const texts = paragraphXml.match(/<w:t(?:\s[^>]*)?>[\s\S]*?<\/w:t>/g) || [];
+    return decodeXml(texts.map(t => t.replace(/<[^>]+>/g, '')).join(''));
+}
+
+/**
+ * Render section XML as readable text: one line per paragraph, table rows as "cell | cell | cell"
+ */
+export function toReadableText(sectionXml: string): string {
+    const lines: string[] = [];
+    const blocks = sectionXml.match(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p[ >][\s\S]*?<\/w:p>/g) || [];
+
+    blocks.forEach(block => {
+        if (block.startsWith('<w:tbl>')) {
+            const rows = block.match(/<w:tr[ >][\s\S]*?<\/w:tr>/g) || [];
+            rows.forEach(row => {
+                const cells = row.match(/<w:tc>[\s\S]*?<\/w:tc>/g) || [];
+                lines.push(cells.map(cell => (cell.match(/<w:p[ >][\s\S]*?<\/w:p>/g) || []).map(paragraphText).join(' / ')).join(' | '));
+            });
+        } else {
+            const text = paragraphText(block);
+            if (text.trim()) lines.push(text);
+        }
+    });
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Compare text with test/golden/<name>; run with UPDATE_GOLDEN=1 to rewrite the golden file
+ */
+export function assertMatchesGolden(name: string, actual: string): void {
+    const goldenPath = path.join(GOLDEN_DIR, name);
+
+    if (process.env.UPDATE_GOLDEN) {
+        fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+        fs.writeFileSync(goldenPath, actual);
+        return;
+    }
+
+    assert.ok(fs.existsSync(goldenPath), `Missing golden file ${name} (run with UPDATE_GOLDEN=1 to create it)`);
+    assert.strictEqual(actual, fs.readFileSync(goldenPath, 'utf8'), `Output differs from golden file ${name} (run with UPDATE_GOLDEN=1 to update)`);
+}
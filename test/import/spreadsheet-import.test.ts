@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCsv, mapImportRows, importSpreadsheet, getImportTitle } from '../../src/import/spreadsheet-import';
+import { buildSpecificationWorkbook } from '../../src/doc-generators/excel-workbook';
+import { resolveDocumentSections } from '../../src/doc-generators/utils/data-loader';
+import { MemorySpecificationStore, loadJson } from '../../src/persistence/specification-store';
+import { CONFIG } from '../../src/config';
+
+describe('spreadsheet import', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-'));
+    });
+
+    afterEach(() => {
+        delete CONFIG.imports;
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('parses quoted CSV fields and detects the delimiter', () => {
+        assert.deepStrictEqual(parseCsv('\uFEFFa,"b, ""c""",d\r\n1,"two\nlines",3\n'), [['a', 'b, "c"', 'd'], ['1', 'two\nlines', '3']]);
+        assert.deepStrictEqual(parseCsv('Section;Value\nGeneral;1,5 GB'), [['Section', 'Value'], ['General', '1,5 GB']]);
+    });
+
+    it('maps columns, repeats blank sections and reports incomplete rows', () => {
+        const rows = [
+            ['Component', 'Setting', 'Configured', 'Required', 'Result', 'Comment'],
+            ['Firewall', 'Vendor', 'Fortinet', '', '', ''],
+            ['', 'Firmware', '7.2', '7.0', 'PASS', 'Checked by partner'],
+            ['', 'Throughput', '', '', '', ''],
+            ['', '', '', '', '', ''],
+            ['VPN', 'Tunnel', 'IPsec', '', 'unknown', '']
+        ];
+        const data = mapImportRows(rows, {
+            file: 'partner.csv',
+            outputFilename: 'partner-data.json',
+            columns: { section: 'Component', title: 'Setting', value: 'Configured', expected: 'Required', status: 'Result', note: 'Comment' }
+        });
+
+        assert.deepStrictEqual(data, [
+            { section: 'Firewall', title: 'Vendor', value: 'Fortinet' },
+            { section: 'Firewall', title: 'Firmware', value: '7.2', expected: '7.0', status: 'pass', note: 'Checked by partner' },
+            { section: 'VPN', title: 'Tunnel', value: 'IPsec' }
+        ]);
+        assert.throws(() => mapImportRows([['Name', 'Value']], { file: 'bad.csv', outputFilename: 'bad-data.json' }),
+            /Missing column in bad\.csv: "Section" \(section\), "Specification" \(title\)/);
+        assert.deepStrictEqual(mapImportRows([['Specification', 'Value'], ['CPU', '4']], { file: 'a.csv', outputFilename: 'a-data.json', section: 'Hardware' }),
+            [{ section: 'Hardware', title: 'CPU', value: '4' }]);
+    });
+
+    it('imports a CSV file into the specification store', async () => {
+        const file = path.join(tempDir, 'on-prem.csv');
+        fs.writeFileSync(file, 'Section,Specification,Value,Unit\nFile Server,Disk,500,GB\n');
+        const store = new MemorySpecificationStore();
+
+        await importSpreadsheet({ file, outputFilename: 'on-prem-data.json' }, store);
+
+        assert.deepStrictEqual(loadJson('on-prem-data.json', store), [{ section: 'File Server', title: 'Disk', value: '500', unit: 'GB' }]);
+        await assert.rejects(importSpreadsheet({ file, outputFilename: 'on-prem.json' }, store), /must end with -data\.json/);
+        await assert.rejects(importSpreadsheet({ file: path.join(tempDir, 'specs.txt'), outputFilename: 'x-data.json' }, store), /Import file not found/);
+    });
+
+    it('reads a worksheet with merged section cells, e.g. from the Excel export', async () => {
+        const file = path.join(tempDir, 'redis.xlsx');
+        await buildSpecificationWorkbook([{
+            filename: 'redis-data.json',
+            title: 'Redis Cache Specification',
+            data: [
+                { section: 'Security', title: 'Minimum TLS version', value: '1.2', status: 'pass' },
+                { section: 'Security', title: 'Non-SSL Port', value: 'Disabled', status: 'pass' }
+            ]
+        }]).xlsx.writeFile(file);
+        const store = new MemorySpecificationStore();
+
+        const data = await importSpreadsheet({ file, outputFilename: 'redis-copy-data.json', sheet: 'Redis Cache Specification' }, store);
+
+        assert.deepStrictEqual(data, [
+            { section: 'Security', title: 'Minimum TLS version', value: '1.2', status: 'pass' },
+            { section: 'Security', title: 'Non-SSL Port', value: 'Disabled', status: 'pass' }
+        ]);
+        await assert.rejects(importSpreadsheet({ file, outputFilename: 'x-data.json', sheet: 'Missing' }, store), /Worksheet not found .*: Missing \(available: Summary, Redis Cache Specification\)/);
+    });
+
+    it('adds imported files to the document sections', () => {
+        CONFIG.imports = [{ file: 'partner.xlsx', outputFilename: 'partner-systems-data.json' }];
+
+        assert.strictEqual(getImportTitle(CONFIG.imports[0]), 'Partner Systems Specification');
+        assert.deepStrictEqual(resolveDocumentSections().slice(-1), [{ filename: 'partner-systems-data.json', title: 'Partner Systems Specification', enabled: true }]);
+    });
+});
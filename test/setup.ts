@@ -0,0 +1,10 @@
+// test/setup.ts
+// Fixed project settings so every test run (and every golden file) is deterministic.
+// Loaded by .mocharc.json before any test file imports src/config.ts.
+process.env.product_name = 'Unison';
+process.env.version = '2.1.0';
+process.env.site_name = 'Orbia';
+process.env.env_name = 'test';
+process.env.documentType = 'Infrastructure Design Specification';
+process.env.azure_recording_mode = 'replay';
+process.env.archive_runs = 'false';
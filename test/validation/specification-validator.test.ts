@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import {
+    SpecificationValidationError,
+    formatSpecificationIssue,
+    validateSpecificationJson
+} from '../../src/validation/specification-validator';
+import { indexJsonPaths, locateJsonPath } from '../../src/validation/json-locations';
+
+const VALID_FILE = `[
+  { "section": "General", "title": "Memory", "value": "1 GB" },
+  { "section": "General", "title": "Port", "value": "6380" }
+]`;
+
+describe('specification validator', () => {
+    it('accepts a well-formed file', () => {
+        const result = validateSpecificationJson('redis-data.json', VALID_FILE);
+
+        assert.deepStrictEqual(result.issues, []);
+        assert.strictEqual(result.data!.length, 2);
+    });
+
+    it('reports wrong types and missing fields with their line', () => {
+        const contents = [
+            '[',
+            '  { "section": "General", "title": "Memory", "value": "1 GB" },',
+            '  {',
+            '    "section": "General",',
+            '    "title": "Port",',
+            '    "value": 6380',
+            '  },',
+            '  { "section": "General", "value": "-" }',
+            ']'
+        ].join('\n');
+
+        const result = validateSpecificationJson('redis-data.json', contents);
+
+        assert.deepStrictEqual(result.issues.map(formatSpecificationIssue), [
+            'redis-data.json:6:5 [1].value must be a string (got number)',
+            'redis-data.json:8:3 [2].title is required'
+        ]);
+        assert.deepStrictEqual(result.data, [{ section: 'General', title: 'Memory', value: '1 GB' }]);
+    });
+
+    it('accepts the optional detail fields and checks the status value', () => {
+        const contents = JSON.stringify([
+            { section: 'Security', title: 'TLS', value: '1.2', expected: '1.2', status: 'pass', source: 'redis: properties.minimumTlsVersion', note: 'n', unit: '' },
+            { section: 'Security', title: 'HTTPS', value: 'On', status: 'ok' }
+        ]);
+
+        const result = validateSpecificationJson('a-data.json', contents);
+
+        assert.deepStrictEqual(result.issues.map(issue => `${issue.path} ${issue.message}`), [
+            '[1].status must be one of pass, fail, missing, info (got "ok")'
+        ]);
+        assert.strictEqual(result.data!.length, 1);
+    });
+
+    it('reports unknown properties', () => {
+        const result = validateSpecificationJson('a-data.json', '[{ "section": "A", "title": "B", "value": "C", "colour": "red" }]');
+
+        assert.deepStrictEqual(result.issues.map(issue => `${issue.path} ${issue.message}`), ['[0].colour is not a known property']);
+    });
+
+    it('reports JSON syntax errors with their position', () => {
+        const result = validateSpecificationJson('a-data.json', '[\n  { "section": "A",, }\n]');
+
+        assert.strictEqual(result.data, undefined);
+        assert.strictEqual(result.issues.length, 1);
+        assert.strictEqual(result.issues[0].line, 2);
+        assert.match(result.issues[0].message, /is not valid JSON/);
+    });
+
+    it('rejects a file that is not an array', () => {
+        const result = validateSpecificationJson('a-data.json', '{ "section": "A" }');
+
+        assert.strictEqual(result.data, undefined);
+        assert.deepStrictEqual(result.issues.map(formatSpecificationIssue), ['a-data.json:1:1 (root) must be an array (got object)']);
+    });
+
+    it('lists every issue in the strict mode error message', () => {
+        const error = new SpecificationValidationError([
+            { filename: 'a-data.json', line: 3, column: 5, path: '[0].value', message: 'is required' }
+        ]);
+
+        assert.match(error.message, /1 issue\(s\)/);
+        assert.match(error.message, /a-data\.json:3:5 \[0\]\.value is required/);
+    });
+
+    describe('locateJsonPath', () => {
+        it('points at property keys and falls back to the closest parent', () => {
+            const index = indexJsonPaths(VALID_FILE);
+
+            assert.deepStrictEqual(locateJsonPath(VALID_FILE, [1, 'value'], index), { line: 3, column: 44 });
+            assert.deepStrictEqual(locateJsonPath(VALID_FILE, [1, 'missing'], index), { line: 3, column: 3 });
+        });
+    });
+});